@@ -0,0 +1,161 @@
+// Offline support for the explorer; registered by registerServiceWorker in src/lib/offline.ts.
+//  - Pages: network first, falling back to the last copy of that page, then to the home page (the app shell)
+//  - /_next/static assets: cache first, in a cache per build; their file names change with every build
+//  - Covers from covers.openlibrary.org: cache first, keeping the most recently fetched ones
+//  - /api/search: network first; when the network fails the last saved response for the same search is
+//    served with an X-Offline-Saved-At header, which the search page shows as stale results
+
+// The build the worker was registered for (see registerServiceWorker); the shell, pages and static assets
+// belong to one build, so each build caches its own and activate deletes those of earlier builds
+const BUILD = new URL(self.location.href).searchParams.get('build') || 'unknown';
+// Covers and search responses outlive builds; bump when the way they are saved changes
+const DATA_VERSION = 'v1';
+const SHELL_CACHE = `rivel-books-shell-${BUILD}`;
+const PAGE_CACHE = `rivel-books-pages-${BUILD}`;
+const STATIC_CACHE = `rivel-books-static-${BUILD}`;
+const COVER_CACHE = `rivel-books-covers-${DATA_VERSION}`;
+const SEARCH_CACHE = `rivel-books-search-${DATA_VERSION}`;
+const CACHES = [SHELL_CACHE, PAGE_CACHE, STATIC_CACHE, COVER_CACHE, SEARCH_CACHE];
+
+const SHELL_URLS = ['/', '/subjects', '/shelves', '/manifest.webmanifest', '/icon.svg'];
+const COVERS_ORIGIN = 'https://covers.openlibrary.org';
+// Must match OFFLINE_SAVED_AT_HEADER in src/lib/offline.ts
+const SAVED_AT_HEADER = 'X-Offline-Saved-At';
+
+// Cover responses are opaque, and browsers count each against the storage quota at a padded size
+const MAX_COVERS = 150;
+const MAX_PAGES = 30;
+const MAX_SEARCHES = 50;
+
+// Drop the oldest entries once a cache holds more than max
+const trimCache = async (cache, max) => {
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(keys.length - max, 0)).map(key => cache.delete(key)));
+};
+
+// Re-putting an entry moves it to the end of the cache, so trimming keeps the most recently used
+const putAndTrim = async (cacheName, key, response, max) => {
+    const cache = await caches.open(cacheName);
+    await cache.delete(key);
+    await cache.put(key, response);
+    await trimCache(cache, max);
+};
+
+// Cache the shell pages along with the scripts and styles they load, so the app starts offline
+const precacheShell = async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    const assets = new Set();
+
+    await Promise.all(SHELL_URLS.map(async url => {
+        const response = await fetch(url, { cache: 'reload' });
+        if (!response.ok) throw new Error(`Failed to precache ${url}`);
+        if ((response.headers.get('Content-Type') || '').includes('text/html')) {
+            const html = await response.clone().text();
+            (html.match(/\/_next\/static\/[^"'\s)]+/g) || []).forEach(asset => assets.add(asset));
+        }
+        await shell.put(url, response);
+    }));
+
+    const staticCache = await caches.open(STATIC_CACHE);
+    await staticCache.addAll(Array.from(assets));
+};
+
+self.addEventListener('install', event => {
+    event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(names => Promise.all(names.filter(name => !CACHES.includes(name)).map(name => caches.delete(name))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const cacheFirst = async (request, cacheName, max) => {
+    const cached = await (await caches.open(cacheName)).match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    // Cross-origin images come back opaque; their status cannot be checked
+    if (response.ok || response.type === 'opaque') {
+        await putAndTrim(cacheName, request, response.clone(), max);
+    }
+    return response;
+};
+
+const pageNetworkFirst = async request => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) await putAndTrim(PAGE_CACHE, request, response.clone(), MAX_PAGES);
+        return response;
+    } catch (err) {
+        // The copy saved on the last visit is newer than the precached shell; the home page restores
+        // a search from its URL, so it stands in for any page not saved
+        const pages = await caches.open(PAGE_CACHE);
+        const shell = await caches.open(SHELL_CACHE);
+        const cached = await pages.match(request) || await shell.match(request) || await shell.match('/');
+        if (cached) return cached;
+        throw err;
+    }
+};
+
+// Case and extra whitespace do not change the results, as in searchCacheKey in src/lib/searchParams.ts
+const searchCacheKey = url => {
+    const params = new URLSearchParams();
+    Array.from(url.searchParams.entries())
+        .map(([key, value]) => [key, value.trim().replace(/\s+/g, ' ').toLowerCase()])
+        .filter(([, value]) => value !== '')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([key, value]) => params.append(key, value));
+    return `${url.origin}${url.pathname}?${params.toString()}`;
+};
+
+const searchNetworkFirst = async request => {
+    const key = searchCacheKey(new URL(request.url));
+
+    let response;
+    try {
+        response = await fetch(request);
+    } catch (err) {
+        const cached = await (await caches.open(SEARCH_CACHE)).match(key);
+        if (cached) return cached;
+        throw err;
+    }
+
+    if (response.ok) {
+        const headers = new Headers(response.headers);
+        headers.set(SAVED_AT_HEADER, new Date().toISOString());
+        const saved = new Response(await response.clone().blob(), { status: response.status, statusText: response.statusText, headers });
+        await putAndTrim(SEARCH_CACHE, key, saved, MAX_SEARCHES);
+        return response;
+    }
+
+    // Open Library being down looks the same to the reader as the connection dropping
+    if (response.status >= 500) {
+        const cached = await (await caches.open(SEARCH_CACHE)).match(key);
+        if (cached) return cached;
+    }
+    return response;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin === COVERS_ORIGIN) {
+        event.respondWith(cacheFirst(request, COVER_CACHE, MAX_COVERS));
+        return;
+    }
+    if (url.origin !== self.location.origin) return;
+
+    if (url.pathname === '/api/search') {
+        event.respondWith(searchNetworkFirst(request));
+    } else if (url.pathname.startsWith('/_next/static/')) {
+        // Not trimmed: a build has a fixed set of assets, the shell's among them, and activate drops earlier builds'
+        event.respondWith(cacheFirst(request, STATIC_CACHE, Infinity));
+    } else if (request.mode === 'navigate') {
+        event.respondWith(pageNetworkFirst(request));
+    }
+});
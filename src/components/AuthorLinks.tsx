@@ -0,0 +1,36 @@
+import React from 'react';
+import Link from 'next/link';
+import { Book } from '@/types/types';
+import { getAuthorPath } from '@/lib/catalog';
+import { useLocale } from '@/context/LocaleContext';
+
+interface AuthorLinksProps {
+    book: Book;
+    className?: string;
+}
+
+// A book's authors, each linking to its author page when the catalog knows the author's id
+export const AuthorLinks: React.FC<AuthorLinksProps> = ({ book, className = 'hover:text-indigo-700 hover:underline' }) => {
+    const { formatList } = useLocale();
+    const names = book.authors?.length ? book.authors : [book.author];
+    // The names listed the locale's way ('a, b and c'), with each {index} placeholder then swapped for its link
+    const parts = formatList(names.map((_, index) => `{${index}}`)).split(/\{(\d+)\}/);
+
+    return (
+        <>
+            {parts.map((part, position) => {
+                // Odd parts are the indexes captured by the split
+                if (position % 2 === 0) return part;
+                const index = Number(part);
+                const path = getAuthorPath(book.authorIds?.[index] || '');
+                return (
+                    <React.Fragment key={`${names[index]}-${index}`}>
+                        {path ? <Link href={path} className={className}>{names[index]}</Link> : names[index]}
+                    </React.Fragment>
+                );
+            })}
+        </>
+    );
+};
+
+export default AuthorLinks;
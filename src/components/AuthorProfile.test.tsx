@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, render, screen, waitFor } from '@testing-library/react';
+import { AuthorPage, Book } from '@/types/types';
+import { makeBook } from '@/test/books';
+import { LocaleProvider } from '@/context/LocaleContext';
+import { ShelvesProvider } from '@/context/ShelvesContext';
+import AuthorProfile from './AuthorProfile';
+
+const router = { pathname: '/authors/[id]', query: { id: 'OL1A' }, replace: vi.fn() };
+vi.mock('next/router', () => ({ useRouter: () => router }));
+
+// The observer the page set up, so a test can scroll rows into view
+let observer: { callback: IntersectionObserverCallback; observed: Set<Element> };
+
+const scrollIntoView = (rows: Element[]) =>
+    act(() => {
+        observer.callback(
+            rows.map(target => ({ target, isIntersecting: true }) as unknown as IntersectionObserverEntry),
+            {} as IntersectionObserver
+        );
+    });
+
+let previewRequests: Book[][];
+
+const page: AuthorPage = {
+    author: { id: '/authors/OL1A', name: 'Frank Herbert', bio: null, birthDate: null, deathDate: null, photoId: null },
+    works: [
+        makeBook({ id: '/works/OL1W', title: 'Dune', previewStatus: 'checking' }),
+        makeBook({ id: '/works/OL2W', title: 'Dune Messiah', previewStatus: 'checking' }),
+        makeBook({ id: '/works/OL3W', title: 'Children of Dune', previewStatus: 'checking' })
+    ],
+    totalWorks: 3
+};
+
+describe('AuthorProfile', () => {
+    beforeEach(() => {
+        previewRequests = [];
+        vi.stubGlobal('fetch', vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+            const { books }: { books: Book[] } = JSON.parse(String(init!.body));
+            previewRequests.push(books);
+            return Response.json({
+                books: books.map(book => ({ ...book, previewStatus: 'checked', previewAvailable: true, previewUrl: 'https://archive.org/details/dune' }))
+            });
+        }));
+        vi.stubGlobal('IntersectionObserver', class {
+            constructor(callback: IntersectionObserverCallback) {
+                observer = { callback, observed: new Set() };
+            }
+            observe(target: Element) { observer.observed.add(target); }
+            unobserve(target: Element) { observer.observed.delete(target); }
+            disconnect() { observer.observed.clear(); }
+        });
+    });
+
+    afterEach(() => {
+        cleanup();
+        vi.unstubAllGlobals();
+    });
+
+    it('checks previews only for the works scrolled into view', async () => {
+        render(
+            <LocaleProvider>
+                <ShelvesProvider>
+                    <AuthorProfile page={page} initialAvailability="all" />
+                </ShelvesProvider>
+            </LocaleProvider>
+        );
+        expect(observer.observed.size).toBe(3);
+        expect(previewRequests).toEqual([]);
+
+        scrollIntoView([screen.getAllByRole('listitem')[1]]);
+
+        await waitFor(() => expect(screen.getAllByText('Preview')).toHaveLength(1));
+        expect(previewRequests.map(books => books.map(book => book.title))).toEqual([['Dune Messiah']]);
+        expect(observer.observed.size).toBe(2);
+    });
+});
@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Book as BookIcon, Calendar, Eye, Globe, Layers, Loader2, User } from 'lucide-react';
+import { AdvancedFilters, AuthorPage, Book } from '@/types/types';
+import { getDetailsPath, getEmbeddedPreviewUrl } from '@/lib/catalog';
+import { checkPreviewsInBatches } from '@/lib/searchClient';
+import { availabilityLabel, AVAILABILITY_MODES, matchesAvailability } from '@/lib/filters';
+import { useLocale } from '@/context/LocaleContext';
+import BookPreviewModal from './BookPreviewModal';
+import BookCover from './BookCover';
+import ShelfControls from './ShelfControls';
+import PageNav from './PageNav';
+
+interface AuthorProfileProps {
+    page: AuthorPage;
+    initialAvailability: AdvancedFilters['availability'];
+}
+
+// An author's bio and complete works, with how many of them can be read here
+export const AuthorProfile: React.FC<AuthorProfileProps> = ({ page, initialAvailability }) => {
+    const i18n = useLocale();
+    const { t, plural, formatNumber } = i18n;
+    const { author, totalWorks } = page;
+    const [works, setWorks] = useState<Book[]>(page.works);
+    const [availability, setAvailability] = useState<AdvancedFilters['availability']>(initialAvailability);
+    const [previewBook, setPreviewBook] = useState<Book | null>(null);
+
+    const [requestedIds, setRequestedIds] = useState<Set<string>>(new Set()); // Works whose previews were asked for
+    const listRef = useRef<HTMLUListElement | null>(null);
+    const observerRef = useRef<IntersectionObserver | null>(null);
+    const router = useRouter();
+
+    // Works arrive from the server before their previews were checked. An author can have hundreds,
+    // so previews are only checked for the works scrolled into view, a batch per observer callback.
+    useEffect(() => {
+        setWorks(page.works);
+        setRequestedIds(new Set());
+        const controller = new AbortController();
+        const byId = new Map(page.works.map(book => [book.id, book]));
+
+        const observer = new IntersectionObserver(entries => {
+            const batch = entries
+                .filter(entry => entry.isIntersecting)
+                .map(entry => {
+                    observer.unobserve(entry.target);
+                    return byId.get((entry.target as HTMLElement).dataset.workId || '');
+                })
+                .filter((book): book is Book => !!book && book.previewStatus === 'checking');
+            if (batch.length === 0) return;
+
+            setRequestedIds(prev => new Set([...prev, ...batch.map(book => book.id)]));
+            checkPreviewsInBatches(batch, resolved => {
+                const resolvedById = new Map(resolved.map(book => [book.id, book]));
+                setWorks(prev => prev.map(book => resolvedById.get(book.id) || book));
+            }, controller.signal);
+        }, { rootMargin: '200px' });
+        observerRef.current = observer;
+
+        return () => {
+            observer.disconnect();
+            controller.abort();
+        };
+    }, [page.works]);
+
+    // Watch the rows the filter shows that still need their preview checked
+    useEffect(() => {
+        const observer = observerRef.current;
+        if (!observer || !listRef.current) return;
+
+        listRef.current.querySelectorAll<HTMLElement>('li[data-work-id]').forEach(row => {
+            if (!requestedIds.has(row.dataset.workId || '')) observer.observe(row);
+        });
+    }, [works, availability, requestedIds]);
+
+    const changeAvailability = (value: AdvancedFilters['availability']) => {
+        setAvailability(value);
+        const query = { ...router.query };
+        delete query.availability;
+        router.replace(
+            { pathname: router.pathname, query: value === 'all' ? query : { ...query, availability: value } },
+            undefined,
+            { shallow: true, scroll: false }
+        );
+    };
+
+    const unchecked = works.filter(book => book.previewStatus === 'checking');
+    const checking = unchecked.filter(book => requestedIds.has(book.id)).length;
+    const fulltextCount = works.filter(book => book.hasFulltext).length;
+    const previewCount = works.filter(book => book.previewAvailable).length;
+    // Works not checked yet stay listed under "Has Preview" so that scrolling to them checks them
+    const visibleWorks = works.filter(book =>
+        (availability === 'preview' && book.previewStatus === 'checking') || matchesAvailability(book, availability)
+    );
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-sky-50 p-6">
+            <div className="max-w-5xl mx-auto">
+                <PageNav />
+
+                <div className="bg-white backdrop-blur-lg bg-opacity-90 p-8 rounded-2xl shadow-lg border border-indigo-100">
+                    {/* Author Header */}
+                    <div className="flex flex-col sm:flex-row items-start">
+                        <div className="flex-shrink-0 mb-4 sm:mb-0 sm:mr-6">
+                            {author.photoId ? (
+                                <img
+                                    src={`https://covers.openlibrary.org/a/id/${author.photoId}-L.jpg`}
+                                    alt={author.name}
+                                    className="w-40 h-52 object-cover rounded-md shadow-sm"
+                                />
+                            ) : (
+                                <div className="w-40 h-52 bg-indigo-100 flex items-center justify-center rounded-md">
+                                    <User className="w-12 h-12 text-indigo-400" />
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="flex-1">
+                            <h1 className="text-3xl font-bold text-indigo-900">{author.name}</h1>
+                            {(author.birthDate || author.deathDate) && (
+                                <p className="mt-1 flex items-center text-sm text-indigo-700">
+                                    <Calendar className="w-4 h-4 mr-1 text-indigo-500" />
+                                    {author.birthDate || '?'} – {author.deathDate || ''}
+                                </p>
+                            )}
+                            <p className="mt-4 text-gray-700 whitespace-pre-line">
+                                {author.bio || t('author.noBio')}
+                            </p>
+                            <a
+                                href={`https://openlibrary.org${author.id}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="mt-4 inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                <Globe className="w-4 h-4 mr-1" />
+                                <span className="font-medium">{t('nav.openLibrary')}</span>
+                            </a>
+                        </div>
+                    </div>
+
+                    {/* Works */}
+                    <section className="mt-8">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-4 gap-3">
+                            <div>
+                                <h2 className="text-lg font-medium text-indigo-800">{t('author.works')}</h2>
+                                <p className="text-sm text-indigo-600" role="status">
+                                    {plural('suggestions.works', totalWorks)}
+                                    {totalWorks > works.length && ` ${t('author.oldestShown', { count: formatNumber(works.length) })}`}
+                                    {' · '}{t('author.fulltextCount', { count: formatNumber(fulltextCount) })}
+                                    {' · '}{checking > 0
+                                        ? t('author.checking', { count: formatNumber(checking) })
+                                        : t(unchecked.length > 0 ? 'author.withPreviewSoFar' : 'book.withPreview', { count: formatNumber(previewCount) })}
+                                </p>
+                            </div>
+                            <div className="inline-flex rounded-lg border border-indigo-100 overflow-hidden text-sm" role="group" aria-label={t('filters.availability')}>
+                                {AVAILABILITY_MODES.map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => changeAvailability(mode)}
+                                        aria-pressed={availability === mode}
+                                        className={`px-3 py-1.5 transition-colors ${
+                                            availability === mode ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-700 hover:bg-indigo-50'
+                                        }`}
+                                    >
+                                        {mode === 'all' ? t('author.allWorks') : availabilityLabel(mode, i18n)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {visibleWorks.length === 0 ? (
+                            <p className="text-sm text-gray-500 py-8 text-center">{t('author.empty')}</p>
+                        ) : (
+                            <ul ref={listRef} className="divide-y divide-gray-100">
+                                {visibleWorks.map(book => {
+                                    const detailsPath = getDetailsPath(book);
+                                    return (
+                                        <li key={book.id} data-work-id={book.id} className="py-3 flex items-start">
+                                            <div className="w-10 h-14 bg-indigo-100 flex-shrink-0 rounded overflow-hidden mr-4 flex items-center justify-center">
+                                                <BookCover
+                                                    book={book}
+                                                    size="S"
+                                                    alt={t('results.cover', { title: book.title })}
+                                                    className="w-full h-full object-cover"
+                                                    fallback={<BookIcon className="w-5 h-5 text-indigo-400" />}
+                                                />
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <h3 className="font-semibold text-indigo-900">
+                                                    {detailsPath ? <Link href={detailsPath} className="hover:underline">{book.title}</Link> : book.title}
+                                                </h3>
+                                                <div className="mt-1 flex flex-wrap items-center text-xs text-gray-600 gap-x-4">
+                                                    <span className="flex items-center">
+                                                        <Calendar className="w-3 h-3 mr-1 text-indigo-500" />
+                                                        {book.year}
+                                                    </span>
+                                                    {!!book.editionCount && book.editionCount > 1 && (
+                                                        <span className="flex items-center">
+                                                            <Layers className="w-3 h-3 mr-1 text-indigo-500" />
+                                                            {plural('results.editions', book.editionCount)}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <div className="mt-2 flex flex-wrap items-center gap-2">
+                                                    {book.hasFulltext && (
+                                                        <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-lg font-medium">{t('related.fullText')}</span>
+                                                    )}
+                                                    {book.previewStatus === 'checking' && (
+                                                        <span className="inline-flex items-center px-2 py-1 bg-gray-50 text-gray-500 text-xs rounded-lg">
+                                                            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                                            {t('results.checking')}
+                                                        </span>
+                                                    )}
+                                                    {book.previewAvailable && book.previewUrl && (
+                                                        <button
+                                                            onClick={() => setPreviewBook(book)}
+                                                            className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-lg hover:bg-blue-200 transition-colors"
+                                                        >
+                                                            <Eye className="w-3 h-3 mr-1" />
+                                                            <span className="font-medium">{t('results.preview')}</span>
+                                                        </button>
+                                                    )}
+                                                    <ShelfControls book={book} />
+                                                </div>
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </section>
+                </div>
+            </div>
+            {previewBook && (
+                <BookPreviewModal
+                    previewBook={previewBook}
+                    showPreview={true}
+                    closePreview={() => setPreviewBook(null)}
+                    getEmbeddedPreviewUrl={(book) => getEmbeddedPreviewUrl(book)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default AuthorProfile;
@@ -0,0 +1,168 @@
+import React, { useEffect, useId, useState } from 'react';
+import { Suggestion, SuggestionType } from '@/types/types';
+import { fetchSuggestions, SEARCH_DEBOUNCE_MS } from '@/lib/searchClient';
+import { highlightMatches, MIN_SUGGESTION_LENGTH } from '@/lib/suggestions';
+import { isAbortError } from '@/lib/abort';
+import { useLocale } from '@/context/LocaleContext';
+
+interface AutocompleteInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'type'> {
+    suggestionType: SuggestionType;
+    value: string;
+    // Called with the chosen suggestion; typing still goes through onChange
+    onSelectSuggestion: (value: string) => void;
+    // Told whether the suggestion list is showing, e.g. to hide another dropdown meanwhile
+    onSuggestionsOpenChange?: (open: boolean) => void;
+    inputRef?: React.Ref<HTMLInputElement>;
+}
+
+// A text input with type-ahead suggestions from /api/suggest; place it inside a relatively positioned element
+export const AutocompleteInput: React.FC<AutocompleteInputProps> = ({
+    suggestionType,
+    value,
+    onSelectSuggestion,
+    onSuggestionsOpenChange,
+    inputRef,
+    onChange,
+    onKeyDown,
+    onBlur,
+    ...inputProps
+}) => {
+    const { plural } = useLocale();
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+    const [activeIndex, setActiveIndex] = useState<number>(-1);
+    // Suggestions only open for typed input, not for values set by selecting a suggestion or history entry
+    const [typing, setTyping] = useState<boolean>(false);
+    const listboxId = useId();
+
+    const term = value.trim();
+    const open = typing && term.length >= MIN_SUGGESTION_LENGTH && suggestions.length > 0;
+
+    // Fetch once typing pauses, on the same delay the search itself waits for
+    useEffect(() => {
+        if (!typing || term.length < MIN_SUGGESTION_LENGTH) {
+            setSuggestions([]);
+            return;
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            fetchSuggestions(suggestionType, term, controller.signal)
+                .then(list => {
+                    setSuggestions(list);
+                    setActiveIndex(-1);
+                })
+                .catch((err: unknown) => {
+                    if (!isAbortError(err)) console.error('Error fetching suggestions:', err);
+                });
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [suggestionType, term, typing]);
+
+    // Re-reported when the callback changes; pass a stable one, e.g. a state setter, to be told only of changes
+    useEffect(() => {
+        onSuggestionsOpenChange?.(open);
+    }, [open, onSuggestionsOpenChange]);
+
+    const close = () => {
+        setTyping(false);
+        setActiveIndex(-1);
+    };
+
+    const select = (suggestion: Suggestion) => {
+        close();
+        onSelectSuggestion(suggestion.value);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (open) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                // -1 is the typed text itself; moving past either end wraps around through it
+                setActiveIndex(prev => {
+                    const next = prev + (e.key === 'ArrowDown' ? 1 : -1);
+                    if (next < -1) return suggestions.length - 1;
+                    return next >= suggestions.length ? -1 : next;
+                });
+                return;
+            }
+            if (e.key === 'Enter' && activeIndex >= 0) {
+                e.preventDefault();
+                select(suggestions[activeIndex]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                close();
+                return;
+            }
+        }
+        onKeyDown?.(e);
+    };
+
+    return (
+        <>
+            <input
+                {...inputProps}
+                ref={inputRef}
+                type="text"
+                value={value}
+                role="combobox"
+                aria-autocomplete="list"
+                aria-expanded={open}
+                aria-controls={listboxId}
+                aria-activedescendant={open && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+                autoComplete="off"
+                onChange={(e) => {
+                    setTyping(true);
+                    onChange?.(e);
+                }}
+                onKeyDown={handleKeyDown}
+                onBlur={(e) => {
+                    close();
+                    onBlur?.(e);
+                }}
+            />
+            <ul
+                id={listboxId}
+                role="listbox"
+                hidden={!open}
+                // Keep focus in the input so a click selects before the blur closes the list
+                onMouseDown={(e) => e.preventDefault()}
+                className="absolute left-0 right-0 top-full mt-1 bg-white border border-indigo-100 rounded-xl shadow-lg z-30 py-1 text-sm max-h-80 overflow-y-auto"
+            >
+                {suggestions.map((suggestion, index) => (
+                    <li
+                        key={suggestion.value}
+                        id={`${listboxId}-${index}`}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onClick={() => select(suggestion)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`px-4 py-2 cursor-pointer flex items-baseline justify-between gap-3 ${
+                            index === activeIndex ? 'bg-indigo-50' : ''
+                        }`}
+                    >
+                        <span className="text-gray-700 truncate">
+                            {highlightMatches(suggestion.value, term).map((part, partIndex) => (
+                                part.match
+                                    ? <mark key={partIndex} className="bg-transparent font-semibold text-indigo-700">{part.text}</mark>
+                                    : <React.Fragment key={partIndex}>{part.text}</React.Fragment>
+                            ))}
+                        </span>
+                        {(suggestion.workCount || suggestion.detail) && (
+                            <span className="text-xs text-gray-400 truncate flex-shrink-0 max-w-[40%]">
+                                {suggestion.workCount ? plural('suggestions.works', suggestion.workCount) : suggestion.detail}
+                            </span>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </>
+    );
+};
+
+export default AutocompleteInput;
@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useId, useRef, useState } from 'react';
+import { CameraOff, Loader2, ScanBarcode, Upload, X } from 'lucide-react';
+import { BarcodeImage, decodeEan13, isIsbnBarcode } from '@/lib/barcode';
+import { useLocale } from '@/context/LocaleContext';
+
+// How often a camera frame is decoded
+const SCAN_INTERVAL_MS = 300;
+// Frames and photos are scaled down to this many pixels on their long side before decoding
+const MAX_DECODE_SIZE = 1024;
+
+// Chromium on Android and macOS ships a native detector; other browsers use the decoder in lib/barcode
+type NativeBarcodeDetector = { detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]> };
+type NativeBarcodeDetectorClass = new (options: { formats: string[] }) => NativeBarcodeDetector;
+
+const createNativeDetector = (): NativeBarcodeDetector | null => {
+    const Detector = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorClass }).BarcodeDetector;
+    return Detector ? new Detector({ formats: ['ean_13'] }) : null;
+};
+
+const readPixels = (source: CanvasImageSource, width: number, height: number, canvas: HTMLCanvasElement): BarcodeImage | null => {
+    const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context || !canvas.width || !canvas.height) return null;
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// A code that was read but is not an ISBN is kept to say so
+type ScanResult = { isbn: string } | { notIsbn: string } | null;
+
+// Shown in place of the scanning hint; translated when rendered so it follows a change of locale
+type ScanMessage = { key: 'scanner.notIsbn'; code: string } | { key: 'scanner.noBarcode' | 'scanner.unreadable' };
+
+// Decode one frame or photo: the native detector when there is one, then our own decoder
+const scanImage = async (
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    canvas: HTMLCanvasElement,
+    detector: NativeBarcodeDetector | null
+): Promise<ScanResult> => {
+    let code: string | null = null;
+    if (detector) {
+        try {
+            code = (await detector.detect(source))[0]?.rawValue || null;
+        } catch {
+            code = null;
+        }
+    }
+    if (!code) {
+        const pixels = readPixels(source, width, height, canvas);
+        code = pixels && decodeEan13(pixels);
+    }
+
+    if (!code) return null;
+    return isIsbnBarcode(code) ? { isbn: code } : { notIsbn: code };
+};
+
+interface BarcodeScannerProps {
+    // Called once with the ISBN-13 of the first valid book barcode read
+    onDetected: (isbn: string) => void;
+    onClose: () => void;
+}
+
+// Read a book's ISBN from its barcode with the camera, or from an uploaded photo when there is no camera
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onDetected, onClose }) => {
+    const [cameraState, setCameraState] = useState<'starting' | 'scanning' | 'unavailable'>('starting');
+    const { t } = useLocale();
+    const [message, setMessage] = useState<ScanMessage | null>(null);
+    const [decodingPhoto, setDecodingPhoto] = useState<boolean>(false);
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const closeButtonRef = useRef<HTMLButtonElement | null>(null);
+    const detectedRef = useRef<boolean>(false);
+    // The parent's latest callbacks, so the camera and key listener started on open keep running when they change
+    const onDetectedRef = useRef(onDetected);
+    const onCloseRef = useRef(onClose);
+    const titleId = useId();
+
+    useEffect(() => {
+        onDetectedRef.current = onDetected;
+        onCloseRef.current = onClose;
+    });
+
+    const handleResult = useCallback((result: ScanResult) => {
+        if (!result || detectedRef.current) return;
+        if ('notIsbn' in result) {
+            setMessage({ key: 'scanner.notIsbn', code: result.notIsbn });
+            return;
+        }
+        detectedRef.current = true;
+        onDetectedRef.current(result.isbn);
+    }, []);
+
+    // Escape closes; focus moves into the dialog and back to where it was afterwards
+    useEffect(() => {
+        const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        closeButtonRef.current?.focus();
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onCloseRef.current();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+            previouslyFocused?.focus();
+        };
+    }, []);
+
+    // Stream the rear camera and decode a frame every SCAN_INTERVAL_MS until a book barcode is read
+    useEffect(() => {
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setCameraState('unavailable');
+            return;
+        }
+
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let cancelled = false;
+        const detector = createNativeDetector();
+
+        const scanFrame = async () => {
+            const video = videoRef.current;
+            const canvas = canvasRef.current;
+            if (cancelled || !video || !canvas) return;
+            if (video.readyState >= video.HAVE_CURRENT_DATA && video.videoWidth) {
+                handleResult(await scanImage(video, video.videoWidth, video.videoHeight, canvas, detector));
+            }
+            if (!cancelled && !detectedRef.current) timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+        };
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+            .then(async mediaStream => {
+                if (cancelled || !videoRef.current) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = mediaStream;
+                videoRef.current.srcObject = mediaStream;
+                await videoRef.current.play();
+                setCameraState('scanning');
+                scanFrame();
+            })
+            .catch((err: unknown) => {
+                if (cancelled) return;
+                console.error('Error starting camera:', err);
+                setCameraState('unavailable');
+            });
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [handleResult]);
+
+    const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !canvasRef.current) return;
+
+        setDecodingPhoto(true);
+        setMessage(null);
+        try {
+            const bitmap = await createImageBitmap(file);
+            const result = await scanImage(bitmap, bitmap.width, bitmap.height, canvasRef.current, createNativeDetector());
+            bitmap.close();
+            if (result) {
+                handleResult(result);
+            } else {
+                setMessage({ key: 'scanner.noBarcode' });
+            }
+        } catch (err: unknown) {
+            console.error('Error reading photo:', err);
+            setMessage({ key: 'scanner.unreadable' });
+        } finally {
+            setDecodingPhoto(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby={titleId}
+                className="bg-white shadow-2xl w-full max-w-lg rounded-xl flex flex-col overflow-hidden"
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-indigo-50">
+                    <h3 id={titleId} className="font-semibold text-indigo-900 text-lg flex items-center">
+                        <ScanBarcode className="w-5 h-5 mr-2 text-indigo-600" />
+                        {t('scanner.title')}
+                    </h3>
+                    <button
+                        ref={closeButtonRef}
+                        onClick={onClose}
+                        title={t('scanner.close')}
+                        aria-label={t('scanner.closeScanner')}
+                        className="text-gray-500 hover:text-gray-700 p-2 rounded-full hover:bg-gray-100"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="p-4">
+                    <div className="relative bg-gray-900 rounded-lg overflow-hidden aspect-video flex items-center justify-center">
+                        <video
+                            ref={videoRef}
+                            muted
+                            playsInline
+                            className={`w-full h-full object-cover ${cameraState === 'scanning' ? '' : 'hidden'}`}
+                        />
+                        {cameraState === 'scanning' && (
+                            <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500 opacity-75" aria-hidden="true" />
+                        )}
+                        {cameraState === 'starting' && (
+                            <div className="text-gray-200 text-sm flex items-center">
+                                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                                {t('scanner.starting')}
+                            </div>
+                        )}
+                        {cameraState === 'unavailable' && (
+                            <div className="text-gray-200 text-sm flex flex-col items-center text-center px-6">
+                                <CameraOff className="w-8 h-8 mb-2" />
+                                {t('scanner.noCamera')}
+                            </div>
+                        )}
+                    </div>
+                    <canvas ref={canvasRef} className="hidden" />
+
+                    <p className="mt-3 text-sm text-gray-600" role="status">
+                        {message
+                            ? (message.key === 'scanner.notIsbn' ? t(message.key, { code: message.code }) : t(message.key))
+                            : (cameraState === 'scanning' ? t('scanner.hint') : '')}
+                    </p>
+
+                    <label className="mt-3 inline-flex items-center px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 hover:bg-indigo-100 transition-colors cursor-pointer">
+                        {decodingPhoto ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Upload className="w-4 h-4 mr-1" />}
+                        {t('scanner.upload')}
+                        <input type="file" accept="image/*" onChange={handlePhoto} className="sr-only" />
+                    </label>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BarcodeScanner;
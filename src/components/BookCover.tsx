@@ -0,0 +1,31 @@
+import React, { useState } from 'react';
+import { Book } from '@/types/types';
+import { CoverSize, getCoverUrls } from '@/lib/catalog';
+
+interface BookCoverProps {
+    book: Book;
+    size: CoverSize;
+    alt: string;
+    className: string;
+    // Shown when the book has no cover, or every cover URL failed to load
+    fallback: React.ReactNode;
+}
+
+// Cover image that moves on to the next candidate URL when one fails to load
+export const BookCover: React.FC<BookCoverProps> = ({ book, size, alt, className, fallback }) => {
+    const [failed, setFailed] = useState<string[]>([]);
+    const src = getCoverUrls(book, size).find(url => !failed.includes(url));
+
+    if (!src) return <>{fallback}</>;
+
+    return (
+        <img
+            src={src}
+            alt={alt}
+            className={className}
+            onError={() => setFailed(prev => [...prev, src])}
+        />
+    );
+};
+
+export default BookCover;
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Book as BookIcon, Calendar, Eye, Globe, User } from 'lucide-react';
+import BookPreviewModal from './BookPreviewModal';
+import { Book, Edition, WorkDetails } from '@/types/types';
+import { getAuthorPath, getEmbeddedPreviewUrl, getSubjectPath } from '@/lib/catalog';
+import { useLocale } from '@/context/LocaleContext';
+import PageNav from './PageNav';
+
+interface BookDetailsProps {
+    work: WorkDetails;
+}
+
+// Shape an edition as a Book so it can be opened in BookPreviewModal
+const editionToBook = (work: WorkDetails, edition: Edition, unknownAuthor: string): Book => ({
+    id: work.id,
+    title: edition.title,
+    author: work.authors[0]?.name || unknownAuthor,
+    year: edition.publishDate,
+    coverId: edition.coverId || work.coverId,
+    publisher: edition.publisher,
+    languages: edition.languages,
+    isbn: edition.isbn,
+    hasFulltext: !!edition.iaIdentifier,
+    iaIdentifier: edition.iaIdentifier,
+    previewAvailable: edition.previewAvailable,
+    previewUrl: edition.previewUrl,
+    readUrl: edition.readUrl,
+    readable: edition.readable,
+    source: 'openlibrary'
+});
+
+export const BookDetails: React.FC<BookDetailsProps> = ({ work }) => {
+    const { t, plural, formatList, formatNumber, languageName } = useLocale();
+    const [previewBook, setPreviewBook] = useState<Book | null>(null);
+    const previewableEditions = work.editions.filter(edition => edition.previewAvailable);
+    const toBook = (edition: Edition): Book => editionToBook(work, edition, t('book.unknownAuthor'));
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-sky-50 p-6">
+            <div className="max-w-5xl mx-auto">
+                <PageNav />
+
+                <div className="bg-white backdrop-blur-lg bg-opacity-90 p-8 rounded-2xl shadow-lg border border-indigo-100">
+                    {/* Work Header */}
+                    <div className="flex flex-col sm:flex-row items-start">
+                        <div className="flex-shrink-0 mb-4 sm:mb-0 sm:mr-6">
+                            {work.coverId ? (
+                                <img
+                                    src={`https://covers.openlibrary.org/b/id/${work.coverId}-L.jpg`}
+                                    alt={t('results.cover', { title: work.title })}
+                                    className="w-40 h-56 object-cover rounded-md shadow-sm"
+                                />
+                            ) : (
+                                <div className="w-40 h-56 bg-indigo-100 flex items-center justify-center rounded-md">
+                                    <BookIcon className="w-12 h-12 text-indigo-400" />
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="flex-1">
+                            <h1 className="text-3xl font-bold text-indigo-900">{work.title}</h1>
+                            <div className="mt-2 flex flex-wrap items-center text-sm text-gray-600">
+                                <span className="flex items-center mr-4 mb-1">
+                                    <User className="w-4 h-4 mr-1 text-indigo-500" />
+                                    {work.authors.length > 0 ? formatList(work.authors.map(author => author.name)) : t('book.unknownAuthor')}
+                                </span>
+                                {work.firstPublishDate && (
+                                    <span className="flex items-center mr-4 mb-1">
+                                        <Calendar className="w-4 h-4 mr-1 text-indigo-500" />
+                                        {t('book.firstPublished', { date: work.firstPublishDate })}
+                                    </span>
+                                )}
+                                <span className="flex items-center mb-1">
+                                    <BookIcon className="w-4 h-4 mr-1 text-indigo-500" />
+                                    {plural('results.editions', work.editionCount)}
+                                </span>
+                            </div>
+
+                            <div className="mt-4 flex flex-wrap items-center gap-2">
+                                {previewableEditions.length > 0 && (
+                                    <button
+                                        onClick={() => setPreviewBook(toBook(previewableEditions[0]))}
+                                        className="inline-flex items-center px-3 py-1.5 bg-blue-100 text-blue-700 text-sm rounded-lg hover:bg-blue-200 transition-colors"
+                                    >
+                                        <Eye className="w-4 h-4 mr-1" />
+                                        <span className="font-medium">{t('book.readOrPreview')}</span>
+                                    </button>
+                                )}
+                                <a
+                                    href={`https://openlibrary.org${work.id}`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+                                >
+                                    <Globe className="w-4 h-4 mr-1" />
+                                    <span className="font-medium">{t('nav.openLibrary')}</span>
+                                </a>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Description */}
+                    <section className="mt-8">
+                        <h2 className="text-lg font-medium text-indigo-800 mb-2">{t('book.description')}</h2>
+                        <p className="text-gray-700 whitespace-pre-line">
+                            {work.description || t('book.noDescription')}
+                        </p>
+                    </section>
+
+                    {/* Subjects */}
+                    {work.subjects.length > 0 && (
+                        <section className="mt-8">
+                            <h2 className="text-lg font-medium text-indigo-800 mb-2">{t('facets.subjects')}</h2>
+                            <div className="flex flex-wrap gap-2">
+                                {work.subjects.map(subject => {
+                                    const path = getSubjectPath(subject);
+                                    return path ? (
+                                        <Link key={subject} href={path} className="px-3 py-1 bg-indigo-50 text-indigo-700 text-xs rounded-full hover:bg-indigo-100 transition-colors">
+                                            {subject}
+                                        </Link>
+                                    ) : (
+                                        <span key={subject} className="px-3 py-1 bg-indigo-50 text-indigo-700 text-xs rounded-full">
+                                            {subject}
+                                        </span>
+                                    );
+                                })}
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Authors */}
+                    {work.authors.length > 0 && (
+                        <section className="mt-8">
+                            <h2 className="text-lg font-medium text-indigo-800 mb-2">{work.authors.length > 1 ? t('book.aboutAuthors') : t('book.aboutAuthor')}</h2>
+                            <div className="space-y-4">
+                                {work.authors.map(author => (
+                                    <div key={author.id} className="flex items-start p-4 bg-indigo-50 rounded-xl">
+                                        <div className="w-16 h-20 bg-indigo-100 flex-shrink-0 rounded overflow-hidden mr-4 flex items-center justify-center">
+                                            {author.photoId ? (
+                                                <img
+                                                    src={`https://covers.openlibrary.org/a/id/${author.photoId}-M.jpg`}
+                                                    alt={author.name}
+                                                    className="w-full h-full object-cover"
+                                                />
+                                            ) : (
+                                                <User className="w-8 h-8 text-indigo-400" />
+                                            )}
+                                        </div>
+                                        <div>
+                                            <h3 className="font-semibold text-indigo-900">
+                                                <Link href={getAuthorPath(author.id) || '/'} className="hover:underline">{author.name}</Link>
+                                            </h3>
+                                            {(author.birthDate || author.deathDate) && (
+                                                <p className="text-sm text-indigo-700">
+                                                    {author.birthDate || '?'} – {author.deathDate || ''}
+                                                </p>
+                                            )}
+                                            <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">
+                                                {author.bio || t('author.noBio')}
+                                            </p>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Editions */}
+                    <section className="mt-8">
+                        <h2 className="text-lg font-medium text-indigo-800 mb-2">
+                            {t('book.editions')}{' '}
+                            <span className="text-sm text-indigo-600">({t('book.withPreview', { count: formatNumber(previewableEditions.length) })})</span>
+                        </h2>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left">
+                                <thead className="text-indigo-700 bg-indigo-50">
+                                    <tr>
+                                        <th className="px-3 py-2 font-medium">{t('book.editionTitle')}</th>
+                                        <th className="px-3 py-2 font-medium">{t('book.published')}</th>
+                                        <th className="px-3 py-2 font-medium">{t('filters.publisher')}</th>
+                                        <th className="px-3 py-2 font-medium">{t('filters.language')}</th>
+                                        <th className="px-3 py-2 font-medium">{t('filters.isbn')}</th>
+                                        <th className="px-3 py-2 font-medium">{t('results.preview')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {work.editions.map(edition => (
+                                        <tr key={edition.id} className="border-b border-gray-100">
+                                            <td className="px-3 py-2 text-gray-900">{edition.title}</td>
+                                            <td className="px-3 py-2 text-gray-600">{edition.publishDate}</td>
+                                            <td className="px-3 py-2 text-gray-600">{edition.publisher}</td>
+                                            <td className="px-3 py-2 text-gray-600">{edition.languages.length > 0 ? formatList(edition.languages.map(languageName)) : '—'}</td>
+                                            <td className="px-3 py-2 text-gray-600">{edition.isbn || '—'}</td>
+                                            <td className="px-3 py-2">
+                                                {edition.previewAvailable ? (
+                                                    <button
+                                                        onClick={() => setPreviewBook(toBook(edition))}
+                                                        className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-lg hover:bg-blue-200 transition-colors"
+                                                    >
+                                                        <Eye className="w-3 h-3 mr-1" />
+                                                        <span className="font-medium">{t('results.preview')}</span>
+                                                    </button>
+                                                ) : (
+                                                    <span className="text-xs text-gray-400">{t('book.previewUnavailable')}</span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {work.editionCount > work.editions.length && (
+                            <p className="mt-2 text-sm text-gray-600">
+                                {t('book.editionsShown', { shown: formatNumber(work.editions.length), total: formatNumber(work.editionCount) })}{' '}
+                                <a
+                                    href={`https://openlibrary.org${work.id}/editions`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-indigo-700 hover:underline"
+                                >
+                                    {t('book.allEditions')}
+                                </a>
+                            </p>
+                        )}
+                    </section>
+                </div>
+            </div>
+            {previewBook && (
+                <BookPreviewModal
+                    previewBook={previewBook}
+                    showPreview={true}
+                    closePreview={() => setPreviewBook(null)}
+                    getEmbeddedPreviewUrl={(book) => getEmbeddedPreviewUrl(book)}
+                    editions={previewableEditions.map(toBook)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default BookDetails;
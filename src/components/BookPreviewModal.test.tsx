@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { makeBook } from '@/test/books';
+import { LocaleProvider } from '@/context/LocaleContext';
+import { ShelvesProvider } from '@/context/ShelvesContext';
+import BookPreviewModal from './BookPreviewModal';
+
+// Not an Internet Archive scan, so the modal has no page count to fetch
+const book = makeBook({
+    id: 'google:abc',
+    title: 'Emma',
+    author: 'Jane Austen',
+    previewAvailable: true,
+    previewUrl: 'https://books.google.com/books?id=abc',
+    source: 'googlebooks'
+});
+
+const renderModal = (showPreview: boolean, closePreview = vi.fn()) => {
+    const ui = (open: boolean) => (
+        <LocaleProvider>
+            <ShelvesProvider>
+                <button>Open preview</button>
+                <BookPreviewModal
+                    previewBook={book}
+                    showPreview={open}
+                    closePreview={closePreview}
+                    getEmbeddedPreviewUrl={() => 'https://books.google.com/books?id=abc&output=embed'}
+                />
+            </ShelvesProvider>
+        </LocaleProvider>
+    );
+    const result = render(ui(showPreview));
+    return { ...result, closePreview, setOpen: (open: boolean) => result.rerender(ui(open)) };
+};
+
+// The dialog's Tab stops in order, as its focus trap sees them
+const tabStops = (): HTMLElement[] =>
+    Array.from(screen.getByRole('dialog').querySelectorAll<HTMLElement>('a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), iframe'));
+
+describe('BookPreviewModal', () => {
+    afterEach(() => {
+        cleanup();
+        window.localStorage.clear();
+    });
+
+    it('is a labelled dialog that takes focus when it opens and hands it back when it closes', () => {
+        const { setOpen } = renderModal(false);
+        const opener = screen.getByText('Open preview');
+        opener.focus();
+
+        setOpen(true);
+        expect(screen.getByRole('dialog', { name: 'Emma' })).toBeTruthy();
+        expect(document.activeElement).toBe(screen.getAllByLabelText('Close preview')[0]);
+
+        setOpen(false);
+        expect(screen.queryByRole('dialog')).toBeNull();
+        expect(document.activeElement).toBe(opener);
+    });
+
+    it('closes on Escape', () => {
+        const { closePreview } = renderModal(true);
+
+        fireEvent.keyDown(document, { key: 'Escape' });
+        expect(closePreview).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps Tab and Shift+Tab inside the dialog', () => {
+        renderModal(true);
+        const stops = tabStops();
+        const first = stops[0];
+        const last = stops[stops.length - 1];
+
+        last.focus();
+        fireEvent.keyDown(last, { key: 'Tab' });
+        expect(document.activeElement).toBe(first);
+
+        fireEvent.keyDown(first, { key: 'Tab', shiftKey: true });
+        expect(document.activeElement).toBe(last);
+    });
+
+    it('pulls back focus that lands outside it', () => {
+        renderModal(true);
+
+        screen.getByText('Open preview').focus();
+        expect(document.activeElement).toBe(screen.getAllByLabelText('Close preview')[0]);
+    });
+});
@@ -1,76 +1,432 @@
-import React, { useRef } from 'react';
-import { Book as BookIcon, X } from "lucide-react";
-import { Book } from '@/types/types';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import {
+    AlertTriangle,
+    Book as BookIcon,
+    ChevronLeft,
+    ChevronRight,
+    ExternalLink,
+    Maximize2,
+    Minimize2,
+    RotateCcw,
+    Sparkles,
+    X
+} from "lucide-react";
+import { Book, ReadingPosition } from '@/types/types';
+import { isAbortError } from '@/lib/abort';
+import { useLocale } from '@/context/LocaleContext';
+import {
+    fetchPageCount,
+    getBookReaderUrl,
+    getReaderEditions,
+    getReaderIdentifier,
+    loadReadingPosition,
+    readingProgress,
+    saveReadingPosition
+} from '@/lib/reader';
+import ShelfControls from './ShelfControls';
+import BookCover from './BookCover';
+import RelatedBooks from './RelatedBooks';
+
+// Sites that refuse to be framed still fire load, so a frame that never loads is the only signal we get
+const FRAME_LOAD_TIMEOUT = 15000;
+
+const FOCUSABLE_SELECTOR = [
+    'a[href]',
+    'button:not([disabled])',
+    'input:not([disabled])',
+    'select:not([disabled])',
+    'textarea:not([disabled])',
+    'iframe',
+    '[tabindex]:not([tabindex="-1"])'
+].join(',');
+
+const getFocusable = (container: HTMLElement): HTMLElement[] =>
+    Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
 
 interface BookPreviewModalProps {
     previewBook: Book;
     showPreview: boolean;
     closePreview: () => void;
     getEmbeddedPreviewUrl: (book: Book | null) => string | null;
+    // Editions to switch between; defaults to the book's other Internet Archive scans
+    editions?: Book[];
+    // Opens a "more like this" suggestion in the reader instead
+    onPreviewRelated?: (book: Book) => void;
 }
 
 export const BookPreviewModal: React.FC<BookPreviewModalProps> = ({
     previewBook,
     showPreview,
     closePreview,
-    getEmbeddedPreviewUrl
+    getEmbeddedPreviewUrl,
+    editions: editionsProp,
+    onPreviewRelated
 }) => {
     const previewModalRef = useRef<HTMLDivElement | null>(null);
+    const closeButtonRef = useRef<HTMLButtonElement | null>(null);
+    const titleId = useId();
+    const { t, formatNumber, formatDate } = useLocale();
+    const editions = useMemo(
+        () => (editionsProp && editionsProp.length > 0 ? editionsProp : getReaderEditions(previewBook)),
+        [editionsProp, previewBook]
+    );
+    const [editionIndex, setEditionIndex] = useState<number>(() =>
+        Math.max(editions.findIndex(edition => edition.previewUrl === previewBook.previewUrl), 0)
+    );
+    const book = editions[editionIndex] || previewBook;
+    const identifier = getReaderIdentifier(book);
+
+    const [page, setPage] = useState<number>(1);
+    const [pageInput, setPageInput] = useState<string>('1');
+    const [pageCount, setPageCount] = useState<number | null>(null);
+    const [savedPosition, setSavedPosition] = useState<ReadingPosition | null>(null);
+    const [frameState, setFrameState] = useState<'loading' | 'loaded' | 'failed'>('loading');
+    const [frameKey, setFrameKey] = useState<number>(0); // Bumped to reload the frame after a failure
+    const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+    const [showRelated, setShowRelated] = useState<boolean>(false);
+
+    const frameUrl = identifier ? getBookReaderUrl(identifier, page) : getEmbeddedPreviewUrl(book);
+    const externalUrl = identifier ? `https://archive.org/details/${identifier}` : book.previewUrl;
+
+    // Start every scan at the first page and look up where the reader left off last time
+    useEffect(() => {
+        setPage(1);
+        setPageInput('1');
+        setPageCount(null);
+        setFrameState('loading');
+        setSavedPosition(identifier ? loadReadingPosition(identifier) : null);
+        if (!identifier) return;
+
+        const controller = new AbortController();
+        fetchPageCount(identifier, controller.signal)
+            .then(setPageCount)
+            .catch((err: unknown) => {
+                if (!isAbortError(err)) console.error('Error loading page count:', err);
+            });
+        return () => controller.abort();
+    }, [identifier, book.previewUrl]);
+
+    useEffect(() => {
+        if (frameState !== 'loading') return;
+        const timer = setTimeout(() => setFrameState('failed'), FRAME_LOAD_TIMEOUT);
+        return () => clearTimeout(timer);
+    }, [frameState, frameKey]);
+
+    // Move focus into the dialog when it opens and hand it back to whatever opened it afterwards
+    useEffect(() => {
+        if (!showPreview) return;
+        const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        closeButtonRef.current?.focus();
+        return () => previouslyFocused?.focus();
+    }, [showPreview]);
+
+    // Escape closes; clicks outside the dialog close it, and focus that escapes it (e.g. tabbing out of the iframe) is pulled back
+    useEffect(() => {
+        if (!showPreview) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') closePreview();
+        };
+        const handleClickOutside = (event: MouseEvent) => {
+            if (previewModalRef.current && !previewModalRef.current.contains(event.target as Node)) {
+                closePreview();
+            }
+        };
+        const handleFocusIn = (event: FocusEvent) => {
+            if (previewModalRef.current && !previewModalRef.current.contains(event.target as Node)) {
+                closeButtonRef.current?.focus();
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        document.addEventListener('mousedown', handleClickOutside);
+        document.addEventListener('focusin', handleFocusIn);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+            document.removeEventListener('mousedown', handleClickOutside);
+            document.removeEventListener('focusin', handleFocusIn);
+        };
+    }, [showPreview, closePreview]);
+
+    // Prevent body scrolling while the dialog is open
+    useEffect(() => {
+        if (!showPreview) return;
+        document.body.style.overflow = 'hidden';
+        return () => {
+            document.body.style.overflow = 'auto';
+        };
+    }, [showPreview]);
+
+    useEffect(() => {
+        const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement === previewModalRef.current);
+        document.addEventListener('fullscreenchange', handleFullscreenChange);
+        return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    }, []);
 
     if (!showPreview || !previewBook) return null;
 
+    const goToPage = (target: number) => {
+        const next = Math.min(Math.max(Math.round(target), 1), pageCount || Infinity);
+        setPage(next);
+        setPageInput(String(next));
+        if (!identifier) return;
+
+        saveReadingPosition(identifier, { page: next, pageCount, updatedAt: new Date().toISOString() });
+        setSavedPosition(null);
+    };
+
+    const handlePageSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const target = Number(pageInput);
+        if (Number.isFinite(target)) {
+            goToPage(target);
+        } else {
+            setPageInput(String(page));
+        }
+    };
+
+    const retryFrame = () => {
+        setFrameState('loading');
+        setFrameKey(key => key + 1);
+    };
+
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) {
+            document.exitFullscreen().catch(() => undefined);
+        } else {
+            previewModalRef.current?.requestFullscreen().catch((err: unknown) => console.error('Error entering fullscreen:', err));
+        }
+    };
+
+    // Keep Tab and Shift+Tab cycling through the dialog's own controls
+    const handleDialogKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.key !== 'Tab' || !previewModalRef.current) return;
+
+        const focusable = getFocusable(previewModalRef.current);
+        if (focusable.length === 0) return;
+
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    };
+
+    const resumeProgress = savedPosition ? readingProgress(savedPosition) : null;
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
             <div
                 ref={previewModalRef}
-                className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-5/6 flex flex-col overflow-hidden"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby={titleId}
+                onKeyDown={handleDialogKeyDown}
+                className={`bg-white shadow-2xl w-full flex flex-col overflow-hidden ${
+                    isFullscreen ? 'h-full max-w-none' : 'rounded-xl max-w-5xl h-5/6'
+                }`}
             >
                 {/* Modal Header */}
                 <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-indigo-50">
                     <div className="flex items-center">
                         <div className="w-10 h-14 bg-indigo-100 flex-shrink-0 rounded overflow-hidden mr-3 flex items-center justify-center">
-                            {previewBook.coverId ? (
-                                <img
-                                    src={`https://covers.openlibrary.org/b/id/${previewBook.coverId}-S.jpg`}
-                                    alt={previewBook.title}
-                                    className="w-full h-full object-cover"
-                                />
-                            ) : (
-                                <BookIcon className="w-6 h-6 text-indigo-400" />
-                            )}
+                            <BookCover
+                                book={book}
+                                size="S"
+                                alt={book.title}
+                                className="w-full h-full object-cover"
+                                fallback={<BookIcon className="w-6 h-6 text-indigo-400" />}
+                            />
                         </div>
                         <div>
-                            <h3 className="font-semibold text-indigo-900 text-lg">{previewBook.title}</h3>
-                            <p className="text-sm text-indigo-700">by {previewBook.author}</p>
+                            <h3 id={titleId} className="font-semibold text-indigo-900 text-lg">{book.title}</h3>
+                            <p className="text-sm text-indigo-700">{t('preview.by', { author: book.author })}</p>
                         </div>
                     </div>
-                    <button
-                        onClick={closePreview}
-                        className="text-gray-500 hover:text-gray-700 p-2 rounded-full hover:bg-gray-100"
-                    >
-                        <X className="w-6 h-6" />
-                    </button>
+                    <div className="flex items-center">
+                        <button
+                            onClick={toggleFullscreen}
+                            title={isFullscreen ? t('preview.exitFullscreen') : t('preview.fullscreen')}
+                            aria-label={isFullscreen ? t('preview.exitFullscreen') : t('preview.fullscreen')}
+                            aria-pressed={isFullscreen}
+                            className="text-gray-500 hover:text-gray-700 p-2 rounded-full hover:bg-gray-100"
+                        >
+                            {isFullscreen ? <Minimize2 className="w-5 h-5" /> : <Maximize2 className="w-5 h-5" />}
+                        </button>
+                        <button
+                            ref={closeButtonRef}
+                            onClick={closePreview}
+                            title={t('preview.close')}
+                            aria-label={t('preview.closePreview')}
+                            className="text-gray-500 hover:text-gray-700 p-2 rounded-full hover:bg-gray-100"
+                        >
+                            <X className="w-6 h-6" />
+                        </button>
+                    </div>
                 </div>
 
-                {/* Modal Content - Iframe */}
-                <div className="flex-1 w-full h-full overflow-hidden bg-gray-100">
-                    <iframe
-                        src={getEmbeddedPreviewUrl(previewBook) ?? "about:blank"}
-                        title={`Preview of ${previewBook.title}`}
-                        className="w-full h-full border-0"
-                        allow="fullscreen"
-                        loading="lazy"
-                    ></iframe>
+                {/* Resume prompt */}
+                {savedPosition && savedPosition.page > 1 && (
+                    <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 bg-amber-50 border-b border-amber-100 text-sm text-amber-800">
+                        <span>
+                            {resumeProgress !== null
+                                ? t('preview.resumePositionRead', { page: formatNumber(savedPosition.page), percent: formatNumber(resumeProgress), date: formatDate(savedPosition.updatedAt, { dateStyle: 'short' }) })
+                                : t('preview.resumePosition', { page: formatNumber(savedPosition.page), date: formatDate(savedPosition.updatedAt, { dateStyle: 'short' }) })}
+                        </span>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => goToPage(savedPosition.page)}
+                                className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                            >
+                                {t('preview.resume')}
+                            </button>
+                            <button
+                                onClick={() => goToPage(1)}
+                                className="px-3 py-1 text-amber-800 rounded-lg hover:bg-amber-100 transition-colors"
+                            >
+                                {t('preview.startOver')}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Modal Content - Iframe, or a fallback when it cannot be shown */}
+                <div className="flex-1 w-full h-full overflow-hidden bg-gray-100 relative">
+                    {frameUrl && frameState !== 'failed' ? (
+                        <iframe
+                            key={`${frameKey}:${identifier || frameUrl}`}
+                            src={frameUrl}
+                            title={t('preview.frameTitle', { title: book.title })}
+                            className="w-full h-full border-0"
+                            allow="fullscreen"
+                            loading="lazy"
+                            onLoad={() => setFrameState('loaded')}
+                            onError={() => setFrameState('failed')}
+                        ></iframe>
+                    ) : (
+                        <div role="alert" className="h-full flex flex-col items-center justify-center text-center p-8">
+                            <AlertTriangle className="w-10 h-10 text-amber-500 mb-3" />
+                            <p className="font-medium text-gray-800">{t('preview.blocked')}</p>
+                            <p className="mt-1 text-sm text-gray-600 max-w-md">{t('preview.blockedHint')}</p>
+                            <div className="mt-4 flex items-center gap-2">
+                                {frameUrl && (
+                                    <button
+                                        onClick={retryFrame}
+                                        className="inline-flex items-center px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+                                    >
+                                        <RotateCcw className="w-4 h-4 mr-1" />
+                                        {t('preview.retry')}
+                                    </button>
+                                )}
+                                {externalUrl && (
+                                    <a
+                                        href={externalUrl}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="inline-flex items-center px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors"
+                                    >
+                                        <ExternalLink className="w-4 h-4 mr-1" />
+                                        {t('preview.openInNewTab')}
+                                    </a>
+                                )}
+                            </div>
+                        </div>
+                    )}
                 </div>
 
-                {/* Modal Footer */}
-                <div className="p-3 bg-white border-t border-gray-200 flex justify-between items-center">
-                    <div className="text-sm text-gray-500">
-                        <p className="font-semibold">Preview</p>
-                        <p className="text-sm text-gray-500">Preview the book in a new window.</p>
+                {/* More like this, for the work rather than the edition on screen */}
+                {showRelated && (
+                    <div className="max-h-64 overflow-y-auto border-t border-gray-200 p-3 bg-white">
+                        <RelatedBooks book={previewBook} onPreview={onPreviewRelated} />
                     </div>
+                )}
+
+                {/* Modal Footer */}
+                <div className="p-3 bg-white border-t border-gray-200 flex flex-wrap gap-3 justify-between items-center">
+                    {identifier ? (
+                        <form onSubmit={handlePageSubmit} className="flex items-center text-sm text-gray-600">
+                            <button
+                                type="button"
+                                onClick={() => goToPage(page - 1)}
+                                disabled={page <= 1}
+                                title={t('preview.previousPage')}
+                                aria-label={t('preview.previousPage')}
+                                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                            >
+                                <ChevronLeft className="w-5 h-5" />
+                            </button>
+                            <label className="mx-1 flex items-center">
+                                <span className="mr-1">{t('preview.page')}</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={pageCount || undefined}
+                                    value={pageInput}
+                                    onChange={(e) => setPageInput(e.target.value)}
+                                    className="w-16 px-2 py-1 border border-indigo-100 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                />
+                                {pageCount && <span className="ml-1">{t('preview.pageOf', { count: formatNumber(pageCount) })}</span>}
+                            </label>
+                            <button
+                                type="button"
+                                onClick={() => goToPage(page + 1)}
+                                disabled={!!pageCount && page >= pageCount}
+                                title={t('preview.nextPage')}
+                                aria-label={t('preview.nextPage')}
+                                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                            >
+                                <ChevronRight className="w-5 h-5" />
+                            </button>
+                        </form>
+                    ) : (
+                        <div className="text-sm text-gray-500">
+                            <p className="font-semibold">{t('preview.title')}</p>
+                            <p className="text-sm text-gray-500">{t('preview.positionNote')}</p>
+                        </div>
+                    )}
+
+                    {editions.length > 1 && (
+                        <div className="flex items-center text-sm text-gray-600">
+                            <button
+                                onClick={() => setEditionIndex(index => index - 1)}
+                                disabled={editionIndex === 0}
+                                title={t('preview.previousEdition')}
+                                aria-label={t('preview.previousEdition')}
+                                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                            >
+                                <ChevronLeft className="w-5 h-5" />
+                            </button>
+                            <span className="mx-1" title={identifier || undefined} aria-live="polite">
+                                {t('preview.edition', { index: formatNumber(editionIndex + 1), count: formatNumber(editions.length) })}
+                            </span>
+                            <button
+                                onClick={() => setEditionIndex(index => index + 1)}
+                                disabled={editionIndex >= editions.length - 1}
+                                title={t('preview.nextEdition')}
+                                aria-label={t('preview.nextEdition')}
+                                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                            >
+                                <ChevronRight className="w-5 h-5" />
+                            </button>
+                        </div>
+                    )}
+
+                    <button
+                        onClick={() => setShowRelated(show => !show)}
+                        aria-expanded={showRelated}
+                        className="inline-flex items-center px-3 py-1.5 bg-indigo-50 text-indigo-700 text-sm rounded-lg hover:bg-indigo-100 transition-colors"
+                    >
+                        <Sparkles className="w-4 h-4 mr-1" />
+                        {showRelated ? t('related.hide') : t('related.show')}
+                    </button>
+                    <ShelfControls book={previewBook} />
                     <button
                         onClick={closePreview}
+                        aria-label={t('preview.closePreview')}
                         className="text-gray-500 hover:text-gray-700 p-2 rounded-full hover:bg-gray-100"
                     >
                         <X className="w-6 h-6" />
@@ -81,4 +437,4 @@ export const BookPreviewModal: React.FC<BookPreviewModalProps> = ({
     );
 };
 
-export default BookPreviewModal;
\ No newline at end of file
+export default BookPreviewModal;
@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { Book, SearchResponse } from '@/types/types';
+import { DEFAULT_FILTERS } from '@/lib/filters';
+import { makeBook } from '@/test/books';
+import { LocaleProvider } from '@/context/LocaleContext';
+import { ShelvesProvider } from '@/context/ShelvesContext';
+import BookSearch from './BookSearch';
+
+const router = { pathname: '/', query: {} as Record<string, string>, isReady: true, push: vi.fn(), replace: vi.fn() };
+vi.mock('next/router', () => ({ useRouter: () => router }));
+
+const searchResponse = (books: Book[]): SearchResponse => ({ numFound: books.length, start: 0, books, filtered: 0, hasMore: false });
+
+// A /api/search request the test answers when it chooses
+type PendingSearch = { query: string; signal: AbortSignal; respond: (data: SearchResponse) => void };
+
+let searches: PendingSearch[];
+
+// Search requests wait for the test to answer them, whether or not they were aborted in the meantime;
+// everything else the page asks for comes back empty
+const mockFetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(String(input), 'http://localhost');
+    if (url.pathname !== '/api/search') {
+        return Promise.resolve(Response.json({ suggestions: [], books: [] }));
+    }
+    return new Promise(resolve => {
+        searches.push({
+            query: url.searchParams.get('query') || '',
+            signal: init!.signal!,
+            respond: data => resolve(Response.json(data))
+        });
+    });
+};
+
+// The page as opened from /?q=query, with the server-rendered first page when there is one
+const renderSearch = (query: string, initialResults: SearchResponse | null = null) => {
+    router.query = { q: query };
+    return render(
+        <LocaleProvider>
+            <ShelvesProvider>
+                <BookSearch initialSearch={{ query, filters: DEFAULT_FILTERS, page: 1 }} initialResults={initialResults} />
+            </ShelvesProvider>
+        </LocaleProvider>
+    );
+};
+
+const waitForSearch = (query: string): Promise<PendingSearch> =>
+    waitFor(() => {
+        const search = searches.find(pending => pending.query === query);
+        expect(search).toBeDefined();
+        return search!;
+    }, { timeout: 2000 });
+
+describe('BookSearch', () => {
+    beforeEach(() => {
+        searches = [];
+        vi.stubGlobal('fetch', vi.fn(mockFetch));
+        vi.stubGlobal('IntersectionObserver', class {
+            observe() {}
+            disconnect() {}
+        });
+    });
+
+    afterEach(() => {
+        cleanup();
+        vi.unstubAllGlobals();
+        window.localStorage.clear();
+    });
+
+    it('cancels a search once a newer one starts', async () => {
+        renderSearch('cancelled dune');
+        const first = await waitForSearch('cancelled dune');
+
+        fireEvent.change(screen.getByLabelText('Search books'), { target: { value: 'cancelled emma' } });
+        const second = await waitForSearch('cancelled emma');
+
+        expect(first.signal.aborted).toBe(true);
+        expect(second.signal.aborted).toBe(false);
+
+        second.respond(searchResponse([makeBook({ id: 'OL2W', title: 'Emma' })]));
+        expect(await screen.findByText('Emma')).toBeTruthy();
+    });
+
+    it('ignores a stale search that answers after the latest one', async () => {
+        renderSearch('stale dune');
+        const first = await waitForSearch('stale dune');
+
+        fireEvent.change(screen.getByLabelText('Search books'), { target: { value: 'stale emma' } });
+        const second = await waitForSearch('stale emma');
+
+        second.respond(searchResponse([makeBook({ id: 'OL2W', title: 'Emma' })]));
+        expect(await screen.findByText('Emma')).toBeTruthy();
+
+        first.respond(searchResponse([makeBook({ id: 'OL1W', title: 'Dune' })]));
+        // Give the late response every chance to render before checking it did not
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(screen.queryByText('Dune')).toBeNull();
+        expect(screen.getByText('Emma')).toBeTruthy();
+    });
+
+    it('focuses the search box on "/", but leaves the key alone while typing', () => {
+        renderSearch('keys', searchResponse([makeBook({ id: 'OL1W', title: 'Dune' })]));
+        const searchBox = screen.getByLabelText('Search books');
+        const card = screen.getAllByRole('listitem')[0];
+
+        card.focus();
+        fireEvent.keyDown(card, { key: '/' });
+        expect(document.activeElement).toBe(searchBox);
+
+        // fireEvent returns false when the handler prevented the default, i.e. swallowed the keystroke
+        expect(fireEvent.keyDown(searchBox, { key: '/' })).toBe(true);
+    });
+
+    it('moves between result cards with the arrow keys, Home and End', () => {
+        renderSearch('keys', searchResponse([makeBook({ id: 'OL1W', title: 'Dune' }), makeBook({ id: 'OL2W', title: 'Emma' }), makeBook({ id: 'OL3W', title: 'Kindred' })]));
+        const cards = screen.getAllByRole('listitem').filter(card => card.hasAttribute('data-result-card'));
+        // Only one card is a Tab stop at a time
+        expect(cards.map(card => card.tabIndex)).toEqual([0, -1, -1]);
+
+        cards[0].focus();
+        fireEvent.keyDown(cards[0], { key: 'ArrowDown' });
+        expect(document.activeElement).toBe(cards[1]);
+        expect(cards.map(card => card.tabIndex)).toEqual([-1, 0, -1]);
+
+        fireEvent.keyDown(cards[1], { key: 'End' });
+        expect(document.activeElement).toBe(cards[2]);
+        fireEvent.keyDown(cards[2], { key: 'ArrowDown' });
+        expect(document.activeElement).toBe(cards[2]);
+
+        fireEvent.keyDown(cards[2], { key: 'ArrowUp' });
+        expect(document.activeElement).toBe(cards[1]);
+        fireEvent.keyDown(cards[1], { key: 'Home' });
+        expect(document.activeElement).toBe(cards[0]);
+    });
+});
@@ -1,94 +1,207 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, Book as BookIcon, X, Loader2, BookOpen, Calendar, User, Filter, Eye, Download } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Search, Book as BookIcon, X, Loader2, BookOpen, Calendar, User, Filter, Eye, Download, Library, ArrowUpDown, Layers, Star, ListChecks, ScanBarcode, Pin, Sparkles, Compass, WifiOff, CloudOff } from 'lucide-react';
 import BookPreviewModal from './BookPreviewModal';
-import { Book } from '@/types/types';
-
-// Interface for advanced filters
-interface AdvancedFilters {
-    author: string;
-    subject: string;
-    year: string;
-    availability: 'all' | 'preview' | 'fulltext';
-}
+import ShelfControls from './ShelfControls';
+import FacetSidebar from './FacetSidebar';
+import BookCover from './BookCover';
+import ExportMenu from './ExportMenu';
+import BarcodeScanner from './BarcodeScanner';
+import SearchHistoryMenu from './SearchHistoryMenu';
+import AutocompleteInput from './AutocompleteInput';
+import AuthorLinks from './AuthorLinks';
+import LocaleSwitcher from './LocaleSwitcher';
+import RelatedBooks from './RelatedBooks';
+import { AdvancedFilters, Book, SavedSearch, SearchFacets, SearchHistoryEntry, SearchResponse, SearchState } from '@/types/types';
+import { getBookUrl, getDetailsPath, getEmbeddedPreviewUrl, getFullTextUrl, hasSearchCriteria } from '@/lib/catalog';
+import { availabilityLabel, AVAILABILITY_MODES, DEFAULT_FILTERS, getActiveFilterChips, LANGUAGE_OPTIONS, removeFilter, SORT_ORDERS, sortLabel, validateFilters } from '@/lib/filters';
+import { parseSearchParams, searchKey, toSearchParams } from '@/lib/searchParams';
+import { applyFacet, clearFacet, FacetType, isFacetActive } from '@/lib/facets';
+import { checkPreviewsInBatches, fetchSearchPage, SEARCH_DEBOUNCE_MS } from '@/lib/searchClient';
+import { isAbortError } from '@/lib/abort';
+import { describeError, ErrorNotice } from '@/lib/errors';
+import { useLocale } from '@/context/LocaleContext';
+import { isNetworkError } from '@/lib/offline';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+    clearSearchHistory,
+    findSavedSearch,
+    loadSavedSearches,
+    loadSearchHistory,
+    markSavedSearchVisited,
+    newBookIds,
+    recordSearch,
+    removeSavedSearch,
+    saveSearch
+} from '@/lib/searchHistory';
 
-// Interface for OpenLibrary API response
-interface OpenLibrarySearchResponse {
-    numFound: number;
-    start: number;
-    docs: OpenLibraryBook[];
-}
+// Saved searches re-run at once when checking them for new books
+const SAVED_SEARCH_CHECK_CONCURRENCY = 2;
+// Wait between retries of queued work while the browser still reports being online
+const OFFLINE_RETRY_INTERVAL_MS = 30 * 1000;
 
-interface OpenLibraryBook {
-    key: string;
-    title: string;
-    author_name?: string[];
-    first_publish_year?: number;
-    cover_i?: number;
-    publisher?: string[];
-    language?: string[];
-    isbn?: string[];
-    has_fulltext: boolean;
-    ia?: string[];
-}
+// Work that failed for lack of a connection, or was answered from the offline cache: a search up to a page, or the next page
+type PendingRetry = { type: 'search'; query: string; filters: AdvancedFilters; page: number } | { type: 'more' };
 
-interface BookPreviewData {
-    [key: string]: {
-        preview_url?: string;
-        borrow_url?: string;
-    };
+// Kept as what went wrong rather than as text, so the message follows the locale
+type SearchError = { type: 'offline'; retry: PendingRetry['type'] } | { type: 'failed'; cause: unknown };
+
+// Keys typed into form fields belong to the field, not to page shortcuts
+const isEditable = (target: EventTarget | null): boolean => {
+    if (target instanceof HTMLInputElement) return !['checkbox', 'radio', 'button', 'submit'].includes(target.type);
+    return target instanceof HTMLElement && (target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName));
+};
+
+interface BookSearchProps {
+    // Search from the URL, and its first page when it was rendered on the server
+    initialSearch?: SearchState;
+    initialResults?: SearchResponse | null;
 }
 
-const BookSearch: React.FC = () => {
-    const [searchQuery, setSearchQuery] = useState<string>('');
-    const [searchResults, setSearchResults] = useState<Book[]>([]);
+const BookSearch: React.FC<BookSearchProps> = ({
+    initialSearch = { query: '', filters: DEFAULT_FILTERS, page: 1 },
+    initialResults = null
+}) => {
+    const [searchQuery, setSearchQuery] = useState<string>(initialSearch.query);
+    const [searchResults, setSearchResults] = useState<Book[]>(initialResults?.books || []);
     const [loading, setLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
-    const [totalResults, setTotalResults] = useState<number>(0);
-    const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>({
-        author: '',
-        subject: '',
-        year: '',
-        availability: 'all' // 'all', 'preview', 'fulltext'
-    });
+    const [error, setError] = useState<SearchError | null>(null);
+    const [totalResults, setTotalResults] = useState<number>(
+        initialResults ? Math.max(initialResults.numFound - initialResults.filtered, initialResults.books.length) : 0
+    );
+    const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>(initialSearch.filters); // availability: 'all', 'preview', 'fulltext'
     const [showFilters, setShowFilters] = useState<boolean>(false);
-    const [debouncedSearchTerm, setDebouncedSearchTerm] = useState<string>('');
+    const [debouncedSearchTerm, setDebouncedSearchTerm] = useState<string>(initialSearch.query);
     const searchMode = 'debounce'; // 'button' or 'debounce'
     const [previewBook, setPreviewBook] = useState<Book | null>(null); // For the preview modal
     const [showPreview, setShowPreview] = useState<boolean>(false);
-    const previewModalRef = useRef<HTMLDivElement | null>(null);
+    const [relatedBookId, setRelatedBookId] = useState<string | null>(null); // Result whose "more like this" panel is open
+    const [showScanner, setShowScanner] = useState<boolean>(false);
+    const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>([]);
+    const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+    const [savedSearchUpdates, setSavedSearchUpdates] = useState<Record<string, number>>({}); // New books per saved search, checked on load
+    const [visitBaseline, setVisitBaseline] = useState<Set<string> | null>(null); // Results a saved search had at its last visit
+    const [showHistory, setShowHistory] = useState<boolean>(false);
+    const [titleSuggestionsOpen, setTitleSuggestionsOpen] = useState<boolean>(false); // Title suggestions take the place of the history dropdown
+    const searchInputRef = useRef<HTMLInputElement | null>(null);
+    const resultsListRef = useRef<HTMLDivElement | null>(null);
+    const [activeCardIndex, setActiveCardIndex] = useState<number>(0); // Result card reachable with Tab; arrows move it
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set()); // Books picked for export
+    const router = useRouter();
+    const i18n = useLocale();
+    const { t, plural, rich, formatNumber, formatDate, languageName } = i18n;
+    const [currentPage, setCurrentPage] = useState<number>(1);
+    const [hasMore, setHasMore] = useState<boolean>(initialResults?.hasMore || false);
+    const [loadingMore, setLoadingMore] = useState<boolean>(false);
+    const [filteredCount, setFilteredCount] = useState<number>(initialResults?.filtered || 0); // Books removed from loaded pages by the server
+    const [facets, setFacets] = useState<SearchFacets | null>(initialResults?.facets || null);
+    const [online, setOnline] = useState<boolean>(true);
+    const [staleSince, setStaleSince] = useState<string | null>(null); // When the offline copy of the results shown was saved
+    const [pendingRetry, setPendingRetry] = useState<PendingRetry | null>(null);
+    const reconnectedRef = useRef<boolean>(false); // The connection just came back, so queued work can retry at once
+    const loadMoreRef = useRef<HTMLDivElement | null>(null);
+    // This render's loaders, for observers and timers set up by an earlier render
+    const loadersRef = useRef<{ loadMore: () => void; searchBooks: (query: string, filters: AdvancedFilters) => void }>({
+        loadMore: () => undefined,
+        searchBooks: () => undefined
+    });
+    const restorePageRef = useRef<number>(initialSearch.page); // Page from the URL to load up to on the next search
+    const lastSearchRef = useRef<{ query: string; filters: AdvancedFilters } | null>(
+        initialResults ? { query: initialSearch.query, filters: initialSearch.filters } : null
+    ); // Search that further pages belong to
+    const currentSearchKeyRef = useRef<string>(searchKey(initialSearch.query, initialSearch.filters)); // Latest search started, or shown in the URL
+    // The server already rendered page 1, so the first search effect only has work to do for deeper pages
+    const skipInitialSearchRef = useRef<boolean>(!!initialResults && initialSearch.page === 1);
+    const serverSearchRef = useRef<{ query: string; filters: AdvancedFilters; books: Book[] } | null>(
+        initialResults ? { query: initialSearch.query, filters: initialSearch.filters, books: initialResults.books } : null
+    ); // Search the server rendered, added to the history once mounted
+    const searchSeqRef = useRef<number>(0); // Incremented for every search so stale responses can be ignored
+    const searchAbortRef = useRef<AbortController | null>(null); // Cancels the requests of the current search
 
-    // Handle clicks outside the modal to close it
-    useEffect(() => {
-        const handleClickOutside = (event: MouseEvent) => {
-            if (previewModalRef.current && !previewModalRef.current.contains(event.target as Node)) {
-                setShowPreview(false);
-            }
-        };
+    // Cancel the search in flight (and any page it is loading) and claim the next sequence number;
+    // only the search holding the latest number may commit results
+    const startSearchRequest = useCallback((): { seq: number; signal: AbortSignal } => {
+        searchAbortRef.current?.abort();
+        const controller = new AbortController();
+        searchAbortRef.current = controller;
+        searchSeqRef.current += 1;
+        return { seq: searchSeqRef.current, signal: controller.signal };
+    }, []);
 
-        // Add event listener when modal is shown
-        if (showPreview) {
-            document.addEventListener('mousedown', handleClickOutside);
-        }
+    const resetResults = useCallback(() => {
+        startSearchRequest();
+        setLoading(false);
+        setLoadingMore(false);
+        lastSearchRef.current = null;
+        setSearchResults([]);
+        setSelectedIds(new Set());
+        setTotalResults(0);
+        setFilteredCount(0);
+        setFacets(null);
+        setHasMore(false);
+        setCurrentPage(1);
+        setVisitBaseline(null);
+        setStaleSince(null);
+        setPendingRetry(null);
+    }, [startSearchRequest]);
 
-        // Cleanup
-        return () => {
-            document.removeEventListener('mousedown', handleClickOutside);
-        };
-    }, [showPreview]);
+    const isLatestSearch = useCallback((seq: number): boolean => seq === searchSeqRef.current, []);
 
-    // Prevent body scrolling when modal is open
+    // Fill in preview availability card by card as each batch of lookups comes back
+    const checkPreviews = useCallback((books: Book[], seq: number, signal?: AbortSignal) =>
+        checkPreviewsInBatches(books, resolved => {
+            if (!isLatestSearch(seq)) return;
+
+            const byId = new Map(resolved.map(book => [book.id, book]));
+            setSearchResults(prev => prev.map(book => byId.get(book.id) || book));
+        }, signal), [isLatestSearch]);
+
+    // "/" focuses the search box, unless the user is typing somewhere or the preview is open
     useEffect(() => {
-        if (showPreview) {
-            document.body.style.overflow = 'hidden';
-        } else {
-            document.body.style.overflow = 'auto';
-        }
+        const handleShortcut = (event: KeyboardEvent) => {
+            if (event.key !== '/' || event.ctrlKey || event.metaKey || event.altKey) return;
+            if (showPreview || isEditable(event.target)) return;
 
-        return () => {
-            document.body.style.overflow = 'auto';
+            event.preventDefault();
+            searchInputRef.current?.focus();
+            searchInputRef.current?.select();
         };
+
+        document.addEventListener('keydown', handleShortcut);
+        return () => document.removeEventListener('keydown', handleShortcut);
     }, [showPreview]);
 
+    // Server-rendered results arrive before their previews were checked
+    useEffect(() => {
+        if (!initialResults || initialSearch.page !== 1) return;
+        const { seq, signal } = startSearchRequest();
+        checkPreviews(initialResults.books, seq, signal);
+    }, [initialResults, initialSearch.page, startSearchRequest, checkPreviews]);
+
+    // History lives in localStorage, so it is only read once running in the browser.
+    // Saved searches are re-run in the background to count the books added since their last visit.
+    useEffect(() => {
+        setSearchHistory(loadSearchHistory());
+        const saved = loadSavedSearches();
+        setSavedSearches(saved);
+        const serverSearch = serverSearchRef.current;
+        if (serverSearch) trackSearch(serverSearch.query, serverSearch.filters, serverSearch.books);
+
+        const controller = new AbortController();
+        const pending = saved.filter(search => search.seenIds.length > 0 && search.key !== currentSearchKeyRef.current);
+        mapWithConcurrency(pending, SAVED_SEARCH_CHECK_CONCURRENCY, async search => {
+            try {
+                const data = await fetchSearchPage(search.query, search.filters, 1, controller.signal);
+                const count = newBookIds(search, data.books.map(book => book.id)).length;
+                if (count > 0) setSavedSearchUpdates(prev => ({ ...prev, [search.key]: count }));
+            } catch (err: unknown) {
+                if (!isAbortError(err)) console.error('Error checking saved search:', err);
+            }
+        });
+        return () => controller.abort();
+    }, []);
+
     // Set up debounce effect for search
     useEffect(() => {
         // Only apply debouncing if we're in debounce mode
@@ -97,7 +210,7 @@ const BookSearch: React.FC = () => {
                 if (searchQuery) {
                     setDebouncedSearchTerm(searchQuery);
                 }
-            }, 500); // 500ms delay
+            }, SEARCH_DEBOUNCE_MS);
 
             return () => clearTimeout(timer);
         }
@@ -105,139 +218,236 @@ const BookSearch: React.FC = () => {
 
     // Effect to trigger search when debounced term changes
     useEffect(() => {
-        if (debouncedSearchTerm && searchMode === 'debounce') {
+        if (skipInitialSearchRef.current) {
+            skipInitialSearchRef.current = false;
+            return;
+        }
+        if (hasSearchCriteria(debouncedSearchTerm, advancedFilters) && searchMode === 'debounce') {
             searchBooks(debouncedSearchTerm, advancedFilters);
         }
     }, [debouncedSearchTerm, advancedFilters]);
 
+    // Follow URL changes we did not make ourselves (back/forward, pasted links) by restoring that search
+    useEffect(() => {
+        if (!router.isReady) return;
+
+        const urlSearch = parseSearchParams(router.query);
+        const urlKey = searchKey(urlSearch.query, urlSearch.filters);
+        if (urlKey === currentSearchKeyRef.current) return;
+
+        currentSearchKeyRef.current = urlKey;
+        restorePageRef.current = urlSearch.page;
+        setSearchQuery(urlSearch.query);
+        setDebouncedSearchTerm(urlSearch.query);
+        setAdvancedFilters(urlSearch.filters);
+
+        if (!hasSearchCriteria(urlSearch.query, urlSearch.filters)) {
+            resetResults();
+        }
+    }, [router.isReady, router.query, resetResults]);
+
+    // Follow the connection so the page can say it is offline and retry queued work once it is back
+    useEffect(() => {
+        const updateOnline = () => {
+            reconnectedRef.current = navigator.onLine;
+            setOnline(navigator.onLine);
+        };
+
+        setOnline(navigator.onLine);
+        window.addEventListener('online', updateOnline);
+        window.addEventListener('offline', updateOnline);
+        return () => {
+            window.removeEventListener('online', updateOnline);
+            window.removeEventListener('offline', updateOnline);
+        };
+    }, []);
+
+    // Retry queued work straight after reconnecting; flaky connections drop requests without the browser
+    // ever reporting itself offline, so while online keep retrying every little while
+    useEffect(() => {
+        if (!pendingRetry || !online) return;
+
+        const delay = reconnectedRef.current ? 0 : OFFLINE_RETRY_INTERVAL_MS;
+        reconnectedRef.current = false;
+        const timer = setTimeout(() => {
+            setPendingRetry(null);
+            setError(null);
+            if (pendingRetry.type === 'more') {
+                loadersRef.current.loadMore();
+            } else if (searchKey(pendingRetry.query, pendingRetry.filters) === currentSearchKeyRef.current) {
+                // A search the user has since moved on from is dropped
+                restorePageRef.current = pendingRetry.page;
+                loadersRef.current.searchBooks(pendingRetry.query, pendingRetry.filters);
+            }
+        }, delay);
+        return () => clearTimeout(timer);
+    }, [pendingRetry, online]);
+
+    // Cancel any search still in flight when leaving the page
+    useEffect(() => {
+        return () => searchAbortRef.current?.abort();
+    }, []);
+
+    // Infinite scroll: load the next page when the sentinel below the results comes into view
+    useEffect(() => {
+        const sentinel = loadMoreRef.current;
+        // A page that failed offline waits for its queued retry instead of failing again on every scroll
+        if (!sentinel || !hasMore || pendingRetry?.type === 'more') return;
+
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting) {
+                loadersRef.current.loadMore();
+            }
+        }, { rootMargin: '200px' });
+
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, currentPage, loadingMore, searchResults, pendingRetry]);
+
+    // Mirror a search into the URL: new searches get a history entry, page changes replace the current one
+    const updateUrl = (search: SearchState, method: 'push' | 'replace') => {
+        const query = toSearchParams(search);
+        const current = toSearchParams(parseSearchParams(router.query));
+        if (JSON.stringify(query) === JSON.stringify(current)) return;
+
+        router[method](
+            { pathname: router.pathname, query },
+            undefined,
+            { shallow: true, scroll: false }
+        );
+    };
+
+    // Add a finished search to the history; when it is a saved search, remember which results are new since the last visit
+    const trackSearch = (query: string, filters: AdvancedFilters, books: Book[]) => {
+        setSearchHistory(recordSearch(query, filters));
+
+        const saved = findSavedSearch(loadSavedSearches(), query, filters);
+        setVisitBaseline(saved?.seenIds.length ? new Set(saved.seenIds) : null);
+        if (!saved) return;
+
+        setSavedSearches(markSavedSearchVisited(saved.key, books.map(book => book.id)));
+        setSavedSearchUpdates(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== saved.key)));
+    };
+
+    // Append a page of books, skipping any already shown from earlier pages
+    const appendBooks = (existing: Book[], books: Book[]): Book[] => {
+        const seen = new Set(existing.map(book => book.id));
+        return [...existing, ...books.filter(book => !seen.has(book.id))];
+    };
+
     const searchBooks = async (query: string, filters: AdvancedFilters = advancedFilters) => {
-        if (!query && !filters.author && !filters.subject && !filters.year && filters.availability === 'all') return;
+        if (!hasSearchCriteria(query, filters) || Object.keys(validateFilters(filters)).length > 0) return;
+
+        // Load every page up to the one in the URL when restoring a search, then start new searches at page 1
+        const throughPage = restorePageRef.current;
+        restorePageRef.current = 1;
 
+        currentSearchKeyRef.current = searchKey(query, filters);
+        updateUrl({ query, filters, page: throughPage }, 'push');
+
+        const { seq, signal } = startSearchRequest();
         setLoading(true);
+        setLoadingMore(false);
         setError(null);
 
         try {
-            // Build the query string with filters
-            let queryString = query;
-            if (filters.author) queryString += ` author:${filters.author}`;
-            if (filters.subject) queryString += ` subject:${filters.subject}`;
-            if (filters.year) queryString += ` publishdate:${filters.year}`;
-
-            // Add availability filter to API URL
-            let apiUrl = `https://openlibrary.org/search.json?q=${encodeURIComponent(queryString)}&limit=20`;
-
-            // Add has_fulltext parameter based on availability filter
-            if (filters.availability === 'fulltext') {
-                apiUrl += '&has_fulltext=true';
+            let books: Book[] = [];
+            let filtered = 0;
+            let page = 0;
+            let data: SearchResponse | null = null;
+            let firstPageFacets: SearchFacets | null = null;
+            let stale: string | null = null;
+
+            while (page < throughPage && (!data || data.hasMore)) {
+                page += 1;
+                data = await fetchSearchPage(query, filters, page, signal);
+                books = appendBooks(books, data.books);
+                filtered += data.filtered;
+                if (page === 1) firstPageFacets = data.facets || null;
+                stale = stale || data.staleSince || null;
             }
 
-            const response = await fetch(apiUrl);
+            if (!data || !isLatestSearch(seq)) return;
 
-            if (!response.ok) {
-                throw new Error('Failed to fetch search results');
+            lastSearchRef.current = { query, filters };
+            setSearchResults(books);
+            setSelectedIds(new Set());
+            setFacets(firstPageFacets);
+            setFilteredCount(filtered);
+            setTotalResults(Math.max(data.numFound - filtered, books.length));
+            setHasMore(data.hasMore);
+            setCurrentPage(page);
+            // Results from the offline cache are shown as stale and fetched again once the connection is back
+            setStaleSince(stale);
+            setPendingRetry(stale ? { type: 'search', query, filters, page } : null);
+            updateUrl({ query, filters, page }, 'replace');
+            trackSearch(query, filters, books);
+            checkPreviews(books, seq, signal);
+        } catch (err: unknown) {
+            // A newer search replaced this one; it owns the results now
+            if (isAbortError(err) || !isLatestSearch(seq)) return;
+            console.error('Error searching books:', err);
+            setSearchResults([]);
+            setHasMore(false);
+            setStaleSince(null);
+            if (isNetworkError(err)) {
+                setError({ type: 'offline', retry: 'search' });
+                setPendingRetry({ type: 'search', query, filters, page: throughPage });
+            } else {
+                setError({ type: 'failed', cause: err });
             }
+        } finally {
+            if (isLatestSearch(seq)) setLoading(false);
+        }
+    };
 
-            const data: OpenLibrarySearchResponse = await response.json();
-
-            // Get basic book information first
-            let processedResults: Book[] = data.docs.map((book: OpenLibraryBook) => ({
-                id: book.key,
-                title: book.title,
-                author: book.author_name ? book.author_name[0] : 'Unknown Author',
-                year: book.first_publish_year || 'Unknown Year',
-                coverId: book.cover_i || null,
-                publisher: book.publisher ? book.publisher[0] : 'Unknown Publisher',
-                languages: book.language ? book.language.map((lang: string) => {
-                    const langMap: { [key: string]: string } = { 'eng': 'English', 'fre': 'French', 'spa': 'Spanish', 'ger': 'German', 'ita': 'Italian' };
-                    return langMap[lang] || lang;
-                }) : ['Unknown'],
-                isbn: book.isbn ? book.isbn[0] : null,
-                hasFulltext: book.has_fulltext === true,
-                iaIdentifier: book.ia ? book.ia[0] : null,
-                previewAvailable: false,
-                previewUrl: null,
-                readUrl: null
-            }));
-
-            // For preview availability, we need to check books API
-            // This is more efficient than checking every book - only check first 20
-            const booksWithIsbn = processedResults.filter(book => book.isbn);
-            if (booksWithIsbn.length > 0) {
-                // Create batches of 10 ISBNs to reduce API calls
-                const batchSize = 10;
-                const batches: Book[][] = [];
-
-                for (let i = 0; i < booksWithIsbn.length; i += batchSize) {
-                    batches.push(booksWithIsbn.slice(i, i + batchSize));
-                }
+    const loadMore = async () => {
+        if (loading || loadingMore || !hasMore || !lastSearchRef.current) return;
 
-                // Process each batch
-                for (const batch of batches) {
-                    const bibkeys = batch.map(book => `ISBN:${book.isbn}`).join(',');
-                    const previewResponse = await fetch(
-                        `https://openlibrary.org/api/books?bibkeys=${bibkeys}&format=json&jscmd=viewapi`
-                    );
-
-                    if (previewResponse.ok) {
-                        const previewData: BookPreviewData = await previewResponse.json();
-
-                        // Update book data with preview information
-                        processedResults = processedResults.map(book => {
-                            if (book.isbn) {
-                                const bibkey = `ISBN:${book.isbn}`;
-                                if (previewData[bibkey]) {
-                                    const info = previewData[bibkey];
-                                    return {
-                                        ...book,
-                                        previewAvailable: !!info.preview_url,
-                                        previewUrl: info.preview_url || null,
-                                        // If we have borrow info, this is likely borrowable/readable
-                                        readable: !!info.borrow_url,
-                                        readUrl: info.borrow_url || info.preview_url || null
-                                    };
-                                }
-                            }
-                            return book;
-                        });
-                    }
-                }
-            }
+        // Pages belong to the current search, so they are cancelled along with it
+        const seq = searchSeqRef.current;
+        const signal = searchAbortRef.current?.signal;
+        const nextPage = currentPage + 1;
+        setLoadingMore(true);
 
-            // Handle Internet Archive identifiers for books without ISBN but with IA ID
-            const booksWithIaOnly = processedResults.filter(book => !book.previewAvailable && book.iaIdentifier);
-            for (const book of booksWithIaOnly) {
-                processedResults = processedResults.map(item => {
-                    if (item.id === book.id) {
-                        return {
-                            ...item,
-                            previewAvailable: true,
-                            previewUrl: `https://archive.org/details/${book.iaIdentifier}`,
-                            readUrl: `https://archive.org/details/${book.iaIdentifier}`
-                        };
-                    }
-                    return item;
-                });
-            }
+        try {
+            const data = await fetchSearchPage(lastSearchRef.current.query, lastSearchRef.current.filters, nextPage, signal);
+            if (!isLatestSearch(seq) || !lastSearchRef.current) return;
 
-            // Filter results based on availability if needed
-            if (filters.availability === 'preview') {
-                processedResults = processedResults.filter(book => book.previewAvailable);
-            } else if (filters.availability === 'fulltext') {
-                processedResults = processedResults.filter(book => book.hasFulltext);
-            }
+            const books = appendBooks(searchResults, data.books);
+            const filtered = filteredCount + data.filtered;
 
-            setSearchResults(processedResults);
-            setTotalResults(
-                filters.availability === 'all' ? data.numFound : processedResults.length
-            );
+            setSearchResults(books);
+            setFilteredCount(filtered);
+            setTotalResults(Math.max(data.numFound - filtered, books.length));
+            setHasMore(data.hasMore);
+            setCurrentPage(nextPage);
+            if (data.staleSince) {
+                setStaleSince(prev => prev || data.staleSince || null);
+                setPendingRetry({ type: 'search', ...lastSearchRef.current, page: nextPage });
+            }
+            updateUrl({ ...lastSearchRef.current, page: nextPage }, 'replace');
+            const saved = findSavedSearch(savedSearches, lastSearchRef.current.query, lastSearchRef.current.filters);
+            if (saved) setSavedSearches(markSavedSearchVisited(saved.key, data.books.map(book => book.id)));
+            checkPreviews(data.books, seq, signal);
         } catch (err: unknown) {
-            console.error('Error searching books:', err);
-            setSearchResults([]);
+            if (isAbortError(err) || !isLatestSearch(seq)) return;
+            console.error('Error loading more books:', err);
+            if (isNetworkError(err)) {
+                setError({ type: 'offline', retry: 'more' });
+                setPendingRetry({ type: 'more' });
+            } else {
+                setError({ type: 'failed', cause: err });
+            }
         } finally {
-            setLoading(false);
+            if (isLatestSearch(seq)) setLoadingMore(false);
         }
     };
 
+    useEffect(() => {
+        loadersRef.current = { loadMore, searchBooks };
+    });
+
     const handleSearchSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (searchQuery) {
@@ -248,13 +458,55 @@ const BookSearch: React.FC = () => {
     const clearSearch = () => {
         setSearchQuery('');
         setDebouncedSearchTerm('');
-        setSearchResults([]);
-        setAdvancedFilters({
-            author: '',
-            subject: '',
-            year: '',
-            availability: 'all'
-        });
+        resetResults();
+        setAdvancedFilters(DEFAULT_FILTERS);
+        currentSearchKeyRef.current = searchKey('', DEFAULT_FILTERS);
+        updateUrl({ query: '', filters: DEFAULT_FILTERS, page: 1 }, 'push');
+    };
+
+    // A scanned barcode replaces the search with that ISBN, so the results are the matching edition and its preview status
+    const handleBarcodeScanned = (isbn: string) => {
+        setShowScanner(false);
+        setSearchQuery('');
+        setDebouncedSearchTerm('');
+        setAdvancedFilters({ ...DEFAULT_FILTERS, isbn });
+    };
+
+    // Picking a suggested title searches for it straight away instead of waiting for the debounce
+    const selectSuggestedTitle = (title: string) => {
+        setShowHistory(false);
+        setSearchQuery(title);
+        setDebouncedSearchTerm(title);
+    };
+
+    const selectHistorySearch = (query: string, filters: AdvancedFilters) => {
+        setShowHistory(false);
+        setSearchQuery(query);
+        setDebouncedSearchTerm(query);
+        setAdvancedFilters(filters);
+    };
+
+    // Pin a search from the history; the current search keeps the results on screen as already seen
+    const saveHistorySearch = (entry: SearchHistoryEntry) => {
+        const ids = entry.key === currentSearchKeyRef.current ? searchResults.map(book => book.id) : [];
+        setSavedSearches(saveSearch(entry.query, entry.filters, ids));
+    };
+
+    const unsaveSearch = (key: string) => {
+        setSavedSearches(removeSavedSearch(key));
+        if (key === currentSearchKeyRef.current) setVisitBaseline(null);
+    };
+
+    const toggleCurrentSavedSearch = () => {
+        const current = lastSearchRef.current;
+        if (!current) return;
+
+        const saved = findSavedSearch(savedSearches, current.query, current.filters);
+        if (saved) {
+            unsaveSearch(saved.key);
+        } else {
+            setSavedSearches(saveSearch(current.query, current.filters, searchResults.map(book => book.id)));
+        }
     };
 
     // Open preview modal for a book
@@ -269,38 +521,84 @@ const BookSearch: React.FC = () => {
         setPreviewBook(null);
     };
 
-    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-        const { name, value } = e.target;
-        setAdvancedFilters(prev => ({
-            ...prev,
-            [name]: value
-        }));
-    };
+    // Arrow keys move between result cards, Home and End jump to the first and last one
+    const handleResultsKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (isEditable(e.target)) return;
 
-    // Get embedded preview URL
-    const getEmbeddedPreviewUrl = (book: Book | null): string | null => {
-        if (!book || !book.previewUrl) return null;
+        const cards = Array.from(resultsListRef.current?.querySelectorAll<HTMLElement>('[data-result-card]') || []);
+        const current = cards.findIndex(card => card.contains(e.target as Node));
+        if (current === -1) return;
 
-        // Handle Internet Archive URLs
-        if (book.previewUrl.includes('archive.org')) {
-            return book.previewUrl.replace('/details/', '/embed/');
+        let next: number;
+        switch (e.key) {
+            case 'ArrowDown':
+                next = Math.min(current + 1, cards.length - 1);
+                break;
+            case 'ArrowUp':
+                next = Math.max(current - 1, 0);
+                break;
+            case 'Home':
+                next = 0;
+                break;
+            case 'End':
+                next = cards.length - 1;
+                break;
+            default:
+                return;
         }
 
-        // Handle Open Library URLs - direct to preview if possible
-        if (book.previewUrl.includes('openlibrary.org')) {
-            return book.previewUrl;
-        }
+        e.preventDefault();
+        cards[next].focus();
+    };
 
-        // Handle Google Books URLs
-        if (book.previewUrl.includes('books.google.com')) {
-            const url = new URL(book.previewUrl);
-            const id = url.searchParams.get('id');
-            if (id) {
-                return `https://www.google.com/books/edition/_/${id}?hl=en&gbpv=0&gboembed=true`;
+    const toggleSelected = (bookId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(bookId)) {
+                next.delete(bookId);
+            } else {
+                next.add(bookId);
             }
-        }
+            return next;
+        });
+    };
+
+    const selectedBooks = searchResults.filter(book => selectedIds.has(book.id));
+
+    const currentSavedSearch = lastSearchRef.current
+        ? findSavedSearch(savedSearches, lastSearchRef.current.query, lastSearchRef.current.filters)
+        : undefined;
+    const newResultIds = new Set(visitBaseline ? searchResults.filter(book => !visitBaseline.has(book.id)).map(book => book.id) : []);
+
+    const focusableCardIndex = activeCardIndex < searchResults.length ? activeCardIndex : 0;
+
+    const filterErrors = validateFilters(advancedFilters, i18n);
+    const activeFilterChips = getActiveFilterChips(advancedFilters, i18n);
+
+    const errorNotice: ErrorNotice | null = !error
+        ? null
+        : error.type === 'failed'
+            ? describeError(error.cause, i18n)
+            : error.retry === 'search'
+                ? { message: t('offline.searchNotSaved'), action: t('offline.searchRetry') }
+                : { message: t('offline.moreFailed'), action: t('offline.moreRetry') };
 
-        return book.previewUrl;
+    const filterInputClass = (name: keyof AdvancedFilters): string =>
+        `w-full px-3 py-2 text-gray-700 bg-white border rounded-lg focus:outline-none focus:ring-1 ${
+            filterErrors[name] ? 'border-red-300 focus:ring-red-500' : 'border-indigo-100 focus:ring-indigo-500'
+        }`;
+
+    // Clicking a facet applies it as a filter, clicking the active one clears it again
+    const handleFacetSelect = (type: FacetType, value: string) => {
+        setAdvancedFilters(prev => isFacetActive(prev, type, value) ? clearFacet(prev, type) : applyFacet(prev, type, value));
+    };
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setAdvancedFilters(prev => ({
+            ...prev,
+            [name]: value
+        }));
     };
 
     return (
@@ -310,27 +608,64 @@ const BookSearch: React.FC = () => {
                     <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
                         <h2 className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-blue-500 bg-clip-text text-transparent flex items-center">
                             <Search className="w-6 h-6 mr-2 text-indigo-600" />
-                            Book Search Explorer
+                            {t('search.title')}
                         </h2>
                         <div className="mt-4 md:mt-0 flex space-x-3">
+                            <Link
+                                href="/subjects"
+                                className="px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 flex items-center hover:bg-indigo-100 transition-colors"
+                            >
+                                <Compass className="w-4 h-4 mr-1" />
+                                <span>{t('nav.browse')}</span>
+                            </Link>
+                            <Link
+                                href="/shelves"
+                                className="px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 flex items-center hover:bg-indigo-100 transition-colors"
+                            >
+                                <Library className="w-4 h-4 mr-1" />
+                                <span>{t('nav.shelves')}</span>
+                            </Link>
+                            <Link
+                                href="/import"
+                                className="px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 flex items-center hover:bg-indigo-100 transition-colors"
+                            >
+                                <ListChecks className="w-4 h-4 mr-1" />
+                                <span>{t('nav.import')}</span>
+                            </Link>
                             <button
                                 onClick={() => setShowFilters(!showFilters)}
                                 className="px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 flex items-center hover:bg-indigo-100 transition-colors"
                             >
                                 <Filter className="w-4 h-4 mr-1" />
-                                <span>{showFilters ? 'Hide Filters' : 'Advanced Filters'}</span>
+                                <span>{showFilters ? t('filters.hide') : t('filters.show')}</span>
                             </button>
+                            <LocaleSwitcher />
                         </div>
                     </div>
 
                     <form onSubmit={handleSearchSubmit} className="mb-6">
-                        <div className="relative">
-                            <input
-                                type="text"
-                                placeholder={`Search by title, author, subject... ${searchMode === 'debounce' ? '(auto-search)' : ''}`}
+                        <div
+                            className="relative"
+                            onBlur={(e) => {
+                                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setShowHistory(false);
+                            }}
+                        >
+                            <AutocompleteInput
+                                inputRef={searchInputRef}
+                                suggestionType="title"
+                                onSelectSuggestion={selectSuggestedTitle}
+                                onSuggestionsOpenChange={setTitleSuggestionsOpen}
+                                aria-label={t('search.label')}
+                                aria-keyshortcuts="/"
+                                placeholder={`${t('search.placeholder')} ${searchMode === 'debounce' ? t('search.autoSearchHint') : ''}`}
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
-                                className="w-full px-5 py-4 pr-12 text-gray-700 bg-indigo-50 border border-indigo-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                onFocus={() => setShowHistory(true)}
+                                onClick={() => setShowHistory(true)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Escape') setShowHistory(false);
+                                }}
+                                className="w-full px-5 py-4 pr-28 text-gray-700 bg-indigo-50 border border-indigo-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                             />
                             <div className="absolute inset-y-0 right-0 flex items-center pr-3">
                                 {searchQuery && (
@@ -342,80 +677,201 @@ const BookSearch: React.FC = () => {
                                         <X className="h-5 w-5 text-indigo-400 hover:text-indigo-600" />
                                     </button>
                                 )}
+                                <button
+                                    type="button"
+                                    onClick={() => setShowScanner(true)}
+                                    className="p-1 hover:bg-indigo-100 rounded-full mr-1"
+                                    title={t('search.scanBarcode')}
+                                    aria-label={t('search.scanBarcode')}
+                                >
+                                    <ScanBarcode className="h-5 w-5 text-indigo-600" />
+                                </button>
                                 <button
                                     type="submit"
                                     className={`p-1 hover:bg-indigo-100 rounded-full opacity-50`}
                                     disabled={searchMode === 'debounce'}
-                                    title={searchMode === 'debounce' ? "Auto-search is enabled" : "Search"}
+                                    title={searchMode === 'debounce' ? t('search.autoSearchEnabled') : t('search.submit')}
                                 >
                                     <Search className="h-5 w-5 text-indigo-600" />
                                 </button>
                             </div>
+                            {showHistory && !titleSuggestionsOpen && (
+                                <SearchHistoryMenu
+                                    history={searchHistory}
+                                    saved={savedSearches}
+                                    updates={savedSearchUpdates}
+                                    filterText={searchQuery}
+                                    onSelect={selectHistorySearch}
+                                    onSave={saveHistorySearch}
+                                    onRemoveSaved={unsaveSearch}
+                                    onClearHistory={() => setSearchHistory(clearSearchHistory())}
+                                />
+                            )}
                         </div>
 
                         {showFilters && (
                             <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-indigo-50 rounded-xl">
+                                <div className="relative">
+                                    <label htmlFor="filter-author" className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.author')}</label>
+                                    <AutocompleteInput
+                                        id="filter-author"
+                                        suggestionType="author"
+                                        name="author"
+                                        value={advancedFilters.author}
+                                        onChange={handleFilterChange}
+                                        onSelectSuggestion={value => setAdvancedFilters(prev => ({ ...prev, author: value }))}
+                                        placeholder={t('filters.authorPlaceholder')}
+                                        className={filterInputClass('author')}
+                                    />
+                                    {filterErrors.author && <p className="mt-1 text-xs text-red-600">{filterErrors.author}</p>}
+                                </div>
+                                <div className="relative">
+                                    <label htmlFor="filter-subject" className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.subject')}</label>
+                                    <AutocompleteInput
+                                        id="filter-subject"
+                                        suggestionType="subject"
+                                        name="subject"
+                                        value={advancedFilters.subject}
+                                        onChange={handleFilterChange}
+                                        onSelectSuggestion={value => setAdvancedFilters(prev => ({ ...prev, subject: value }))}
+                                        placeholder={t('filters.subjectPlaceholder')}
+                                        className={filterInputClass('subject')}
+                                    />
+                                    {filterErrors.subject && <p className="mt-1 text-xs text-red-600">{filterErrors.subject}</p>}
+                                </div>
                                 <div>
-                                    <label className="block text-sm font-medium text-indigo-700 mb-1">Author</label>
+                                    <label className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.publisher')}</label>
                                     <input
                                         type="text"
-                                        name="author"
-                                        value={advancedFilters.author}
+                                        name="publisher"
+                                        value={advancedFilters.publisher}
                                         onChange={handleFilterChange}
-                                        placeholder="Author name"
-                                        className="w-full px-3 py-2 text-gray-700 bg-white border border-indigo-100 rounded-lg focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        placeholder={t('filters.publisherPlaceholder')}
+                                        className={filterInputClass('publisher')}
                                     />
+                                    {filterErrors.publisher && <p className="mt-1 text-xs text-red-600">{filterErrors.publisher}</p>}
                                 </div>
                                 <div>
-                                    <label className="block text-sm font-medium text-indigo-700 mb-1">Subject</label>
+                                    <label className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.isbn')}</label>
                                     <input
                                         type="text"
-                                        name="subject"
-                                        value={advancedFilters.subject}
+                                        name="isbn"
+                                        value={advancedFilters.isbn}
+                                        onChange={handleFilterChange}
+                                        placeholder={t('filters.isbnPlaceholder')}
+                                        className={filterInputClass('isbn')}
+                                    />
+                                    {filterErrors.isbn && <p className="mt-1 text-xs text-red-600">{filterErrors.isbn}</p>}
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.yearFrom')}</label>
+                                    <input
+                                        type="text"
+                                        name="yearFrom"
+                                        value={advancedFilters.yearFrom}
                                         onChange={handleFilterChange}
-                                        placeholder="e.g. fantasy, history"
-                                        className="w-full px-3 py-2 text-gray-700 bg-white border border-indigo-100 rounded-lg focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        placeholder={t('filters.yearFromPlaceholder')}
+                                        inputMode="numeric"
+                                        className={filterInputClass('yearFrom')}
                                     />
+                                    {filterErrors.yearFrom && <p className="mt-1 text-xs text-red-600">{filterErrors.yearFrom}</p>}
                                 </div>
                                 <div>
-                                    <label className="block text-sm font-medium text-indigo-700 mb-1">Publish Year</label>
+                                    <label className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.yearTo')}</label>
                                     <input
                                         type="text"
-                                        name="year"
-                                        value={advancedFilters.year}
+                                        name="yearTo"
+                                        value={advancedFilters.yearTo}
                                         onChange={handleFilterChange}
-                                        placeholder="e.g. 2020"
-                                        className="w-full px-3 py-2 text-gray-700 bg-white border border-indigo-100 rounded-lg focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        placeholder={t('filters.yearToPlaceholder')}
+                                        inputMode="numeric"
+                                        className={filterInputClass('yearTo')}
                                     />
+                                    {filterErrors.yearTo && <p className="mt-1 text-xs text-red-600">{filterErrors.yearTo}</p>}
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.language')}</label>
+                                    <select
+                                        name="language"
+                                        value={advancedFilters.language}
+                                        onChange={handleFilterChange}
+                                        className={filterInputClass('language')}
+                                    >
+                                        <option value="">{t('filters.anyLanguage')}</option>
+                                        {advancedFilters.language && !LANGUAGE_OPTIONS.some(option => option.code === advancedFilters.language) && (
+                                            <option value={advancedFilters.language}>{advancedFilters.language}</option>
+                                        )}
+                                        {LANGUAGE_OPTIONS.map(option => (
+                                            <option key={option.code} value={option.code}>{languageName(option.code)}</option>
+                                        ))}
+                                    </select>
                                 </div>
                                 <div>
-                                    <label className="block text-sm font-medium text-indigo-700 mb-1">Availability</label>
+                                    <label className="block text-sm font-medium text-indigo-700 mb-1">{t('filters.availability')}</label>
                                     <select
                                         name="availability"
                                         value={advancedFilters.availability}
                                         onChange={handleFilterChange}
-                                        className="w-full px-3 py-2 text-gray-700 bg-white border border-indigo-100 rounded-lg focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        className={filterInputClass('availability')}
                                     >
-                                        <option value="all">All Books</option>
-                                        <option value="preview">Has Preview</option>
-                                        <option value="fulltext">Full Text</option>
+                                        {AVAILABILITY_MODES.map(mode => (
+                                            <option key={mode} value={mode}>{availabilityLabel(mode, i18n)}</option>
+                                        ))}
                                     </select>
                                 </div>
                             </div>
                         )}
+
+                        {activeFilterChips.length > 0 && (
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                                {activeFilterChips.map(chip => (
+                                    <span
+                                        key={chip.key}
+                                        className="inline-flex items-center pl-3 pr-1 py-1 bg-indigo-100 text-indigo-800 text-xs rounded-full"
+                                    >
+                                        {chip.label}
+                                        <button
+                                            type="button"
+                                            onClick={() => setAdvancedFilters(prev => removeFilter(prev, chip.key))}
+                                            className="ml-1 p-0.5 rounded-full hover:bg-indigo-200"
+                                            title={t('chips.remove', { label: chip.label })}
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => setAdvancedFilters(prev => ({ ...DEFAULT_FILTERS, sort: prev.sort }))}
+                                    className="text-xs text-indigo-600 hover:text-indigo-800 underline"
+                                >
+                                    {t('filters.clear')}
+                                </button>
+                            </div>
+                        )}
                     </form>
 
                     {loading && (
                         <div className="flex justify-center items-center py-12">
                             <Loader2 className="w-10 h-10 text-indigo-600 animate-spin" />
-                            <span className="ml-3 text-indigo-700">Searching books...</span>
+                            <span className="ml-3 text-indigo-700">{t('search.loading')}</span>
+                        </div>
+                    )}
+
+                    {!online && (
+                        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-xl mb-6 flex items-start" role="status">
+                            <WifiOff className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" />
+                            <div>
+                                <p className="font-medium">{t('offline.title')}</p>
+                                <p className="mt-1 text-sm">{t('offline.body')}</p>
+                            </div>
                         </div>
                     )}
 
-                    {error && (
+                    {errorNotice && (
                         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl mb-6">
-                            <p className="font-medium">Error: {error}</p>
-                            <p className="mt-1 text-sm">Please try again or modify your search.</p>
+                            <p className="font-medium">{errorNotice.message}</p>
+                            <p className="mt-1 text-sm">{errorNotice.action}</p>
                         </div>
                     )}
 
@@ -423,103 +879,261 @@ const BookSearch: React.FC = () => {
                         <>
                             <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between">
                                 <p className="text-indigo-700 font-medium mb-2 sm:mb-0">
-                                    Found <span className="font-bold">{totalResults.toLocaleString()}</span> books
-                                    {searchQuery && <span> matching <span className="font-bold">{searchQuery}</span></span>}
-                                    {advancedFilters.availability === 'preview' && <span> with <span className="font-bold">previews</span></span>}
-                                    {advancedFilters.availability === 'fulltext' && <span> with <span className="font-bold">full text</span></span>}
+                                    {rich(i18n.pluralKey(hasMore && filteredCount > 0 ? 'results.foundAbout' : 'results.found', totalResults), {
+                                        count: <span className="font-bold">{formatNumber(totalResults)}</span>
+                                    })}
+                                    {searchQuery && <span> {rich('results.matching', { query: <span className="font-bold">{searchQuery}</span> })}</span>}
+                                    {advancedFilters.availability === 'preview' && (
+                                        <span> {rich('results.withPreviews', { previews: <span className="font-bold">{t('results.previews')}</span> })}</span>
+                                    )}
+                                    {advancedFilters.availability === 'fulltext' && (
+                                        <span> {rich('results.withFullText', { fullText: <span className="font-bold">{t('results.fullText')}</span> })}</span>
+                                    )}
+                                    {newResultIds.size > 0 && (
+                                        <span className="ml-2 inline-flex items-center px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-medium">
+                                            <Sparkles className="w-3 h-3 mr-1" />
+                                            {plural('results.newSinceVisit', newResultIds.size)}
+                                        </span>
+                                    )}
+                                    {staleSince && (
+                                        <span
+                                            className="ml-2 inline-flex items-center px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs font-medium"
+                                            title={t('results.staleHint')}
+                                        >
+                                            <CloudOff className="w-3 h-3 mr-1" />
+                                            {t('results.stale', { date: formatDate(staleSince, { dateStyle: 'medium', timeStyle: 'short' }) })}
+                                        </span>
+                                    )}
                                 </p>
-
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <button
+                                        onClick={toggleCurrentSavedSearch}
+                                        aria-pressed={!!currentSavedSearch}
+                                        className={`px-3 py-1 rounded-full text-sm flex items-center transition-colors ${
+                                            currentSavedSearch ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+                                        }`}
+                                    >
+                                        <Pin className="w-4 h-4 mr-1" />
+                                        {currentSavedSearch ? t('results.savedSearch') : t('results.saveSearch')}
+                                    </button>
+                                    {selectedBooks.length > 0 && (
+                                        <span className="text-sm text-indigo-700">
+                                            {t('results.selected', { count: formatNumber(selectedBooks.length) })}
+                                            <button
+                                                onClick={() => setSelectedIds(new Set())}
+                                                className="ml-2 text-indigo-500 hover:text-indigo-800 underline"
+                                            >
+                                                {t('results.clearSelection')}
+                                            </button>
+                                        </span>
+                                    )}
+                                    <ExportMenu
+                                        books={selectedBooks.length > 0 ? selectedBooks : searchResults}
+                                        label={selectedBooks.length > 0 ? t('export.selected') : t('export.all', { count: formatNumber(searchResults.length) })}
+                                    />
+                                    <label className="flex items-center text-sm text-indigo-700">
+                                        <ArrowUpDown className="w-4 h-4 mr-1" />
+                                        <span className="mr-2">{t('sort.label')}</span>
+                                        <select
+                                            name="sort"
+                                            value={advancedFilters.sort}
+                                            onChange={handleFilterChange}
+                                            className="px-2 py-1 text-gray-700 bg-white border border-indigo-100 rounded-lg focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        >
+                                            {SORT_ORDERS.map(sort => (
+                                                <option key={sort} value={sort}>{sortLabel(sort, i18n)}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                </div>
                             </div>
 
-                            <div className="space-y-4">
-                                {searchResults.map(book => (
+                            <div className="flex flex-col md:flex-row gap-6">
+                                {facets && (
+                                    <FacetSidebar facets={facets} filters={advancedFilters} onSelect={handleFacetSelect} />
+                                )}
+                                <div className="flex-1 min-w-0">
                                     <div
-                                        key={book.id}
-                                        className={`p-4 rounded-xl border transition-allborder-gray-200 bg-white hover:border-indigo-200 hover:shadow-sm
-                                    }`}
+                                        ref={resultsListRef}
+                                        role="list"
+                                        aria-label={t('results.label')}
+                                        onKeyDown={handleResultsKeyDown}
+                                        className="space-y-4"
                                     >
-                                        <div className="flex items-start">
-                                            <div className="flex-shrink-0 mr-4">
-                                                {book.coverId ? (
-                                                    <img
-                                                        src={`https://covers.openlibrary.org/b/id/${book.coverId}-M.jpg`}
-                                                        alt={`Cover for ${book.title}`}
-                                                        className="w-24 h-32 object-cover rounded-md shadow-sm"
+                                        {searchResults.map((book, index) => (
+                                            <div
+                                                key={book.id}
+                                                role="listitem"
+                                                data-result-card
+                                                tabIndex={index === focusableCardIndex ? 0 : -1}
+                                                onFocus={() => setActiveCardIndex(index)}
+                                                aria-labelledby={`result-title-${index}`}
+                                                className={`p-4 rounded-xl border transition-allborder-gray-200 bg-white hover:border-indigo-200 hover:shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500
+                                            }`}
+                                            >
+                                                <div className="flex items-start">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedIds.has(book.id)}
+                                                        onChange={() => toggleSelected(book.id)}
+                                                        aria-label={t('results.select', { title: book.title })}
+                                                        className="mt-1 mr-3 accent-indigo-600"
                                                     />
-                                                ) : (
-                                                    <div className="w-24 h-32 bg-indigo-100 flex items-center justify-center rounded-md">
-                                                        <BookIcon className="w-8 h-8 text-indigo-400" />
+                                                    <div className="flex-shrink-0 mr-4">
+                                                        <BookCover
+                                                            book={book}
+                                                            size="M"
+                                                            alt={t('results.cover', { title: book.title })}
+                                                            className="w-24 h-32 object-cover rounded-md shadow-sm"
+                                                            fallback={
+                                                                <div className="w-24 h-32 bg-indigo-100 flex items-center justify-center rounded-md">
+                                                                    <BookIcon className="w-8 h-8 text-indigo-400" />
+                                                                </div>
+                                                            }
+                                                        />
                                                     </div>
-                                                )}
-                                            </div>
 
-                                            <div className="flex-1">
-
-                                                <div className="mt-1 flex flex-wrap items-center text-sm text-gray-600">
-                                                    <span className="flex items-center mr-4 mb-1">
-                                                        <User className="w-4 h-4 mr-1 text-indigo-500" />
-                                                        {book.author}
-                                                    </span>
-                                                    <span className="flex items-center mr-4 mb-1">
-                                                        <Calendar className="w-4 h-4 mr-1 text-indigo-500" />
-                                                        {book.year}
-                                                    </span>
-                                                    <span className="flex items-center mb-1">
-                                                        <BookOpen className="w-4 h-4 mr-1 text-indigo-500" />
-                                                        {book.publisher}
-                                                    </span>
-                                                </div>
+                                                    <div className="flex-1">
+                                                        <h3 id={`result-title-${index}`} className="text-lg font-semibold text-indigo-900">
+                                                            {book.title}
+                                                            {newResultIds.has(book.id) && (
+                                                                <span className="ml-2 align-middle px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-medium">
+                                                                    {t('results.new')}
+                                                                </span>
+                                                            )}
+                                                        </h3>
+
+                                                        <div className="mt-1 flex flex-wrap items-center text-sm text-gray-600">
+                                                            <span className="flex items-center mr-4 mb-1">
+                                                                <User className="w-4 h-4 mr-1 text-indigo-500" />
+                                                                <AuthorLinks book={book} />
+                                                            </span>
+                                                            <span className="flex items-center mr-4 mb-1">
+                                                                <Calendar className="w-4 h-4 mr-1 text-indigo-500" />
+                                                                {book.year}
+                                                            </span>
+                                                            <span className="flex items-center mb-1">
+                                                                <BookOpen className="w-4 h-4 mr-1 text-indigo-500" />
+                                                                {book.publisher}
+                                                            </span>
+                                                            {!!book.editionCount && book.editionCount > 1 && (
+                                                                <span className="flex items-center ml-4 mb-1">
+                                                                    <Layers className="w-4 h-4 mr-1 text-indigo-500" />
+                                                                    {plural('results.editions', book.editionCount)}
+                                                                </span>
+                                                            )}
+                                                            {book.ratingsAverage && (
+                                                                <span className="flex items-center ml-4 mb-1" title={plural('results.ratings', book.ratingsCount || 0)}>
+                                                                    <Star className="w-4 h-4 mr-1 text-amber-500" />
+                                                                    {book.ratingsAverage.toFixed(1)}
+                                                                </span>
+                                                            )}
+                                                        </div>
+
+
+                                                        <div className="mt-3 flex flex-wrap items-center gap-2">
+                                                            {book.previewStatus === 'checking' && (
+                                                                <span
+                                                                    role="status"
+                                                                    className="inline-flex items-center px-3 py-1.5 bg-gray-50 text-gray-500 text-xs rounded-lg"
+                                                                >
+                                                                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                                                    {t('results.checking')}
+                                                                </span>
+                                                            )}
+
+                                                            {book.previewAvailable && book.previewUrl && (
+                                                                <button
+                                                                    onClick={() => openPreview(book)}
+                                                                    className="inline-flex items-center px-3 py-1.5 bg-blue-100 text-blue-700 text-xs rounded-lg hover:bg-blue-200 transition-colors"
+                                                                >
+                                                                    <Eye className="w-3 h-3 mr-1" />
+                                                                    <span className="font-medium">{t('results.preview')}</span>
+                                                                </button>
+                                                            )}
+
+                                                            {book.hasFulltext && getFullTextUrl(book) && (
+                                                                <a
+                                                                    href={getFullTextUrl(book) ?? undefined}
+                                                                    target="_blank"
+                                                                    rel="noopener noreferrer"
+                                                                    className="inline-flex items-center px-3 py-1.5 bg-green-100 text-green-700 text-xs rounded-lg hover:bg-green-200 transition-colors"
+                                                                >
+                                                                    <Download className="w-3 h-3 mr-1" />
+                                                                    <span className="font-medium">{t('results.readFullText')}</span>
+                                                                </a>
+                                                            )}
 
+                                                            {getDetailsPath(book) ? (
+                                                                <Link
+                                                                    href={getDetailsPath(book) ?? '/'}
+                                                                    className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs rounded-lg hover:bg-gray-200 transition-colors"
+                                                                >
+                                                                    <BookIcon className="w-3 h-3 mr-1" />
+                                                                    <span className="font-medium">{t('results.viewDetails')}</span>
+                                                                </Link>
+                                                            ) : (
+                                                                <a
+                                                                    href={getBookUrl(book)}
+                                                                    target="_blank"
+                                                                    rel="noopener noreferrer"
+                                                                    className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs rounded-lg hover:bg-gray-200 transition-colors"
+                                                                >
+                                                                    <BookIcon className="w-3 h-3 mr-1" />
+                                                                    <span className="font-medium">{t('results.viewDetails')}</span>
+                                                                </a>
+                                                            )}
 
-                                                <div className="mt-3 flex flex-wrap items-center gap-2">
-                                                    {book.previewAvailable && book.previewUrl && (
-                                                        <button
-                                                            onClick={() => openPreview(book)}
-                                                            className="inline-flex items-center px-3 py-1.5 bg-blue-100 text-blue-700 text-xs rounded-lg hover:bg-blue-200 transition-colors"
-                                                        >
-                                                            <Eye className="w-3 h-3 mr-1" />
-                                                            <span className="font-medium">Preview</span>
-                                                        </button>
-                                                    )}
-
-                                                    {book.hasFulltext && (
-                                                        <a
-                                                            href={`https://openlibrary.org${book.id}/borrow`}
-                                                            target="_blank"
-                                                            rel="noopener noreferrer"
-                                                            className="inline-flex items-center px-3 py-1.5 bg-green-100 text-green-700 text-xs rounded-lg hover:bg-green-200 transition-colors"
-                                                        >
-                                                            <Download className="w-3 h-3 mr-1" />
-                                                            <span className="font-medium">Read Full Text</span>
-                                                        </a>
-                                                    )}
-
-                                                    <a
-                                                        href={`https://openlibrary.org${book.id}`}
-                                                        target="_blank"
-                                                        rel="noopener noreferrer"
-                                                        className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs rounded-lg hover:bg-gray-200 transition-colors"
-                                                    >
-                                                        <BookIcon className="w-3 h-3 mr-1" />
-                                                        <span className="font-medium">View Details</span>
-                                                    </a>
+                                                            <button
+                                                                onClick={() => setRelatedBookId(id => (id === book.id ? null : book.id))}
+                                                                aria-expanded={relatedBookId === book.id}
+                                                                className="inline-flex items-center px-3 py-1.5 bg-indigo-50 text-indigo-700 text-xs rounded-lg hover:bg-indigo-100 transition-colors"
+                                                            >
+                                                                <Sparkles className="w-3 h-3 mr-1" />
+                                                                <span className="font-medium">{relatedBookId === book.id ? t('related.hide') : t('related.show')}</span>
+                                                            </button>
+
+                                                            <ShelfControls book={book} />
+                                                        </div>
+                                                    </div>
                                                 </div>
+                                                {relatedBookId === book.id && <RelatedBooks book={book} onPreview={openPreview} className="mt-4" />}
                                             </div>
-                                        </div>
+                                        ))}
                                     </div>
-                                ))}
+
+                                    {/* Infinite scroll sentinel and manual fallback */}
+                                    <div ref={loadMoreRef} className="mt-6 flex flex-col items-center">
+                                        {loadingMore && (
+                                            <div className="flex items-center py-4">
+                                                <Loader2 className="w-6 h-6 text-indigo-600 animate-spin" />
+                                                <span className="ml-2 text-indigo-700 text-sm">{t('results.loadingMore')}</span>
+                                            </div>
+                                        )}
+                                        {hasMore && !loadingMore && (
+                                            <button
+                                                onClick={loadMore}
+                                                className="px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 hover:bg-indigo-100 transition-colors"
+                                            >
+                                                {t('results.loadMore')}
+                                            </button>
+                                        )}
+                                        <p className="mt-2 text-xs text-gray-500">
+                                            {t('results.showing', {
+                                                shown: formatNumber(searchResults.length),
+                                                total: formatNumber(totalResults),
+                                                page: formatNumber(currentPage)
+                                            })}
+                                        </p>
+                                    </div>
+                                </div>
                             </div>
 
                             {/* More information and links */}
                             <div className="mt-8 p-6 bg-indigo-50 rounded-xl border border-indigo-100">
-                                <h3 className="text-lg font-medium text-indigo-800 mb-2">About Open Library</h3>
-                                <p className="text-indigo-700 mb-4">
-                                    Open Library is an open, editable library catalog, building towards a web page for every book ever published.
-                                    Preview and full text availability is determined by copyright status, partnerships with publishers, and donations.
-                                </p>
-                                <p className="text-indigo-600 text-sm">
-                                    Public domain books and classic literature are more likely to be available for preview or full reading.
-                                </p>
+                                <h3 className="text-lg font-medium text-indigo-800 mb-2">{t('about.title')}</h3>
+                                <p className="text-indigo-700 mb-4">{t('about.body')}</p>
+                                <p className="text-indigo-600 text-sm">{t('about.note')}</p>
                             </div>
                         </>
                     )}
@@ -529,30 +1143,36 @@ const BookSearch: React.FC = () => {
                             <div className="w-20 h-20 mx-auto bg-indigo-100 rounded-full flex items-center justify-center mb-6">
                                 <Search className="w-10 h-10 text-indigo-500" />
                             </div>
-                            <h3 className="text-xl font-medium text-gray-900 mb-2">Search for books</h3>
+                            <h3 className="text-xl font-medium text-gray-900 mb-2">{t('empty.title')}</h3>
                             <p className="text-gray-600 max-w-xl mx-auto mb-4">
-                                Use the search box above to find books by title, author, or subject.
-                                {searchMode === 'debounce'
-                                    ? " Results will appear automatically as you type."
-                                    : " Press Enter or click the search icon when ready to search."
-                                }
+                                {t('empty.intro')} {searchMode === 'debounce' ? t('empty.autoSearch') : t('empty.manualSearch')}
                             </p>
                             <p className="text-indigo-600 font-medium max-w-xl mx-auto mb-8">
-                                Now with book previews and full-text availability! Use the <span className="font-medium">Availability</span> filter to find readable books.
+                                {rich('empty.availability', { filter: <span className="font-medium">{t('filters.availability')}</span> })}
                             </p>
 
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-3xl mx-auto text-left">
                                 <div className="p-4 border border-indigo-100 rounded-lg bg-white">
-                                    <h4 className="font-medium text-indigo-800 mb-1">Search by Title</h4>
-                                    <p className="text-sm text-gray-600">Enter book titles like <span className="italic">Lord of the Rings</span> or <span className="italic">Pride and Prejudice</span></p>
+                                    <h4 className="font-medium text-indigo-800 mb-1">{t('empty.byTitle')}</h4>
+                                    <p className="text-sm text-gray-600">
+                                        {rich('empty.byTitleHint', {
+                                            first: <span className="italic">Lord of the Rings</span>,
+                                            second: <span className="italic">Pride and Prejudice</span>
+                                        })}
+                                    </p>
                                 </div>
                                 <div className="p-4 border border-indigo-100 rounded-lg bg-white">
-                                    <h4 className="font-medium text-indigo-800 mb-1">Search by Author</h4>
-                                    <p className="text-sm text-gray-600">Type author names or use the author filter for more precision</p>
+                                    <h4 className="font-medium text-indigo-800 mb-1">{t('empty.byAuthor')}</h4>
+                                    <p className="text-sm text-gray-600">{t('empty.byAuthorHint')}</p>
                                 </div>
                                 <div className="p-4 border border-indigo-100 rounded-lg bg-white">
-                                    <h4 className="font-medium text-indigo-800 mb-1">Filter by Subject</h4>
-                                    <p className="text-sm text-gray-600">Narrow your search with subjects like <span className="italic">fantasy</span> or <span className="italic">biography</span></p>
+                                    <h4 className="font-medium text-indigo-800 mb-1">{t('empty.bySubject')}</h4>
+                                    <p className="text-sm text-gray-600">
+                                        {rich('empty.bySubjectHint', {
+                                            first: <span className="italic">fantasy</span>,
+                                            second: <span className="italic">biography</span>
+                                        })}
+                                    </p>
                                 </div>
                             </div>
 
@@ -563,10 +1183,9 @@ const BookSearch: React.FC = () => {
                                             <Eye className="w-6 h-6 text-blue-600" />
                                         </div>
                                         <div>
-                                            <h4 className="font-medium text-blue-800 mb-1">Book Previews</h4>
+                                            <h4 className="font-medium text-blue-800 mb-1">{t('empty.previews')}</h4>
                                             <p className="text-sm text-blue-700">
-                                                Many books offer preview sections that you can read online before purchasing or borrowing.
-                                                Look for the <span className="font-medium">Preview</span> badge on search results.
+                                                {rich('empty.previewsHint', { badge: <span className="font-medium">{t('results.preview')}</span> })}
                                             </p>
                                         </div>
                                     </div>
@@ -578,11 +1197,8 @@ const BookSearch: React.FC = () => {
                                             <BookOpen className="w-6 h-6 text-green-600" />
                                         </div>
                                         <div>
-                                            <h4 className="font-medium text-green-800 mb-1">Full Text Books</h4>
-                                            <p className="text-sm text-green-700">
-                                                Some books are available to read in full for free. Classic literature and
-                                                public domain books are most likely to have full text available.
-                                            </p>
+                                            <h4 className="font-medium text-green-800 mb-1">{t('empty.fullText')}</h4>
+                                            <p className="text-sm text-green-700">{t('empty.fullTextHint')}</p>
                                         </div>
                                     </div>
                                 </div>
@@ -593,12 +1209,17 @@ const BookSearch: React.FC = () => {
             </div>
             {showPreview && previewBook && (
                 <BookPreviewModal
+                    key={previewBook.id}
                     previewBook={previewBook}
                     showPreview={showPreview}
                     closePreview={closePreview}
                     getEmbeddedPreviewUrl={(book) => getEmbeddedPreviewUrl(book)}
+                    onPreviewRelated={openPreview}
                 />
             )}
+            {showScanner && (
+                <BarcodeScanner onDetected={handleBarcodeScanned} onClose={() => setShowScanner(false)} />
+            )}
         </div>
     );
 }
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { Book } from '@/types/types';
+import { EXPORT_FORMATS, ExportFormat, exportBooks, exportFilename, exportFormatInfo } from '@/lib/export';
+import { useLocale } from '@/context/LocaleContext';
+
+interface ExportMenuProps {
+    books: Book[];
+    // What is being exported, e.g. "selected" or "all 20", already translated
+    label: string;
+}
+
+// Download books as CSV, BibTeX, RIS or JSON, built in the browser
+export const ExportMenu: React.FC<ExportMenuProps> = ({ books, label }) => {
+    const { t } = useLocale();
+    const [format, setFormat] = useState<ExportFormat>('csv');
+
+    const handleExport = () => {
+        const blob = new Blob([exportBooks(books, format)], { type: exportFormatInfo(format).mimeType });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = exportFilename(format);
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="inline-flex items-center text-sm">
+            <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                aria-label={t('export.format')}
+                className="px-2 py-1 text-gray-700 bg-white border border-indigo-100 rounded-l-lg focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            >
+                {EXPORT_FORMATS.map(option => (
+                    <option key={option.format} value={option.format}>{option.label}</option>
+                ))}
+            </select>
+            <button
+                onClick={handleExport}
+                disabled={books.length === 0}
+                className="inline-flex items-center px-3 py-1 bg-indigo-600 text-white border border-indigo-600 rounded-r-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+                <FileDown className="w-4 h-4 mr-1" />
+                {t('export.button', { label })}
+            </button>
+        </div>
+    );
+};
+
+export default ExportMenu;
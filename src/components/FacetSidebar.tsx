@@ -0,0 +1,59 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { AdvancedFilters, SearchFacets } from '@/types/types';
+import { FacetType, isFacetActive } from '@/lib/facets';
+import { useLocale } from '@/context/LocaleContext';
+
+interface FacetSidebarProps {
+    facets: SearchFacets;
+    filters: AdvancedFilters;
+    onSelect: (type: FacetType, value: string) => void;
+}
+
+// Each is titled by its 'facets.<type>' message
+const FACET_SECTIONS: FacetType[] = ['subjects', 'authors', 'languages', 'decades'];
+
+// Clickable value counts for narrowing the current search
+export const FacetSidebar: React.FC<FacetSidebarProps> = ({ facets, filters, onSelect }) => {
+    const { t, formatNumber, languageName } = useLocale();
+
+    return (
+        <aside className="md:w-64 flex-shrink-0 space-y-6">
+            <h3 className="flex items-center text-sm font-semibold text-indigo-800">
+                <BarChart3 className="w-4 h-4 mr-1" />
+                {t('facets.title')}
+            </h3>
+            {FACET_SECTIONS.filter(type => facets[type].length > 0).map(type => (
+                <div key={type}>
+                    <h4 className="text-xs font-medium uppercase tracking-wide text-indigo-600 mb-2">{t(`facets.${type}`)}</h4>
+                    <ul className="space-y-1">
+                        {facets[type].map(facet => {
+                            const active = isFacetActive(filters, type, facet.value);
+                            return (
+                                <li key={facet.value}>
+                                    <button
+                                        onClick={() => onSelect(type, facet.value)}
+                                        className={`w-full flex items-center justify-between px-2 py-1 text-sm rounded-lg text-left transition-colors ${
+                                            active ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-indigo-50'
+                                        }`}
+                                        aria-pressed={active}
+                                    >
+                                        <span className="truncate mr-2">
+                                            {/* The server names languages in English */}
+                                            {type === 'languages' ? languageName(facet.value) : facet.label}
+                                        </span>
+                                        <span className={`text-xs ${active ? 'text-indigo-100' : 'text-gray-400'}`}>
+                                            {formatNumber(facet.count)}
+                                        </span>
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            ))}
+        </aside>
+    );
+};
+
+export default FacetSidebar;
@@ -0,0 +1,233 @@
+import React, { useRef, useState } from 'react';
+import { Book as BookIcon, Eye, ListChecks, Loader2, Upload } from 'lucide-react';
+import { Book, IsbnAvailability, IsbnImportResponse } from '@/types/types';
+import { getBookUrl, getEmbeddedPreviewUrl } from '@/lib/catalog';
+import { availabilityLabel, IMPORT_AVAILABILITY } from '@/lib/isbnImport';
+import { importIsbnList } from '@/lib/searchClient';
+import { isAbortError } from '@/lib/abort';
+import { describeError, ErrorNotice } from '@/lib/errors';
+import { useLocale } from '@/context/LocaleContext';
+import BookPreviewModal from './BookPreviewModal';
+import ShelfControls from './ShelfControls';
+import ExportMenu from './ExportMenu';
+import BookCover from './BookCover';
+import PageNav from './PageNav';
+
+const AVAILABILITY_STYLES: Record<IsbnAvailability, string> = {
+    'fulltext': 'bg-green-100 text-green-700',
+    'readable': 'bg-teal-100 text-teal-700',
+    'preview': 'bg-blue-100 text-blue-700',
+    'unavailable': 'bg-gray-100 text-gray-600',
+    'not-found': 'bg-red-50 text-red-600'
+};
+
+// Paste or upload a list of ISBNs and see which of them can be read
+export const IsbnImport: React.FC = () => {
+    const i18n = useLocale();
+    const { t, plural, formatNumber } = i18n;
+    const [text, setText] = useState<string>('');
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<ErrorNotice | null>(null);
+    const [response, setResponse] = useState<IsbnImportResponse | null>(null);
+    const [previewBook, setPreviewBook] = useState<Book | null>(null);
+    const lookupAbortRef = useRef<AbortController | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const contents = await file.text();
+        setText(prev => (prev.trim() ? `${prev.trim()}\n${contents}` : contents));
+        e.target.value = '';
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!text.trim()) return;
+
+        lookupAbortRef.current?.abort();
+        const controller = new AbortController();
+        lookupAbortRef.current = controller;
+        setLoading(true);
+        setError(null);
+
+        try {
+            setResponse(await importIsbnList(text, controller.signal));
+        } catch (err: unknown) {
+            if (isAbortError(err)) return;
+            console.error('Error importing ISBNs:', err);
+            setError(describeError(err, i18n, t('import.checkList')));
+        } finally {
+            if (lookupAbortRef.current === controller) setLoading(false);
+        }
+    };
+
+    const foundBooks = (response?.results || []).flatMap(result => (result.book ? [result.book] : []));
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-sky-50 p-6">
+            <div className="max-w-5xl mx-auto">
+                <PageNav />
+
+                <div className="bg-white backdrop-blur-lg bg-opacity-90 p-8 rounded-2xl shadow-lg border border-indigo-100">
+                    <h2 className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-blue-500 bg-clip-text text-transparent flex items-center mb-2">
+                        <ListChecks className="w-6 h-6 mr-2 text-indigo-600" />
+                        {t('nav.import')}
+                    </h2>
+                    <p className="text-sm text-gray-600 mb-6">{t('import.intro')}</p>
+
+                    <form onSubmit={handleSubmit}>
+                        <textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            rows={8}
+                            aria-label={t('import.list')}
+                            placeholder={'978-0-441-01359-3\n0-14-143951-3'}
+                            className="w-full px-4 py-3 font-mono text-sm text-gray-700 bg-indigo-50 border border-indigo-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                        <div className="mt-3 flex flex-wrap items-center gap-3">
+                            <label className="inline-flex items-center px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 hover:bg-indigo-100 transition-colors cursor-pointer">
+                                <Upload className="w-4 h-4 mr-1" />
+                                {t('import.upload')}
+                                <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="sr-only" />
+                            </label>
+                            <button
+                                type="submit"
+                                disabled={loading || !text.trim()}
+                                className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-full text-sm hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                            >
+                                {loading && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                                {t('import.submit')}
+                            </button>
+                        </div>
+                    </form>
+
+                    {error && (
+                        <div className="mt-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">
+                            <p className="font-medium">{error.message}</p>
+                            <p className="mt-1 text-sm">{error.action}</p>
+                        </div>
+                    )}
+
+                    {response && (
+                        <div className="mt-8">
+                            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                                <div className="flex flex-wrap gap-2 text-sm">
+                                    {IMPORT_AVAILABILITY.map(availability => (
+                                        <span key={availability} className={`px-3 py-1 rounded-full ${AVAILABILITY_STYLES[availability]}`}>
+                                            {t('import.statusCount', {
+                                                label: availabilityLabel(availability, i18n),
+                                                count: formatNumber(response.results.filter(result => result.availability === availability).length)
+                                            })}
+                                        </span>
+                                    ))}
+                                    {response.duplicates > 0 && (
+                                        <span className="px-3 py-1 rounded-full bg-gray-50 text-gray-500">
+                                            {plural('import.duplicates', response.duplicates)}
+                                        </span>
+                                    )}
+                                </div>
+                                <ExportMenu books={foundBooks} label={t('import.foundBooks')} />
+                            </div>
+
+                            {response.invalid.length > 0 && (
+                                <div className="mb-4 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-xl text-sm">
+                                    <p className="font-medium mb-1">
+                                        {plural('import.invalid', response.invalid.length)}
+                                    </p>
+                                    <ul className="list-disc list-inside">
+                                        {response.invalid.map((entry, index) => (
+                                            <li key={`${entry.input}-${index}`}>
+                                                <span className="font-mono">{entry.input}</span> — {t(entry.error)}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm text-left">
+                                    <thead className="text-indigo-700 bg-indigo-50">
+                                        <tr>
+                                            <th className="px-3 py-2 font-medium">{t('import.isbn')}</th>
+                                            <th className="px-3 py-2 font-medium">{t('import.book')}</th>
+                                            <th className="px-3 py-2 font-medium">{t('import.availability')}</th>
+                                            <th className="px-3 py-2 font-medium">{t('import.actions')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {response.results.map(result => (
+                                            <tr key={result.isbn} className="border-b border-gray-100 align-top">
+                                                <td className="px-3 py-2 font-mono text-gray-700">{result.isbn}</td>
+                                                <td className="px-3 py-2">
+                                                    {result.book ? (
+                                                        <div className="flex items-start">
+                                                            <div className="w-8 h-11 bg-indigo-100 flex-shrink-0 rounded overflow-hidden mr-3 flex items-center justify-center">
+                                                                <BookCover
+                                                                    book={result.book}
+                                                                    size="S"
+                                                                    alt={t('results.cover', { title: result.book.title })}
+                                                                    className="w-full h-full object-cover"
+                                                                    fallback={<BookIcon className="w-4 h-4 text-indigo-400" />}
+                                                                />
+                                                            </div>
+                                                            <div>
+                                                                <a
+                                                                    href={getBookUrl(result.book)}
+                                                                    target="_blank"
+                                                                    rel="noopener noreferrer"
+                                                                    className="font-medium text-indigo-900 hover:underline"
+                                                                >
+                                                                    {result.book.title}
+                                                                </a>
+                                                                <p className="text-xs text-gray-600">
+                                                                    {result.book.author} · {result.book.publisher}, {result.book.year}
+                                                                </p>
+                                                            </div>
+                                                        </div>
+                                                    ) : (
+                                                        <span className="text-gray-400">{t('import.notFound')}</span>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 py-2">
+                                                    <span className={`px-2 py-1 rounded-lg text-xs font-medium ${AVAILABILITY_STYLES[result.availability]}`}>
+                                                        {availabilityLabel(result.availability, i18n)}
+                                                    </span>
+                                                </td>
+                                                <td className="px-3 py-2">
+                                                    {result.book && (
+                                                        <div className="flex flex-wrap items-center gap-2">
+                                                            {result.book.previewAvailable && result.book.previewUrl && (
+                                                                <button
+                                                                    onClick={() => setPreviewBook(result.book)}
+                                                                    className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-lg hover:bg-blue-200 transition-colors"
+                                                                >
+                                                                    <Eye className="w-3 h-3 mr-1" />
+                                                                    <span className="font-medium">{t('results.preview')}</span>
+                                                                </button>
+                                                            )}
+                                                            <ShelfControls book={result.book} />
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+            {previewBook && (
+                <BookPreviewModal
+                    previewBook={previewBook}
+                    showPreview={true}
+                    closePreview={() => setPreviewBook(null)}
+                    getEmbeddedPreviewUrl={(book) => getEmbeddedPreviewUrl(book)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default IsbnImport;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { ApiErrorResponse } from '@/types/types';
+import { describeError, fromApiError } from '@/lib/errors';
+import { useLocale } from '@/context/LocaleContext';
+import PageNav from './PageNav';
+
+interface LoadErrorProps {
+    // As reported by the page's getServerSideProps
+    error: ApiErrorResponse;
+}
+
+// Shown in place of a page whose Open Library lookup failed
+export const LoadError: React.FC<LoadErrorProps> = ({ error }) => {
+    const i18n = useLocale();
+    const { t } = i18n;
+    const notice = describeError(fromApiError(error, null, error.error), i18n);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-sky-50 p-6">
+            <div className="max-w-5xl mx-auto">
+                <PageNav />
+
+                <div role="alert" className="bg-white backdrop-blur-lg bg-opacity-90 p-8 rounded-2xl shadow-lg border border-indigo-100 text-center">
+                    <AlertTriangle className="w-10 h-10 text-amber-500 mx-auto mb-3" />
+                    <p className="font-medium text-gray-800">{notice.message}</p>
+                    <p className="mt-1 text-sm text-gray-600">{notice.action}</p>
+                    <button
+                        onClick={() => window.location.reload()}
+                        className="mt-4 inline-flex items-center px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        {t('errors.retry')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LoadError;
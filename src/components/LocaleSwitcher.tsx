@@ -0,0 +1,29 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useLocale } from '@/context/LocaleContext';
+import { isLocale, LOCALES, MESSAGES } from '@/lib/i18n';
+
+// Picks the interface language; each option is named in its own language
+export const LocaleSwitcher: React.FC = () => {
+    const { locale, setLocale, t } = useLocale();
+
+    return (
+        <label className="px-3 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 flex items-center hover:bg-indigo-100 transition-colors">
+            <Languages className="w-4 h-4 mr-1" aria-hidden="true" />
+            <select
+                value={locale}
+                onChange={(e) => {
+                    if (isLocale(e.target.value)) setLocale(e.target.value);
+                }}
+                aria-label={t('locale.label')}
+                className="bg-transparent focus:outline-none cursor-pointer"
+            >
+                {LOCALES.map(code => (
+                    <option key={code} value={code} lang={code}>{MESSAGES[code]['locale.name']}</option>
+                ))}
+            </select>
+        </label>
+    );
+};
+
+export default LocaleSwitcher;
@@ -0,0 +1,30 @@
+import React from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { useLocale } from '@/context/LocaleContext';
+import LocaleSwitcher from './LocaleSwitcher';
+
+interface PageNavProps {
+    // Further links shown after the one back to search
+    children?: React.ReactNode;
+}
+
+// The row above a page's content: the way back to search and the language picker
+export const PageNav: React.FC<PageNavProps> = ({ children }) => {
+    const { t } = useLocale();
+
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div className="flex items-center gap-4 text-sm">
+                <Link href="/" className="inline-flex items-center text-indigo-700 hover:text-indigo-900">
+                    <ArrowLeft className="w-4 h-4 mr-1" />
+                    {t('nav.backToSearch')}
+                </Link>
+                {children}
+            </div>
+            <LocaleSwitcher />
+        </div>
+    );
+};
+
+export default PageNav;
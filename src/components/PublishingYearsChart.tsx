@@ -0,0 +1,55 @@
+import React from 'react';
+import Link from 'next/link';
+import { FacetCount } from '@/types/types';
+import { useLocale } from '@/context/LocaleContext';
+
+// Decade labels shown under the bars at most; the rest are left to the tooltips
+const MAX_AXIS_LABELS = 12;
+
+interface PublishingYearsChartProps {
+    decades: FacetCount[];
+    // Where clicking a decade's bar goes, e.g. a search narrowed to that decade
+    getDecadeHref: (decade: FacetCount) => string;
+}
+
+// Bar chart of editions published per decade
+export const PublishingYearsChart: React.FC<PublishingYearsChartProps> = ({ decades, getDecadeHref }) => {
+    const { t, plural } = useLocale();
+    const max = Math.max(...decades.map(decade => decade.count), 1);
+    const labelEvery = Math.ceil(decades.length / MAX_AXIS_LABELS);
+
+    return (
+        <figure>
+            <div className="flex items-end h-40 gap-0.5 border-b border-indigo-100">
+                {decades.map(decade => {
+                    const description = t('chart.decade', { decade: decade.label, editions: plural('results.editions', decade.count) });
+                    return (
+                        <Link
+                            key={decade.value}
+                            href={getDecadeHref(decade)}
+                            title={description}
+                            aria-label={description}
+                            className="flex-1 min-w-[4px] h-full flex items-end group"
+                        >
+                            <span
+                                className="w-full bg-indigo-300 group-hover:bg-indigo-600 rounded-t transition-colors"
+                                // Keep tiny decades visible as a sliver
+                                style={{ height: `${Math.max((decade.count / max) * 100, 1)}%` }}
+                            />
+                        </Link>
+                    );
+                })}
+            </div>
+            <div className="flex gap-0.5 mt-1" aria-hidden="true">
+                {decades.map((decade, index) => (
+                    <span key={decade.value} className="flex-1 min-w-[4px] text-[10px] text-gray-500 whitespace-nowrap overflow-visible">
+                        {index % labelEvery === 0 ? decade.value : ''}
+                    </span>
+                ))}
+            </div>
+            <figcaption className="mt-2 text-xs text-gray-500">{t('chart.caption')}</figcaption>
+        </figure>
+    );
+};
+
+export default PublishingYearsChart;
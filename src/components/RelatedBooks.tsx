@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Book as BookIcon, Eye, Loader2, Sparkles } from 'lucide-react';
+import { AdvancedFilters, Book, RelatedBook } from '@/types/types';
+import { getBookUrl, getDetailsPath } from '@/lib/catalog';
+import { availabilityLabel, AVAILABILITY_MODES } from '@/lib/filters';
+import { fetchRelatedBooks } from '@/lib/searchClient';
+import { isAbortError } from '@/lib/abort';
+import { describeError } from '@/lib/errors';
+import { useLocale } from '@/context/LocaleContext';
+import BookCover from './BookCover';
+
+interface RelatedBooksProps {
+    book: Book;
+    // Opens a suggestion in the preview reader; without it, suggestions only link to their details
+    onPreview?: (book: Book) => void;
+    className?: string;
+}
+
+// Shared subjects shown on a suggestion; the rest only count towards its rank
+const SHOWN_SUBJECTS = 2;
+
+// "More like this": books sharing subjects, author or era with book, readable ones first
+export const RelatedBooks: React.FC<RelatedBooksProps> = ({ book, onPreview, className = '' }) => {
+    const i18n = useLocale();
+    const { t, formatList } = i18n;
+    const [availability, setAvailability] = useState<AdvancedFilters['availability']>('all');
+    // Tagged with the book and mode it is for, so a refreshed copy of the same book keeps its suggestions on screen
+    const [result, setResult] = useState<{ key: string; related?: RelatedBook[]; error?: unknown } | null>(null);
+    const key = `${book.id}:${availability}`;
+
+    useEffect(() => {
+        const controller = new AbortController();
+        fetchRelatedBooks(book, availability, controller.signal)
+            .then(related => setResult({ key, related }))
+            .catch((err: unknown) => {
+                if (isAbortError(err)) return;
+                console.error('Error finding related books:', err);
+                setResult({ key, error: err });
+            });
+        return () => controller.abort();
+    }, [book, availability, key]);
+
+    const current = result?.key === key ? result : null;
+    const related = current?.related || null;
+    const errorNotice = current?.error ? describeError(current.error, i18n) : null;
+
+    return (
+        <section className={`rounded-xl border border-indigo-100 bg-indigo-50/50 p-3 ${className}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h4 className="flex items-center text-sm font-semibold text-indigo-800">
+                    <Sparkles className="w-4 h-4 mr-1" />
+                    {t('related.title')}
+                </h4>
+                <select
+                    value={availability}
+                    onChange={(e) => setAvailability(e.target.value as AdvancedFilters['availability'])}
+                    aria-label={t('filters.availability')}
+                    className="px-2 py-1 text-xs border border-indigo-100 rounded-lg bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                    {AVAILABILITY_MODES.map(mode => (
+                        <option key={mode} value={mode}>{availabilityLabel(mode, i18n)}</option>
+                    ))}
+                </select>
+            </div>
+
+            {errorNotice ? (
+                <div className="text-sm text-red-700">
+                    <p className="font-medium">{errorNotice.message}</p>
+                    <p className="mt-1 text-xs">{errorNotice.action}</p>
+                </div>
+            ) : !related ? (
+                <p role="status" className="flex items-center text-sm text-indigo-700">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {t('related.loading')}
+                </p>
+            ) : related.length === 0 ? (
+                <p className="text-sm text-gray-600">{availability === 'all' ? t('related.empty') : t('related.emptyFiltered')}</p>
+            ) : (
+                <ul className="grid gap-3 sm:grid-cols-2">
+                    {related.map(({ book: suggestion, sharedSubjects, sameAuthor, sameEra }) => {
+                        const detailsPath = getDetailsPath(suggestion);
+                        return (
+                            <li key={suggestion.id} className="flex items-start p-2 rounded-lg bg-white border border-gray-100">
+                                <div className="w-10 h-14 bg-indigo-100 flex-shrink-0 rounded overflow-hidden mr-3 flex items-center justify-center">
+                                    <BookCover
+                                        book={suggestion}
+                                        size="S"
+                                        alt={t('results.cover', { title: suggestion.title })}
+                                        className="w-full h-full object-cover"
+                                        fallback={<BookIcon className="w-5 h-5 text-indigo-400" />}
+                                    />
+                                </div>
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-medium text-indigo-900 line-clamp-2">
+                                        {detailsPath ? (
+                                            <Link href={detailsPath} className="hover:underline">{suggestion.title}</Link>
+                                        ) : (
+                                            <a href={getBookUrl(suggestion)} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                                {suggestion.title}
+                                            </a>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-600 truncate">{suggestion.author} · {suggestion.year}</p>
+                                    <p className="mt-1 text-xs text-gray-500">
+                                        {[
+                                            sameAuthor && t('related.sameAuthor'),
+                                            sharedSubjects.length > 0 && t('related.sharedSubjects', {
+                                                subjects: formatList(sharedSubjects.slice(0, SHOWN_SUBJECTS))
+                                            }),
+                                            sameEra && t('related.sameEra')
+                                        ].filter(Boolean).join(' · ')}
+                                    </p>
+                                    <div className="mt-1 flex flex-wrap items-center gap-1">
+                                        {suggestion.hasFulltext && (
+                                            <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs rounded-lg font-medium">{t('related.fullText')}</span>
+                                        )}
+                                        {!suggestion.hasFulltext && suggestion.readable && (
+                                            <span className="px-2 py-0.5 bg-amber-100 text-amber-700 text-xs rounded-lg font-medium">{t('related.readable')}</span>
+                                        )}
+                                        {suggestion.previewAvailable && suggestion.previewUrl && onPreview && (
+                                            <button
+                                                onClick={() => onPreview(suggestion)}
+                                                aria-label={t('related.previewBook', { title: suggestion.title })}
+                                                className="inline-flex items-center px-2 py-0.5 bg-blue-100 text-blue-700 text-xs rounded-lg hover:bg-blue-200 transition-colors"
+                                            >
+                                                <Eye className="w-3 h-3 mr-1" />
+                                                <span className="font-medium">{t('related.preview')}</span>
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </section>
+    );
+};
+
+export default RelatedBooks;
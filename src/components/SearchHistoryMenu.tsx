@@ -0,0 +1,127 @@
+import React from 'react';
+import { Clock, Pin, X } from 'lucide-react';
+import { AdvancedFilters, SavedSearch, SearchHistoryEntry } from '@/types/types';
+import { describeSearch } from '@/lib/searchHistory';
+import { useLocale } from '@/context/LocaleContext';
+
+interface SearchHistoryMenuProps {
+    history: SearchHistoryEntry[];
+    saved: SavedSearch[];
+    // Books found for saved searches since their last visit, by search key
+    updates: Record<string, number>;
+    // Only searches whose label contains this text are listed
+    filterText: string;
+    onSelect: (query: string, filters: AdvancedFilters) => void;
+    onSave: (entry: SearchHistoryEntry) => void;
+    onRemoveSaved: (key: string) => void;
+    onClearHistory: () => void;
+}
+
+// Saved and recent searches, shown below the search box while it has focus
+export const SearchHistoryMenu: React.FC<SearchHistoryMenuProps> = ({
+    history,
+    saved,
+    updates,
+    filterText,
+    onSelect,
+    onSave,
+    onRemoveSaved,
+    onClearHistory
+}) => {
+    const i18n = useLocale();
+    const { t, formatNumber } = i18n;
+    const matches = (label: string) => label.toLowerCase().includes(filterText.trim().toLowerCase());
+    const savedKeys = new Set(saved.map(search => search.key));
+    const savedItems = saved
+        .map(search => ({ search, label: describeSearch(search.query, search.filters, i18n) }))
+        .filter(item => matches(item.label));
+    const recentItems = history
+        .map(entry => ({ entry, label: describeSearch(entry.query, entry.filters, i18n) }))
+        .filter(item => matches(item.label));
+
+    if (!savedItems.length && !recentItems.length) return null;
+
+    return (
+        <div
+            // Keep focus in the search box so clicking an entry does not close the menu before it registers
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute left-0 right-0 mt-2 bg-white border border-indigo-100 rounded-xl shadow-lg z-20 py-2 text-sm max-h-96 overflow-y-auto"
+        >
+            {savedItems.length > 0 && (
+                <div>
+                    <p className="px-4 py-1 text-xs font-medium text-indigo-700 uppercase tracking-wide">{t('history.saved')}</p>
+                    <ul>
+                        {savedItems.map(({ search, label }) => (
+                            <li key={search.key} className="flex items-center hover:bg-indigo-50">
+                                <button
+                                    type="button"
+                                    onClick={() => onSelect(search.query, search.filters)}
+                                    className="flex-1 flex items-center px-4 py-2 text-left text-gray-700 min-w-0"
+                                >
+                                    <Pin className="w-4 h-4 mr-2 text-indigo-500 flex-shrink-0" />
+                                    <span className="truncate">{label}</span>
+                                    {!!updates[search.key] && (
+                                        <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-medium flex-shrink-0">
+                                            {t('history.new', { count: formatNumber(updates[search.key]) })}
+                                        </span>
+                                    )}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => onRemoveSaved(search.key)}
+                                    title={t('history.remove')}
+                                    aria-label={t('history.removeSearch', { label })}
+                                    className="p-2 mr-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-indigo-100"
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {recentItems.length > 0 && (
+                <div className={savedItems.length > 0 ? 'mt-2 pt-2 border-t border-gray-100' : ''}>
+                    <div className="flex items-center justify-between px-4 py-1">
+                        <p className="text-xs font-medium text-indigo-700 uppercase tracking-wide">{t('history.recent')}</p>
+                        <button
+                            type="button"
+                            onClick={onClearHistory}
+                            className="text-xs text-gray-500 hover:text-indigo-700"
+                        >
+                            {t('history.clear')}
+                        </button>
+                    </div>
+                    <ul>
+                        {recentItems.map(({ entry, label }) => (
+                            <li key={entry.key} className="flex items-center hover:bg-indigo-50">
+                                <button
+                                    type="button"
+                                    onClick={() => onSelect(entry.query, entry.filters)}
+                                    className="flex-1 flex items-center px-4 py-2 text-left text-gray-700 min-w-0"
+                                >
+                                    <Clock className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
+                                    <span className="truncate">{label}</span>
+                                </button>
+                                {!savedKeys.has(entry.key) && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onSave(entry)}
+                                        title={t('history.save')}
+                                        aria-label={t('history.saveSearch', { label })}
+                                        className="p-2 mr-2 text-gray-400 hover:text-indigo-600 rounded-full hover:bg-indigo-100"
+                                    >
+                                        <Pin className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SearchHistoryMenu;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { BookmarkPlus, BookmarkCheck, Trash2, X } from 'lucide-react';
+import { Book, ShelfStatus } from '@/types/types';
+import { shelfLabel, SHELVES } from '@/lib/shelves';
+import { useShelves } from '@/context/ShelvesContext';
+import { useLocale } from '@/context/LocaleContext';
+
+interface ShelfControlsProps {
+    book: Book;
+}
+
+// Add a book to a shelf, or move/remove it once saved
+export const ShelfControls: React.FC<ShelfControlsProps> = ({ book }) => {
+    const { loaded, saveFailure, dismissSaveFailure, getEntry, addToShelf, moveToShelf, removeFromShelf } = useShelves();
+    const i18n = useLocale();
+    const { t } = i18n;
+    const entry = getEntry(book.id);
+
+    if (!loaded) return null;
+
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const status = e.target.value as ShelfStatus;
+        if (entry) {
+            moveToShelf(book.id, status);
+        } else {
+            addToShelf(book, status);
+        }
+    };
+
+    return (
+        <div className="inline-flex items-center">
+            <label
+                className={`inline-flex items-center px-3 py-1.5 text-xs rounded-lg transition-colors ${
+                    entry ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+                }`}
+            >
+                {entry ? <BookmarkCheck className="w-3 h-3 mr-1" /> : <BookmarkPlus className="w-3 h-3 mr-1" />}
+                <select
+                    value={entry?.status || ''}
+                    onChange={handleChange}
+                    className="bg-transparent font-medium focus:outline-none cursor-pointer"
+                    aria-label={t(entry ? 'shelves.move' : 'shelves.save')}
+                >
+                    {!entry && <option value="" disabled>{t('shelves.save')}</option>}
+                    {SHELVES.map(status => (
+                        <option key={status} value={status}>{shelfLabel(status, i18n)}</option>
+                    ))}
+                </select>
+            </label>
+            {entry && (
+                <button
+                    onClick={() => removeFromShelf(book.id)}
+                    className="ml-1 p-1.5 text-gray-500 hover:text-red-600 rounded-lg hover:bg-red-50"
+                    title={t('shelves.remove')}
+                >
+                    <Trash2 className="w-3 h-3" />
+                </button>
+            )}
+            {saveFailure?.bookId === book.id && (
+                <span role="alert" className="ml-2 inline-flex items-center text-xs text-red-600">
+                    {t('shelves.saveFailed')}
+                    <button onClick={dismissSaveFailure} className="ml-1 p-0.5 rounded hover:bg-red-50" aria-label={t('shelves.dismiss')}>
+                        <X className="w-3 h-3" />
+                    </button>
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default ShelfControls;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Book as BookIcon, Library, Loader2, Star, User } from 'lucide-react';
+import { ShelfEntry, ShelfStatus } from '@/types/types';
+import { shelfLabel, SHELVES } from '@/lib/shelves';
+import { getDetailsPath } from '@/lib/catalog';
+import { useShelves } from '@/context/ShelvesContext';
+import { useLocale } from '@/context/LocaleContext';
+import ShelfControls from './ShelfControls';
+import ExportMenu from './ExportMenu';
+import BookCover from './BookCover';
+import PageNav from './PageNav';
+
+interface ShelfEntryCardProps {
+    entry: ShelfEntry;
+}
+
+const ShelfEntryCard: React.FC<ShelfEntryCardProps> = ({ entry }) => {
+    const { updateEntry } = useShelves();
+    const { t, plural, formatDate } = useLocale();
+    const { book } = entry;
+    const detailsPath = getDetailsPath(book);
+
+    return (
+        <div className="p-4 rounded-xl border border-gray-200 bg-white hover:border-indigo-200 hover:shadow-sm flex items-start">
+            <div className="w-12 h-16 bg-indigo-100 flex-shrink-0 rounded overflow-hidden mr-4 flex items-center justify-center">
+                <BookCover
+                    book={book}
+                    size="S"
+                    alt={t('results.cover', { title: book.title })}
+                    className="w-full h-full object-cover"
+                    fallback={<BookIcon className="w-6 h-6 text-indigo-400" />}
+                />
+            </div>
+
+            <div className="flex-1">
+                <h3 className="font-semibold text-indigo-900">
+                    {detailsPath ? <Link href={detailsPath} className="hover:underline">{book.title}</Link> : book.title}
+                </h3>
+                <p className="flex items-center text-sm text-gray-600">
+                    <User className="w-4 h-4 mr-1 text-indigo-500" />
+                    {book.author}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                    {t('shelves.added', { date: formatDate(entry.dateAdded, { dateStyle: 'short' }) })}
+                </p>
+
+                <div className="mt-3 flex flex-wrap items-center gap-4">
+                    <label className="flex items-center text-xs text-gray-600">
+                        <span className="mr-2">{t('shelves.progress')}</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            step={5}
+                            value={entry.progress}
+                            onChange={(e) => updateEntry(book.id, { progress: Number(e.target.value) })}
+                            className="accent-indigo-600"
+                        />
+                        <span className="ml-2 w-8 text-right">{entry.progress}%</span>
+                    </label>
+
+                    <div className="flex items-center" aria-label={t('shelves.rating')}>
+                        {[1, 2, 3, 4, 5].map(stars => (
+                            <button
+                                key={stars}
+                                onClick={() => updateEntry(book.id, { rating: entry.rating === stars ? null : stars })}
+                                title={plural('shelves.stars', stars)}
+                                className="p-0.5"
+                            >
+                                <Star
+                                    className={`w-4 h-4 ${entry.rating && stars <= entry.rating ? 'text-amber-500 fill-amber-400' : 'text-gray-300'}`}
+                                />
+                            </button>
+                        ))}
+                    </div>
+
+                    <ShelfControls book={book} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const Shelves: React.FC = () => {
+    const { entries, loaded } = useShelves();
+    const i18n = useLocale();
+    const { t, rich } = i18n;
+    const [activeShelf, setActiveShelf] = useState<ShelfStatus>('want-to-read');
+    const shelfEntries = entries.filter(entry => entry.status === activeShelf);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-sky-50 p-6">
+            <div className="max-w-5xl mx-auto">
+                <PageNav />
+
+                <div className="bg-white backdrop-blur-lg bg-opacity-90 p-8 rounded-2xl shadow-lg border border-indigo-100">
+                    <h2 className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-blue-500 bg-clip-text text-transparent flex items-center mb-6">
+                        <Library className="w-6 h-6 mr-2 text-indigo-600" />
+                        {t('nav.shelves')}
+                    </h2>
+
+                    <div className="flex flex-wrap items-center gap-2 mb-6">
+                        {SHELVES.map(status => (
+                            <button
+                                key={status}
+                                onClick={() => setActiveShelf(status)}
+                                className={`px-4 py-2 rounded-full text-sm transition-colors ${
+                                    activeShelf === status
+                                        ? 'bg-indigo-600 text-white'
+                                        : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+                                }`}
+                            >
+                                {shelfLabel(status, i18n)} ({entries.filter(entry => entry.status === status).length})
+                            </button>
+                        ))}
+                        <div className="ml-auto">
+                            <ExportMenu books={shelfEntries.map(entry => entry.book)} label={t('export.shelf')} />
+                        </div>
+                    </div>
+
+                    {!loaded && (
+                        <div className="flex justify-center items-center py-12">
+                            <Loader2 className="w-10 h-10 text-indigo-600 animate-spin" />
+                        </div>
+                    )}
+
+                    {loaded && shelfEntries.length === 0 && (
+                        <div className="text-center py-12 px-6">
+                            <p className="text-gray-600">
+                                {rich('shelves.empty', { action: <span className="font-medium">{t('shelves.save')}</span> })}
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="space-y-4">
+                        {shelfEntries.map(entry => (
+                            <ShelfEntryCard key={entry.book.id} entry={entry} />
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default Shelves;
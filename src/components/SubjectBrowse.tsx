@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Book as BookIcon, Calendar, Compass, Eye, Globe, Loader2, Search, Tag, Users } from 'lucide-react';
+import { Book, SubjectPage } from '@/types/types';
+import { getAuthorPath, getDetailsPath, getEmbeddedPreviewUrl, getSubjectPath } from '@/lib/catalog';
+import { checkPreviewsInBatches } from '@/lib/searchClient';
+import { DEFAULT_FILTERS } from '@/lib/filters';
+import { applyFacet } from '@/lib/facets';
+import { toSearchParams } from '@/lib/searchParams';
+import { subjectTitle } from '@/lib/subjects';
+import { useLocale } from '@/context/LocaleContext';
+import BookPreviewModal from './BookPreviewModal';
+import BookCover from './BookCover';
+import AuthorLinks from './AuthorLinks';
+import ShelfControls from './ShelfControls';
+import PublishingYearsChart from './PublishingYearsChart';
+import PageNav from './PageNav';
+
+interface SubjectBrowseProps {
+    page: SubjectPage;
+}
+
+// A subject's best-known works with related subjects, its most prolific authors and when it was published
+export const SubjectBrowse: React.FC<SubjectBrowseProps> = ({ page }) => {
+    const { t, plural, formatNumber } = useLocale();
+    const [works, setWorks] = useState<Book[]>(page.works);
+    const [previewBook, setPreviewBook] = useState<Book | null>(null);
+    const title = subjectTitle(page.name);
+    const subjectFilters = { ...DEFAULT_FILTERS, subject: page.name };
+
+    // Works arrive from the server before their previews were checked; fill them in batch by batch
+    useEffect(() => {
+        setWorks(page.works);
+        const controller = new AbortController();
+
+        checkPreviewsInBatches(page.works, resolved => {
+            const byId = new Map(resolved.map(book => [book.id, book]));
+            setWorks(prev => prev.map(book => byId.get(book.id) || book));
+        }, controller.signal);
+
+        return () => controller.abort();
+    }, [page.works]);
+
+    const searchHref = (filters = subjectFilters): string =>
+        `/?${new URLSearchParams(toSearchParams({ query: '', filters, page: 1 })).toString()}`;
+
+    const fulltextCount = works.filter(book => book.hasFulltext).length;
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-sky-50 p-6">
+            <div className="max-w-6xl mx-auto">
+                <PageNav>
+                    <Link href="/subjects" className="inline-flex items-center text-indigo-700 hover:text-indigo-900">
+                        <Compass className="w-4 h-4 mr-1" />
+                        {t('subject.all')}
+                    </Link>
+                </PageNav>
+
+                <div className="bg-white backdrop-blur-lg bg-opacity-90 p-8 rounded-2xl shadow-lg border border-indigo-100">
+                    {/* Subject Header */}
+                    <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                        <div>
+                            <h1 className="text-3xl font-bold text-indigo-900 flex items-center">
+                                <Tag className="w-6 h-6 mr-2 text-indigo-500" />
+                                {title}
+                            </h1>
+                            <p className="mt-1 text-sm text-indigo-700">
+                                {plural('suggestions.works', page.workCount)}
+                                {page.workCount > works.length && ` · ${t('subject.mostReadShown', { count: formatNumber(works.length) })}`}
+                                {' · '}{t('subject.fulltextCount', { count: formatNumber(fulltextCount) })}
+                            </p>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <Link
+                                href={searchHref()}
+                                className="inline-flex items-center px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors"
+                            >
+                                <Search className="w-4 h-4 mr-1" />
+                                <span className="font-medium">{t('subject.searchAll')}</span>
+                            </Link>
+                            <a
+                                href={`https://openlibrary.org/subjects/${page.slug}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                <Globe className="w-4 h-4 mr-1" />
+                                <span className="font-medium">{t('nav.openLibrary')}</span>
+                            </a>
+                        </div>
+                    </div>
+
+                    {/* Publishing Years */}
+                    {page.publishingDecades.length > 1 && (
+                        <section className="mt-8">
+                            <h2 className="text-lg font-medium text-indigo-800 mb-2">{t('subject.publishingYears')}</h2>
+                            <PublishingYearsChart
+                                decades={page.publishingDecades}
+                                getDecadeHref={decade => searchHref(applyFacet(subjectFilters, 'decades', decade.value))}
+                            />
+                        </section>
+                    )}
+
+                    <div className="mt-8 flex flex-col md:flex-row gap-8">
+                        {/* Works */}
+                        <section className="flex-1 min-w-0">
+                            <h2 className="text-lg font-medium text-indigo-800 mb-4">{t('author.works')}</h2>
+                            <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                                {works.map(book => {
+                                    const detailsPath = getDetailsPath(book);
+                                    return (
+                                        <li key={book.id} className="flex flex-col">
+                                            <div className="aspect-[2/3] bg-indigo-100 rounded-md overflow-hidden flex items-center justify-center">
+                                                <BookCover
+                                                    book={book}
+                                                    size="M"
+                                                    alt={t('results.cover', { title: book.title })}
+                                                    className="w-full h-full object-cover"
+                                                    fallback={<BookIcon className="w-10 h-10 text-indigo-400" />}
+                                                />
+                                            </div>
+                                            <h3 className="mt-2 text-sm font-semibold text-indigo-900 line-clamp-2">
+                                                {detailsPath ? <Link href={detailsPath} className="hover:underline">{book.title}</Link> : book.title}
+                                            </h3>
+                                            <p className="text-xs text-gray-600 truncate">
+                                                <AuthorLinks book={book} />
+                                            </p>
+                                            <p className="mt-0.5 flex items-center text-xs text-gray-500">
+                                                <Calendar className="w-3 h-3 mr-1 text-indigo-500" />
+                                                {book.year}
+                                            </p>
+                                            <div className="mt-2 flex flex-wrap items-center gap-2">
+                                                {book.hasFulltext && (
+                                                    <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-lg font-medium">{t('related.fullText')}</span>
+                                                )}
+                                                {book.previewStatus === 'checking' && (
+                                                    <span className="inline-flex items-center px-2 py-1 bg-gray-50 text-gray-500 text-xs rounded-lg">
+                                                        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                                        {t('subject.checking')}
+                                                    </span>
+                                                )}
+                                                {book.previewAvailable && book.previewUrl && (
+                                                    <button
+                                                        onClick={() => setPreviewBook(book)}
+                                                        className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-lg hover:bg-blue-200 transition-colors"
+                                                    >
+                                                        <Eye className="w-3 h-3 mr-1" />
+                                                        <span className="font-medium">{t('results.preview')}</span>
+                                                    </button>
+                                                )}
+                                                <ShelfControls book={book} />
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+
+                        <aside className="md:w-64 flex-shrink-0 space-y-6">
+                            {/* Related Subjects */}
+                            {page.relatedSubjects.length > 0 && (
+                                <div>
+                                    <h2 className="text-xs font-medium uppercase tracking-wide text-indigo-600 mb-2">{t('subject.related')}</h2>
+                                    <div className="flex flex-wrap gap-2">
+                                        {page.relatedSubjects.map(subject => (
+                                            <Link
+                                                key={subject.value}
+                                                href={getSubjectPath(subject.value) ?? '/subjects'}
+                                                className="px-3 py-1 bg-indigo-50 text-indigo-700 text-xs rounded-full hover:bg-indigo-100 transition-colors"
+                                            >
+                                                {subject.label}
+                                            </Link>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Prolific Authors */}
+                            {page.authors.length > 0 && (
+                                <div>
+                                    <h2 className="flex items-center text-xs font-medium uppercase tracking-wide text-indigo-600 mb-2">
+                                        <Users className="w-3 h-3 mr-1" />
+                                        {t('subject.prolificAuthors')}
+                                    </h2>
+                                    <ul className="space-y-1">
+                                        {page.authors.map(author => {
+                                            const path = getAuthorPath(author.value);
+                                            return (
+                                                <li key={author.value} className="flex items-center justify-between px-2 py-1 text-sm">
+                                                    {path ? (
+                                                        <Link href={path} className="truncate mr-2 text-gray-700 hover:text-indigo-700 hover:underline">
+                                                            {author.label}
+                                                        </Link>
+                                                    ) : (
+                                                        <span className="truncate mr-2 text-gray-700">{author.label}</span>
+                                                    )}
+                                                    <span className="text-xs text-gray-400">{formatNumber(author.count)}</span>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </div>
+                            )}
+                        </aside>
+                    </div>
+                </div>
+            </div>
+            {previewBook && (
+                <BookPreviewModal
+                    previewBook={previewBook}
+                    showPreview={true}
+                    closePreview={() => setPreviewBook(null)}
+                    getEmbeddedPreviewUrl={(book) => getEmbeddedPreviewUrl(book)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default SubjectBrowse;
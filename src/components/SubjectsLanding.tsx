@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowRight, Compass, Library, Tag } from 'lucide-react';
+import { CURATED_COLLECTIONS, FEATURED_SUBJECTS } from '@/config/collections';
+import { getSubjectPath } from '@/lib/catalog';
+import { getActiveFilterChips } from '@/lib/filters';
+import { toSearchParams } from '@/lib/searchParams';
+import { collectionSearch } from '@/lib/subjects';
+import { useLocale } from '@/context/LocaleContext';
+import AutocompleteInput from './AutocompleteInput';
+import PageNav from './PageNav';
+
+// Entry points for browsing: curated collections that open a ready-made search, and subject pages
+export const SubjectsLanding: React.FC = () => {
+    const i18n = useLocale();
+    const { t } = i18n;
+    const [subject, setSubject] = useState<string>('');
+    const router = useRouter();
+
+    const openSubject = (value: string) => {
+        const path = getSubjectPath(value);
+        if (path) router.push(path);
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-sky-50 p-6">
+            <div className="max-w-6xl mx-auto">
+                <PageNav />
+
+                <div className="bg-white backdrop-blur-lg bg-opacity-90 p-8 rounded-2xl shadow-lg border border-indigo-100">
+                    <h1 className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-blue-500 bg-clip-text text-transparent flex items-center">
+                        <Compass className="w-6 h-6 mr-2 text-indigo-600" />
+                        {t('nav.browse')}
+                    </h1>
+
+                    {/* Curated Collections */}
+                    <section className="mt-8">
+                        <h2 className="flex items-center text-lg font-medium text-indigo-800 mb-4">
+                            <Library className="w-5 h-5 mr-2 text-indigo-500" />
+                            {t('browse.collections')}
+                        </h2>
+                        <ul className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                            {CURATED_COLLECTIONS.map(collection => {
+                                const search = collectionSearch(collection);
+                                return (
+                                    <li key={collection.id}>
+                                        <Link
+                                            href={{ pathname: '/', query: toSearchParams(search) }}
+                                            className="h-full flex flex-col p-4 bg-indigo-50 rounded-xl border border-indigo-100 hover:bg-indigo-100 hover:border-indigo-200 transition-colors group"
+                                        >
+                                            <span className="font-semibold text-indigo-900 flex items-center justify-between">
+                                                {collection.title}
+                                                <ArrowRight className="w-4 h-4 text-indigo-400 group-hover:text-indigo-700 transition-colors" />
+                                            </span>
+                                            <span className="mt-1 text-sm text-gray-600 flex-1">{collection.description}</span>
+                                            <span className="mt-3 flex flex-wrap gap-1">
+                                                {getActiveFilterChips(search.filters, i18n).map(chip => (
+                                                    <span key={chip.key} className="px-2 py-0.5 bg-white text-indigo-700 text-xs rounded-full">
+                                                        {chip.label}
+                                                    </span>
+                                                ))}
+                                            </span>
+                                        </Link>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </section>
+
+                    {/* Subjects */}
+                    <section className="mt-10">
+                        <h2 className="flex items-center text-lg font-medium text-indigo-800 mb-4">
+                            <Tag className="w-5 h-5 mr-2 text-indigo-500" />
+                            {t('facets.subjects')}
+                        </h2>
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                openSubject(subject);
+                            }}
+                            className="relative max-w-md mb-4"
+                        >
+                            <AutocompleteInput
+                                suggestionType="subject"
+                                value={subject}
+                                onChange={(e) => setSubject(e.target.value)}
+                                onSelectSuggestion={openSubject}
+                                placeholder={t('browse.subjectPlaceholder')}
+                                aria-label={t('filters.subject')}
+                                className="w-full px-4 py-2 rounded-lg border border-indigo-200 focus:outline-none focus:ring-2 focus:ring-indigo-300 text-sm"
+                            />
+                        </form>
+                        <div className="flex flex-wrap gap-2">
+                            {FEATURED_SUBJECTS.map(featured => (
+                                <Link
+                                    key={featured.slug}
+                                    href={getSubjectPath(featured.slug) ?? '/subjects'}
+                                    className="px-4 py-2 bg-indigo-50 rounded-full text-sm text-indigo-700 hover:bg-indigo-100 transition-colors"
+                                >
+                                    {featured.name}
+                                </Link>
+                            ))}
+                        </div>
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SubjectsLanding;
@@ -0,0 +1,78 @@
+import { CuratedCollection } from '@/types/types';
+
+// Ready-made searches on the /subjects landing page. Filters are merged over DEFAULT_FILTERS,
+// so a collection only lists what it narrows; the values go through the same validation as typed filters.
+export const CURATED_COLLECTIONS: CuratedCollection[] = [
+    {
+        id: 'public-domain-classics',
+        title: 'Public domain classics',
+        description: 'Literature first published before 1928, readable in full.',
+        query: '',
+        filters: { subject: 'classic literature', yearTo: '1927', availability: 'fulltext' }
+    },
+    {
+        id: 'golden-age-science-fiction',
+        title: 'Golden age science fiction',
+        description: 'Science fiction from the 1930s to the 1950s with a preview.',
+        query: '',
+        filters: { subject: 'science fiction', yearFrom: '1930', yearTo: '1959', availability: 'preview' }
+    },
+    {
+        id: 'victorian-novels',
+        title: 'Victorian novels',
+        description: 'Fiction published during Queen Victoria\'s reign, readable in full.',
+        query: '',
+        filters: { subject: 'fiction', yearFrom: '1837', yearTo: '1901', language: 'eng', availability: 'fulltext' }
+    },
+    {
+        id: 'classic-detective-stories',
+        title: 'Classic detective stories',
+        description: 'Mysteries from before 1940, oldest first.',
+        query: '',
+        filters: { subject: 'detective and mystery stories', yearTo: '1939', sort: 'oldest', availability: 'fulltext' }
+    },
+    {
+        id: 'poetry-to-read-now',
+        title: 'Poetry to read now',
+        description: 'Poetry collections with a preview you can open here.',
+        query: '',
+        filters: { subject: 'poetry', availability: 'preview' }
+    },
+    {
+        id: 'childrens-classics',
+        title: 'Children\'s classics',
+        description: 'Children\'s books published before 1928, readable in full.',
+        query: '',
+        filters: { subject: 'juvenile fiction', yearTo: '1927', availability: 'fulltext' }
+    },
+    {
+        id: 'spanish-literature',
+        title: 'Literatura en español',
+        description: 'Spanish-language fiction with full text.',
+        query: '',
+        filters: { subject: 'fiction', language: 'spa', availability: 'fulltext' }
+    },
+    {
+        id: 'philosophy-classics',
+        title: 'Philosophy classics',
+        description: 'Philosophy from before 1928, readable in full.',
+        query: '',
+        filters: { subject: 'philosophy', yearTo: '1927', availability: 'fulltext' }
+    }
+];
+
+// Subjects linked from the landing page, as Open Library subject slugs
+export const FEATURED_SUBJECTS: { slug: string; name: string }[] = [
+    { slug: 'fantasy', name: 'Fantasy' },
+    { slug: 'science_fiction', name: 'Science Fiction' },
+    { slug: 'mystery_and_detective_stories', name: 'Mystery & Detective' },
+    { slug: 'romance', name: 'Romance' },
+    { slug: 'history', name: 'History' },
+    { slug: 'biography', name: 'Biography' },
+    { slug: 'poetry', name: 'Poetry' },
+    { slug: 'philosophy', name: 'Philosophy' },
+    { slug: 'science', name: 'Science' },
+    { slug: 'art', name: 'Art' },
+    { slug: 'cooking', name: 'Cooking' },
+    { slug: 'juvenile_fiction', name: 'Children\'s Fiction' }
+];
@@ -0,0 +1,64 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { createTranslator, DEFAULT_LOCALE, isLocale, Locale, matchLocale, MessageKey, Translator } from '@/lib/i18n';
+
+const LOCALE_KEY = 'rivel-books:locale';
+
+interface LocaleContextValue extends Translator {
+    setLocale: (locale: Locale) => void;
+    // A message with React elements in place of its placeholders, e.g. a bold count
+    rich: (key: MessageKey, params: Record<string, React.ReactNode>) => React.ReactNode;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+const readStoredLocale = (): Locale | null => {
+    try {
+        const stored = window.localStorage.getItem(LOCALE_KEY);
+        return isLocale(stored) ? stored : null;
+    } catch (err: unknown) {
+        console.error('Error reading the locale:', err);
+        return null;
+    }
+};
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    // Pages render in English on the server; the reader's choice, or else their browser's, applies once running in the browser
+    const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+    useEffect(() => {
+        setLocaleState(readStoredLocale() || matchLocale(navigator.languages || [navigator.language]));
+    }, []);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = useCallback((next: Locale) => {
+        setLocaleState(next);
+        try {
+            window.localStorage.setItem(LOCALE_KEY, next);
+        } catch (err: unknown) {
+            console.error('Error saving the locale:', err);
+        }
+    }, []);
+
+    const value = useMemo<LocaleContextValue>(() => {
+        const translator = createTranslator(locale);
+        const rich = (key: MessageKey, params: Record<string, React.ReactNode>): React.ReactNode =>
+            translator.template(key).split(/\{(\w+)\}/).map((part, index) =>
+                // Odd parts are the placeholder names captured by the split
+                <React.Fragment key={index}>{index % 2 === 1 ? params[part] ?? `{${part}}` : part}</React.Fragment>
+            );
+        return { ...translator, setLocale, rich };
+    }, [locale, setLocale]);
+
+    return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useLocale = (): LocaleContextValue => {
+    const context = useContext(LocaleContext);
+    if (!context) {
+        throw new Error('useLocale must be used inside a LocaleProvider');
+    }
+    return context;
+};
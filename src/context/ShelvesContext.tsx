@@ -0,0 +1,114 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Book, ShelfEntry, ShelfStatus } from '@/types/types';
+import { createLocalShelfStore, createShelfEntry, ShelfStore } from '@/lib/shelves';
+
+// A change the store refused to save (e.g. storage full or disabled); it has been undone
+export type ShelfSaveFailure = {
+    bookId: string;
+    error: unknown;
+};
+
+interface ShelvesContextValue {
+    entries: ShelfEntry[];
+    loaded: boolean;
+    saveFailure: ShelfSaveFailure | null;
+    dismissSaveFailure: () => void;
+    getEntry: (bookId: string) => ShelfEntry | undefined;
+    addToShelf: (book: Book, status: ShelfStatus) => Promise<void>;
+    moveToShelf: (bookId: string, status: ShelfStatus) => Promise<void>;
+    updateEntry: (bookId: string, changes: Partial<Pick<ShelfEntry, 'progress' | 'rating'>>) => Promise<void>;
+    removeFromShelf: (bookId: string) => Promise<void>;
+}
+
+const ShelvesContext = createContext<ShelvesContextValue | null>(null);
+
+interface ShelvesProviderProps {
+    children: React.ReactNode;
+    // Defaults to the localStorage store once running in the browser
+    store?: ShelfStore;
+}
+
+export const ShelvesProvider: React.FC<ShelvesProviderProps> = ({ children, store }) => {
+    const [entries, setEntries] = useState<ShelfEntry[]>([]);
+    const [loaded, setLoaded] = useState<boolean>(false);
+    const [saveFailure, setSaveFailure] = useState<ShelfSaveFailure | null>(null);
+    const storeRef = useRef<ShelfStore | null>(store || null);
+
+    useEffect(() => {
+        if (!storeRef.current) {
+            storeRef.current = createLocalShelfStore();
+        }
+        storeRef.current.list()
+            .then(setEntries)
+            .catch((err: unknown) => console.error('Error loading shelves:', err))
+            .finally(() => setLoaded(true));
+    }, []);
+
+    // Changes show straight away; one the store refuses is undone by reloading what it last saved, and reported
+    const persist = useCallback(async (bookId: string, write: (store: ShelfStore) => Promise<void>) => {
+        const shelfStore = storeRef.current;
+        if (!shelfStore) return;
+        try {
+            await write(shelfStore);
+            setSaveFailure(failure => (failure?.bookId === bookId ? null : failure));
+        } catch (err: unknown) {
+            console.error('Error saving shelves:', err);
+            setSaveFailure({ bookId, error: err });
+            await shelfStore.list()
+                .then(setEntries)
+                .catch((listErr: unknown) => console.error('Error loading shelves:', listErr));
+        }
+    }, []);
+
+    const dismissSaveFailure = useCallback(() => setSaveFailure(null), []);
+
+    const saveEntry = useCallback(async (entry: ShelfEntry) => {
+        setEntries(prev => prev.some(item => item.book.id === entry.book.id)
+            ? prev.map(item => (item.book.id === entry.book.id ? entry : item))
+            : [entry, ...prev]);
+        await persist(entry.book.id, shelfStore => shelfStore.save(entry));
+    }, [persist]);
+
+    const getEntry = useCallback(
+        (bookId: string) => entries.find(entry => entry.book.id === bookId),
+        [entries]
+    );
+
+    const addToShelf = useCallback(
+        (book: Book, status: ShelfStatus) => saveEntry(createShelfEntry(book, status)),
+        [saveEntry]
+    );
+
+    const moveToShelf = useCallback(async (bookId: string, status: ShelfStatus) => {
+        const entry = getEntry(bookId);
+        if (!entry) return;
+        await saveEntry({ ...entry, status, progress: status === 'finished' ? 100 : entry.progress });
+    }, [getEntry, saveEntry]);
+
+    const updateEntry = useCallback(async (bookId: string, changes: Partial<Pick<ShelfEntry, 'progress' | 'rating'>>) => {
+        const entry = getEntry(bookId);
+        if (!entry) return;
+        await saveEntry({ ...entry, ...changes });
+    }, [getEntry, saveEntry]);
+
+    const removeFromShelf = useCallback(async (bookId: string) => {
+        setEntries(prev => prev.filter(entry => entry.book.id !== bookId));
+        await persist(bookId, shelfStore => shelfStore.remove(bookId));
+    }, [persist]);
+
+    return (
+        <ShelvesContext.Provider
+            value={{ entries, loaded, saveFailure, dismissSaveFailure, getEntry, addToShelf, moveToShelf, updateEntry, removeFromShelf }}
+        >
+            {children}
+        </ShelvesContext.Provider>
+    );
+};
+
+export const useShelves = (): ShelvesContextValue => {
+    const context = useContext(ShelvesContext);
+    if (!context) {
+        throw new Error('useShelves must be used inside a ShelvesProvider');
+    }
+    return context;
+};
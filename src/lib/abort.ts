@@ -0,0 +1,50 @@
+// Helpers for cancelling requests with AbortController
+import type { ServerResponse } from 'http';
+
+export const abortError = (): Error => {
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
+};
+
+export const isAbortError = (err: unknown): boolean =>
+    err instanceof Error && err.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw abortError();
+};
+
+// Reject as soon as the signal aborts, without cancelling the promise itself
+export const withAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(abortError());
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            err => {
+                signal.removeEventListener('abort', onAbort);
+                reject(err);
+            }
+        );
+    });
+};
+
+// Wait for ms milliseconds; rejects with an AbortError as soon as the signal aborts
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+    withAbort(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+// A signal that aborts when the client disconnects before the response is sent, e.g. because it started a
+// newer request; API routes pass it on so the upstream work stops too
+export const abortOnClose = (res: ServerResponse): AbortSignal => {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    return controller.signal;
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { BarcodeImage, decodeEan13, isIsbnBarcode } from './barcode';
+
+// Sample barcode images drawn the way a printer would: EAN-13 modules as black bars on white paper
+
+const L_WIDTHS = [
+    [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+    [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+];
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'GLLLGL', 'GLGLLG', 'GLGGLL'];
+
+// Alternating runs of widths, the first one dark or light, as 1 (bar) and 0 (space) modules
+const runs = (widths: number[], firstDark: boolean): string =>
+    widths.map((width, index) => ((index % 2 === 0) === firstDark ? '1' : '0').repeat(width)).join('');
+
+// The 95 modules of a 13-digit code
+const ean13Modules = (code: string): string => {
+    const digits = code.split('').map(Number);
+    const left = digits.slice(1, 7).map((digit, index) =>
+        PARITY[digits[0]][index] === 'L' ? runs(L_WIDTHS[digit], false) : runs([...L_WIDTHS[digit]].reverse(), false));
+    const right = digits.slice(7).map(digit => runs(L_WIDTHS[digit], true));
+    return `101${left.join('')}01010${right.join('')}101`;
+};
+
+type SampleOptions = {
+    // Pixels per module
+    scale?: number;
+    height?: number;
+    rotate?: 0 | 90 | 180;
+    // Up to this much is added to or taken from each pixel, like sensor noise in a camera frame
+    noise?: number;
+};
+
+const drawBarcode = (code: string, { scale = 3, height = 60, rotate = 0, noise = 0 }: SampleOptions = {}): BarcodeImage => {
+    // Ten modules of quiet zone either side
+    const modules = `${'0'.repeat(10)}${ean13Modules(code)}${'0'.repeat(10)}`;
+    const length = Math.round(modules.length * scale);
+    const width = rotate === 90 ? height : length;
+    const imageHeight = rotate === 90 ? length : height;
+    const data = new Uint8ClampedArray(width * imageHeight * 4);
+
+    // A repeatable pseudo-random sequence, so a failing sample fails every run
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+    for (let y = 0; y < imageHeight; y++) {
+        for (let x = 0; x < width; x++) {
+            let along = rotate === 90 ? y : x;
+            if (rotate === 180) along = length - 1 - along;
+            const dark = modules[Math.floor(along / scale)] === '1';
+            const value = (dark ? 20 : 235) + (random() - 0.5) * 2 * noise;
+            const offset = (y * width + x) * 4;
+            data.set([value, value, value, 255], offset);
+        }
+    }
+    return { data, width, height: imageHeight };
+};
+
+describe('decodeEan13', () => {
+    it('reads an ISBN barcode', () => {
+        expect(decodeEan13(drawBarcode('9780441013593'))).toBe('9780441013593');
+    });
+
+    it('reads other first digits, which are only encoded in the parity of the left half', () => {
+        ['9791234567896', '0012345678905', '5012345678900', '4006381333931'].forEach(code => {
+            expect(decodeEan13(drawBarcode(code))).toBe(code);
+        });
+    });
+
+    it('reads barcodes upside down and turned on their side', () => {
+        expect(decodeEan13(drawBarcode('9780441013593', { rotate: 180 }))).toBe('9780441013593');
+        expect(decodeEan13(drawBarcode('9780441013593', { rotate: 90 }))).toBe('9780441013593');
+    });
+
+    it('reads a noisy frame with uneven module widths', () => {
+        expect(decodeEan13(drawBarcode('9780141439518', { scale: 2.5, noise: 30 }))).toBe('9780141439518');
+    });
+
+    it('rejects a symbol whose check digit is wrong', () => {
+        expect(decodeEan13(drawBarcode('9780441013594'))).toBeNull();
+    });
+
+    it('finds nothing on blank paper', () => {
+        const blank = { data: new Uint8ClampedArray(200 * 50 * 4).fill(235), width: 200, height: 50 };
+        expect(decodeEan13(blank)).toBeNull();
+    });
+});
+
+describe('isIsbnBarcode', () => {
+    it('accepts only the 978 and 979 book ranges', () => {
+        expect(isIsbnBarcode('9780441013593')).toBe(true);
+        expect(isIsbnBarcode('9791234567896')).toBe(true);
+        expect(isIsbnBarcode('4006381333931')).toBe(false);
+        expect(isIsbnBarcode('9780441013594')).toBe(false);
+    });
+});
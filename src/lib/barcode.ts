@@ -0,0 +1,156 @@
+import { isValidIsbn } from './isbn';
+
+// Pixels laid out like the browser's ImageData: RGBA, four values per pixel, row by row
+export interface BarcodeImage {
+    data: ArrayLike<number>;
+    width: number;
+    height: number;
+}
+
+// Widths in modules of each digit's L code (space, bar, space, bar). R codes have the same
+// widths starting with a bar, and G codes are the L widths reversed.
+const L_PATTERNS = [
+    [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+    [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+];
+const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// The first digit is not drawn; it is encoded by which of the six left digits use G codes
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'GLLLGL', 'GLGLLG', 'GLGGLL'];
+
+// Start guard (3 runs), six digits (4 each), middle guard (5), six digits, end guard (3)
+const EAN13_RUNS = 59;
+const EAN13_MODULES = 95;
+// Summed difference from the ideal widths, in modules, above which a digit is rejected
+const MAX_DIGIT_ERROR = 1.5;
+// Lines tried across the middle of the image in each direction
+const SCAN_LINES = 15;
+// Lines with less contrast than this (0-255) are blank paper or shadow
+const MIN_CONTRAST = 40;
+
+const luminance = (image: BarcodeImage, x: number, y: number): number => {
+    const offset = (y * image.width + x) * 4;
+    return 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+};
+
+// Bar and space widths along a line of pixels, and whether the first run is dark
+const toRuns = (line: number[]): { runs: number[]; firstDark: boolean } | null => {
+    const min = Math.min(...line);
+    const max = Math.max(...line);
+    if (max - min < MIN_CONTRAST) return null;
+
+    const threshold = (min + max) / 2;
+    const runs: number[] = [];
+    let dark = line[0] < threshold;
+    const firstDark = dark;
+    let width = 0;
+
+    line.forEach(value => {
+        if ((value < threshold) === dark) {
+            width += 1;
+        } else {
+            runs.push(width);
+            dark = !dark;
+            width = 1;
+        }
+    });
+    runs.push(width);
+
+    return { runs, firstDark };
+};
+
+const matchDigit = (widths: number[], patterns: number[][]): { digit: number; error: number } => {
+    const total = widths.reduce((sum, width) => sum + width, 0);
+    return patterns.reduce((best, pattern, digit) => {
+        const error = pattern.reduce((sum, modules, index) => sum + Math.abs(widths[index] * 7 / total - modules), 0);
+        return error < best.error ? { digit, error } : best;
+    }, { digit: -1, error: Infinity });
+};
+
+const isGuard = (widths: number[], moduleWidth: number): boolean =>
+    widths.every(width => width >= moduleWidth * 0.5 && width <= moduleWidth * 1.6);
+
+// Decode the 59 runs starting at a bar, or null when they are not an EAN-13 symbol
+const decodeAt = (runs: number[], start: number): string | null => {
+    const symbol = runs.slice(start, start + EAN13_RUNS);
+    const moduleWidth = symbol.reduce((sum, width) => sum + width, 0) / EAN13_MODULES;
+    if (!isGuard(symbol.slice(0, 3), moduleWidth) || !isGuard(symbol.slice(27, 32), moduleWidth) || !isGuard(symbol.slice(56), moduleWidth)) {
+        return null;
+    }
+
+    let parity = '';
+    let left = '';
+    for (let index = 0; index < 6; index++) {
+        const widths = symbol.slice(3 + index * 4, 7 + index * 4);
+        const l = matchDigit(widths, L_PATTERNS);
+        const g = matchDigit(widths, G_PATTERNS);
+        const best = l.error <= g.error ? l : g;
+        if (best.error > MAX_DIGIT_ERROR) return null;
+        parity += l.error <= g.error ? 'L' : 'G';
+        left += best.digit;
+    }
+
+    let right = '';
+    for (let index = 0; index < 6; index++) {
+        const match = matchDigit(symbol.slice(32 + index * 4, 36 + index * 4), L_PATTERNS);
+        if (match.error > MAX_DIGIT_ERROR) return null;
+        right += match.digit;
+    }
+
+    const first = FIRST_DIGIT_PARITY.indexOf(parity);
+    if (first === -1) return null;
+
+    // EAN-13 and ISBN-13 share their check digit
+    const code = `${first}${left}${right}`;
+    return isValidIsbn(code) ? code : null;
+};
+
+// Look for a symbol along one line, read in both directions so upside-down barcodes decode too
+const decodeLine = (line: number[]): string | null => {
+    const decoded = toRuns(line);
+    if (!decoded) return null;
+
+    const { runs, firstDark } = decoded;
+    const reversed = [...runs].reverse();
+    const lastDark = runs.length % 2 === 1 ? firstDark : !firstDark;
+
+    for (const [candidate, startsDark] of [[runs, firstDark], [reversed, lastDark]] as [number[], boolean][]) {
+        for (let start = startsDark ? 0 : 1; start + EAN13_RUNS <= candidate.length; start += 2) {
+            const code = decodeAt(candidate, start);
+            if (code) return code;
+        }
+    }
+    return null;
+};
+
+const rowAt = (image: BarcodeImage, y: number): number[] =>
+    Array.from({ length: image.width }, (_, x) => luminance(image, x, y));
+
+const columnAt = (image: BarcodeImage, x: number): number[] =>
+    Array.from({ length: image.height }, (_, y) => luminance(image, x, y));
+
+// Read an EAN-13 barcode from an image, scanning rows and then columns across its middle.
+// The code read on the most lines wins; null when no line decodes with a valid check digit.
+export const decodeEan13 = (image: BarcodeImage): string | null => {
+    const votes = new Map<string, number>();
+    const lines = [
+        ...Array.from({ length: SCAN_LINES }, (_, index) =>
+            () => rowAt(image, Math.floor(image.height * (0.1 + 0.8 * index / (SCAN_LINES - 1))))),
+        ...Array.from({ length: SCAN_LINES }, (_, index) =>
+            () => columnAt(image, Math.floor(image.width * (0.1 + 0.8 * index / (SCAN_LINES - 1)))))
+    ];
+
+    lines.forEach(readLine => {
+        const code = decodeLine(readLine());
+        if (code) votes.set(code, (votes.get(code) || 0) + 1);
+    });
+
+    let best: string | null = null;
+    votes.forEach((count, code) => {
+        if (!best || count > votes.get(best)!) best = code;
+    });
+    return best;
+};
+
+// Book barcodes are EAN-13s in the 978/979 "Bookland" ranges; other products share the symbology
+export const isIsbnBarcode = (code: string): boolean => /^97[89]\d{10}$/.test(code) && isValidIsbn(code);
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeOpenLibraryBook, normalizeOpenLibraryEdition, normalizeOpenLibrarySubjectWork } from './bookNormalizer';
+
+describe('normalizeOpenLibraryBook', () => {
+    it('maps a search.json document', () => {
+        const book = normalizeOpenLibraryBook({
+            key: '/works/OL893415W',
+            title: 'Dune',
+            author_name: ['Frank Herbert', 'Brian Herbert'],
+            author_key: ['OL79034A', 'OL2632116A'],
+            first_publish_year: 1965,
+            cover_i: 11481354,
+            cover_edition_key: 'OL26242482M',
+            edition_key: ['OL7353617M', 'OL26242482M'],
+            publisher: ['Ace Books', 'Chilton'],
+            language: ['eng', 'spa'],
+            isbn: ['0441013597', '9780441013593'],
+            oclc: ['42925436'],
+            lccn: ['65022627'],
+            subject: ['Science fiction'],
+            edition_count: 120,
+            ratings_average: 4.2,
+            ratings_count: 300,
+            number_of_pages_median: 604,
+            has_fulltext: true,
+            ia: ['dune00herb', 'dune0000herb']
+        });
+
+        expect(book).toMatchObject({
+            id: '/works/OL893415W',
+            author: 'Frank Herbert',
+            authors: ['Frank Herbert', 'Brian Herbert'],
+            authorIds: ['OL79034A', 'OL2632116A'],
+            year: 1965,
+            coverId: 11481354,
+            publisher: 'Ace Books',
+            languages: ['eng', 'spa'],
+            isbn: '0441013597',
+            isbns: ['0441013597', '9780441013593'],
+            // The cover edition first, without repeating it
+            olids: ['OL26242482M', 'OL7353617M'],
+            editionCount: 120,
+            pageCount: 604,
+            hasFulltext: true,
+            iaIdentifier: 'dune00herb',
+            iaIdentifiers: ['dune00herb', 'dune0000herb'],
+            previewAvailable: false,
+            previewStatus: 'checking',
+            source: 'openlibrary'
+        });
+    });
+
+    it('fills in placeholders for a sparse document', () => {
+        const book = normalizeOpenLibraryBook({ key: '/works/OL1W', title: 'Untitled' });
+
+        expect(book).toMatchObject({
+            author: 'Unknown Author',
+            authors: [],
+            year: 'Unknown Year',
+            coverId: null,
+            publisher: 'Unknown Publisher',
+            languages: [],
+            isbn: null,
+            olids: [],
+            ratingsAverage: null,
+            pageCount: null,
+            hasFulltext: false,
+            iaIdentifier: null
+        });
+    });
+});
+
+describe('normalizeOpenLibraryEdition', () => {
+    it('maps a books API record with an ebook', () => {
+        const book = normalizeOpenLibraryEdition({
+            key: '/books/OL7353617M',
+            title: 'Dune',
+            authors: [{ name: 'Frank Herbert', url: 'https://openlibrary.org/authors/OL79034A/Frank_Herbert' }],
+            publishers: [{ name: 'Ace Books' }],
+            publish_date: 'August 2, 2005',
+            identifiers: { isbn_10: ['0441013597'], isbn_13: ['9780441013593'], openlibrary: ['OL7353617M'] },
+            cover: { medium: 'https://covers.openlibrary.org/b/id/11481354-M.jpg' },
+            subjects: [{ name: 'Science fiction' }],
+            number_of_pages: 528,
+            ebooks: [{
+                preview_url: 'https://archive.org/details/dune00herb',
+                borrow_url: 'https://openlibrary.org/books/OL7353617M/Dune/borrow',
+                availability: 'borrow'
+            }]
+        });
+
+        expect(book).toMatchObject({
+            id: '/books/OL7353617M',
+            authorIds: ['OL79034A'],
+            year: 2005,
+            coverId: 11481354,
+            coverUrl: null,
+            publisher: 'Ace Books',
+            // ISBN-13 first
+            isbn: '9780441013593',
+            isbns: ['9780441013593', '0441013597'],
+            olids: ['OL7353617M'],
+            subjects: ['Science fiction'],
+            pageCount: 528,
+            hasFulltext: false,
+            iaIdentifier: 'dune00herb',
+            previewAvailable: true,
+            previewUrl: 'https://archive.org/details/dune00herb',
+            readUrl: 'https://openlibrary.org/books/OL7353617M/Dune/borrow',
+            readable: true
+        });
+    });
+
+    it('keeps a cover URL it cannot read an id from, and the edition key as its OLID', () => {
+        const book = normalizeOpenLibraryEdition({
+            key: '/books/OL1M',
+            title: 'Pamphlet',
+            publish_date: 'n.d.',
+            cover: { medium: 'https://example.org/cover.jpg' }
+        });
+
+        expect(book).toMatchObject({
+            author: 'Unknown Author',
+            year: 'n.d.',
+            coverId: null,
+            coverUrl: 'https://example.org/cover.jpg',
+            olids: ['OL1M'],
+            previewAvailable: false,
+            readUrl: null,
+            readable: false
+        });
+    });
+});
+
+describe('normalizeOpenLibrarySubjectWork', () => {
+    it('maps a subjects API work', () => {
+        const book = normalizeOpenLibrarySubjectWork({
+            key: '/works/OL52114W',
+            title: 'The Time Machine',
+            authors: [{ key: '/authors/OL13066A', name: 'H. G. Wells' }],
+            first_publish_year: 1895,
+            cover_id: 9009316,
+            cover_edition_key: 'OL24163442M',
+            edition_count: 600,
+            subject: ['Time travel'],
+            has_fulltext: true,
+            ia: 'timemachine00well'
+        });
+
+        expect(book).toMatchObject({
+            id: '/works/OL52114W',
+            author: 'H. G. Wells',
+            authorIds: ['OL13066A'],
+            year: 1895,
+            coverId: 9009316,
+            publisher: 'Unknown Publisher',
+            isbn: null,
+            olids: ['OL24163442M'],
+            subjects: ['Time travel'],
+            editionCount: 600,
+            hasFulltext: true,
+            iaIdentifier: 'timemachine00well',
+            iaIdentifiers: ['timemachine00well'],
+            previewStatus: 'checking'
+        });
+    });
+
+    it('leaves a work without a scan unreadable', () => {
+        const book = normalizeOpenLibrarySubjectWork({ key: '/works/OL2W', title: 'Obscure' });
+
+        expect(book).toMatchObject({ authors: [], year: 'Unknown Year', olids: [], hasFulltext: false, iaIdentifier: null, iaIdentifiers: [] });
+    });
+});
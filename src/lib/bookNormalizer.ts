@@ -0,0 +1,124 @@
+import { Book } from '@/types/types';
+import type { OpenLibraryBook, OpenLibraryBookData, OpenLibrarySubjectWork } from './openLibrarySchemas';
+
+// Open Library ids come as paths or bare keys; keep the bare OL...M id
+const toOlid = (key: string): string => key.replace(/^\/books\//, '');
+
+// Map a search.json document to a Book. Previews are looked up separately, so the book starts out 'checking'.
+export const normalizeOpenLibraryBook = (doc: OpenLibraryBook): Book => {
+    const authors = doc.author_name || [];
+    const isbns = doc.isbn || [];
+    const olids = Array.from(new Set([
+        ...(doc.cover_edition_key ? [doc.cover_edition_key] : []),
+        ...(doc.edition_key || [])
+    ].map(toOlid)));
+
+    return {
+        id: doc.key,
+        title: doc.title,
+        author: authors[0] || 'Unknown Author',
+        authors,
+        authorIds: doc.author_key || [],
+        year: doc.first_publish_year || 'Unknown Year',
+        coverId: doc.cover_i || null,
+        publisher: doc.publisher ? doc.publisher[0] : 'Unknown Publisher',
+        languages: doc.language || [],
+        isbn: isbns[0] || null,
+        isbns,
+        oclc: doc.oclc || [],
+        lccn: doc.lccn || [],
+        olids,
+        subjects: doc.subject || [],
+        editionCount: doc.edition_count || 0,
+        ratingsAverage: doc.ratings_average ?? null,
+        ratingsCount: doc.ratings_count || 0,
+        pageCount: doc.number_of_pages_median ?? null,
+        hasFulltext: doc.has_fulltext === true,
+        iaIdentifier: doc.ia ? doc.ia[0] : null,
+        iaIdentifiers: doc.ia || [],
+        previewAvailable: false,
+        previewUrl: null,
+        readUrl: null,
+        previewStatus: 'checking',
+        source: 'openlibrary'
+    };
+};
+
+// Map a books API edition record (jscmd=data) to a Book. The record carries no languages.
+export const normalizeOpenLibraryEdition = (data: OpenLibraryBookData): Book => {
+    const authors = (data.authors || []).map(author => author.name);
+    const identifiers = data.identifiers || {};
+    const isbns = [...(identifiers.isbn_13 || []), ...(identifiers.isbn_10 || [])];
+    const ebook = data.ebooks?.[0];
+    const iaIdentifier = ebook?.preview_url?.match(/archive\.org\/details\/([^/?#]+)/)?.[1] || null;
+    const coverId = Number(data.cover?.medium?.match(/\/b\/id\/(\d+)-/)?.[1]) || null;
+    const year = data.publish_date?.match(/\d{4}/)?.[0];
+
+    return {
+        id: data.key,
+        title: data.title,
+        author: authors[0] || 'Unknown Author',
+        authors,
+        authorIds: (data.authors || []).map(author => author.url?.match(/\/authors\/(OL\d+A)/)?.[1] || ''),
+        year: year ? Number(year) : data.publish_date || 'Unknown Year',
+        coverId,
+        coverUrl: coverId ? null : data.cover?.medium || null,
+        publisher: data.publishers?.[0]?.name || 'Unknown Publisher',
+        languages: [],
+        isbn: isbns[0] || null,
+        isbns,
+        oclc: identifiers.oclc || [],
+        lccn: identifiers.lccn || [],
+        olids: identifiers.openlibrary || [toOlid(data.key)],
+        subjects: (data.subjects || []).map(subject => subject.name),
+        editionCount: 1,
+        ratingsAverage: null,
+        ratingsCount: 0,
+        pageCount: data.number_of_pages ?? null,
+        hasFulltext: ebook?.availability === 'full',
+        iaIdentifier,
+        iaIdentifiers: iaIdentifier ? [iaIdentifier] : [],
+        previewAvailable: !!ebook?.preview_url,
+        previewUrl: ebook?.preview_url || null,
+        readUrl: ebook?.read_url || ebook?.borrow_url || ebook?.preview_url || null,
+        readable: ebook?.availability === 'full' || ebook?.availability === 'borrow',
+        previewStatus: 'checking',
+        source: 'openlibrary'
+    };
+};
+
+// Map a work listed by the subjects API to a Book. Subject listings carry no ISBNs or languages,
+// so previews resolve through the work's Internet Archive scan.
+export const normalizeOpenLibrarySubjectWork = (work: OpenLibrarySubjectWork): Book => {
+    const authors = (work.authors || []).map(author => author.name);
+
+    return {
+        id: work.key,
+        title: work.title,
+        author: authors[0] || 'Unknown Author',
+        authors,
+        authorIds: (work.authors || []).map(author => author.key.replace(/^\/authors\//, '')),
+        year: work.first_publish_year || 'Unknown Year',
+        coverId: work.cover_id || null,
+        publisher: 'Unknown Publisher',
+        languages: [],
+        isbn: null,
+        isbns: [],
+        oclc: [],
+        lccn: [],
+        olids: work.cover_edition_key ? [toOlid(work.cover_edition_key)] : [],
+        subjects: work.subject || [],
+        editionCount: work.edition_count || 0,
+        ratingsAverage: null,
+        ratingsCount: 0,
+        pageCount: null,
+        hasFulltext: work.has_fulltext === true,
+        iaIdentifier: work.ia || null,
+        iaIdentifiers: work.ia ? [work.ia] : [],
+        previewAvailable: false,
+        previewUrl: null,
+        readUrl: null,
+        previewStatus: 'checking',
+        source: 'openlibrary'
+    };
+};
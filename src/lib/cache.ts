@@ -0,0 +1,162 @@
+// In-memory TTL cache with in-flight de-duplication; works the same in the browser and in API routes
+import { abortError, withAbort } from './abort';
+
+export type CacheStats = {
+    hits: number;
+    misses: number;
+    // Lookups that joined a request already in flight
+    deduped: number;
+    size: number;
+}
+
+interface CacheOptions {
+    // Time to live in milliseconds
+    ttl: number;
+    maxEntries?: number;
+}
+
+interface CacheEntry<T> {
+    promise: Promise<T>;
+    settled: boolean;
+    expires: number;
+    // Set for loads started by getOrLoad, so they can be cancelled once nobody waits for them
+    controller?: AbortController;
+    // Callers waiting with an abort signal
+    consumers: number;
+    // A caller is waiting without a signal, so the load must not be cancelled
+    pinned: boolean;
+}
+
+export interface Cache<T> {
+    get(key: string): Promise<T> | undefined;
+    set(key: string, value: T | Promise<T>): Promise<T>;
+    getOrLoad(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T>;
+    has(key: string): boolean;
+    delete(key: string): void;
+    clear(): void;
+    stats(): CacheStats;
+}
+
+// Kept on globalThis so API routes and pages, which are bundled separately, share one cache per name
+const globalCaches = globalThis as typeof globalThis & { __rivelBooksCaches?: Map<string, Cache<unknown>> };
+const registry = globalCaches.__rivelBooksCaches ?? (globalCaches.__rivelBooksCaches = new Map());
+
+// Create a named cache, or return the one already created under that name
+export const createCache = <T>(name: string, { ttl, maxEntries = 500 }: CacheOptions): Cache<T> => {
+    const existing = registry.get(name);
+    if (existing) return existing as Cache<T>;
+
+    const entries = new Map<string, CacheEntry<T>>();
+    const counters = { hits: 0, misses: 0, deduped: 0 };
+
+    const fresh = (key: string): CacheEntry<T> | undefined => {
+        const entry = entries.get(key);
+        if (!entry) return undefined;
+        if (entry.settled && entry.expires <= Date.now()) {
+            entries.delete(key);
+            return undefined;
+        }
+        return entry;
+    };
+
+    // Look an entry up and count the hit, miss or de-duplicated lookup
+    const lookup = (key: string): CacheEntry<T> | undefined => {
+        const entry = fresh(key);
+        if (!entry) {
+            counters.misses += 1;
+        } else if (entry.settled) {
+            counters.hits += 1;
+        } else {
+            counters.deduped += 1;
+        }
+        return entry;
+    };
+
+    const cache: Cache<T> = {
+        get(key) {
+            return lookup(key)?.promise;
+        },
+
+        set(key, value) {
+            const promise = Promise.resolve(value);
+            const entry: CacheEntry<T> = { promise, settled: false, expires: Infinity, consumers: 0, pinned: false };
+
+            entries.delete(key);
+            entries.set(key, entry);
+            // Evict the oldest entries once over the limit
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+
+            // Failed loads are dropped so the next lookup retries
+            promise.then(
+                () => {
+                    entry.settled = true;
+                    entry.expires = Date.now() + ttl;
+                },
+                () => {
+                    if (entries.get(key) === entry) entries.delete(key);
+                }
+            );
+
+            return promise;
+        },
+
+        // Callers passing a signal stop waiting when it aborts; the shared load is only
+        // cancelled when every caller waiting on it has aborted
+        getOrLoad(key, load, signal) {
+            if (signal?.aborted) return Promise.reject(abortError());
+
+            let entry = lookup(key);
+            if (!entry) {
+                const controller = new AbortController();
+                cache.set(key, load(controller.signal));
+                entry = entries.get(key)!;
+                entry.controller = controller;
+            }
+
+            if (!signal) {
+                entry.pinned = true;
+                return entry.promise;
+            }
+
+            const current = entry;
+            current.consumers += 1;
+            signal.addEventListener('abort', () => {
+                current.consumers -= 1;
+                if (current.consumers === 0 && !current.pinned && !current.settled) {
+                    current.controller?.abort();
+                    if (entries.get(key) === current) entries.delete(key);
+                }
+            }, { once: true });
+
+            return withAbort(current.promise, signal);
+        },
+
+        has(key) {
+            return fresh(key) !== undefined;
+        },
+
+        delete(key) {
+            entries.delete(key);
+        },
+
+        clear() {
+            entries.clear();
+            counters.hits = 0;
+            counters.misses = 0;
+            counters.deduped = 0;
+        },
+
+        stats() {
+            return { ...counters, size: entries.size };
+        }
+    };
+
+    registry.set(name, cache as Cache<unknown>);
+    return cache;
+};
+
+// Stats for every cache created in this runtime, by name
+export const getCacheStats = (): Record<string, CacheStats> =>
+    Object.fromEntries(Array.from(registry.entries()).map(([name, cache]) => [name, cache.stats()]));
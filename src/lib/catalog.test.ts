@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { makeBook } from '@/test/books';
+import { mergeBooks } from './catalog';
+
+describe('mergeBooks', () => {
+    it('keeps the first of two books that share an ISBN other than their first one', () => {
+        const work = makeBook({ id: '/works/OL1W', isbn: '9780441013593', isbns: ['9780441013593', '9780441172719', '0340839937'] });
+        const volume = makeBook({ id: '/volumes/abc', source: 'googlebooks', isbn: '9780340839935', isbns: ['9780340839935'] });
+
+        expect(mergeBooks([[work], [volume]]).map(book => book.id)).toEqual(['/works/OL1W']);
+    });
+
+    it('matches ISBN-10 and ISBN-13 forms of the same number', () => {
+        const work = makeBook({ id: '/works/OL1W', isbn: '0441013597' });
+        const volume = makeBook({ id: '/volumes/abc', source: 'googlebooks', isbn: '9780441013593' });
+
+        expect(mergeBooks([[work], [volume]])).toHaveLength(1);
+    });
+
+    it('borrows the preview of a duplicate when the book kept has none', () => {
+        const work = makeBook({ id: '/works/OL1W', isbns: ['9780441172719', '9780441013593'], readUrl: 'https://openlibrary.org/borrow' });
+        const volume = makeBook({
+            id: '/volumes/abc',
+            source: 'googlebooks',
+            isbns: ['9780441013593'],
+            previewAvailable: true,
+            previewUrl: 'https://books.google.com/books?id=abc',
+            readable: true
+        });
+
+        expect(mergeBooks([[work], [volume]])).toEqual([{
+            ...work,
+            previewAvailable: true,
+            previewUrl: 'https://books.google.com/books?id=abc',
+            readable: true
+        }]);
+    });
+
+    it('keeps books without ISBNs, and books whose ISBNs differ', () => {
+        const books = [
+            makeBook({ id: '/works/OL1W' }),
+            makeBook({ id: '/works/OL2W' }),
+            makeBook({ id: '/works/OL3W', isbns: ['9780441013593'] }),
+            makeBook({ id: '/works/OL4W', isbns: ['9780141439518'] })
+        ];
+
+        expect(mergeBooks([books])).toEqual(books);
+    });
+});
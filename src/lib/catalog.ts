@@ -0,0 +1,272 @@
+import { AdvancedFilters, Book, BookPreview, BookSource, SearchFacets, SearchResponse } from '@/types/types';
+import { googleBooksProvider } from './googleBooks';
+import { throwIfAborted } from './abort';
+import { createCache } from './cache';
+import { mergeFacets } from './facets';
+import { DEFAULT_FILTERS } from './filters';
+import { cleanIsbn, toIsbn13 } from './isbn';
+import { searchCacheKey } from './searchParams';
+import { isSubjectSlug, toSubjectSlug } from './subjects';
+import { openLibraryProvider } from './openLibrary';
+
+// A source of Book records, e.g. Open Library or Google Books
+export interface CatalogProvider {
+    id: BookSource;
+    name: string;
+    search(query: string, filters: AdvancedFilters, page?: number, signal?: AbortSignal): Promise<SearchResponse>;
+    getById(id: string): Promise<Book | null>;
+    getPreview(book: Book): Promise<BookPreview>;
+    // Optional: resolve previews for books it returned with previewStatus 'checking', in as few requests as it can
+    enrichPreviews?(books: Book[], signal?: AbortSignal): Promise<Book[]>;
+    getBookUrl(book: Book): string;
+    // Optional: counts of common subjects, languages, authors and decades for a search
+    getFacets?(query: string, filters: AdvancedFilters, signal?: AbortSignal): Promise<SearchFacets>;
+}
+
+// Registered providers, in merge priority order
+export const catalogProviders: Record<BookSource, CatalogProvider> = {
+    openlibrary: openLibraryProvider,
+    googlebooks: googleBooksProvider
+};
+
+// Providers enabled through CATALOG_PROVIDERS (comma separated ids); Open Library only by default
+export const getEnabledProviders = (): CatalogProvider[] => {
+    const ids = (process.env.CATALOG_PROVIDERS || 'openlibrary')
+        .split(',')
+        .map(id => id.trim());
+    return (Object.keys(catalogProviders) as BookSource[])
+        .filter(id => ids.includes(id))
+        .map(id => catalogProviders[id]);
+};
+
+export const getProvider = (source: BookSource): CatalogProvider => catalogProviders[source];
+
+// Books posted back to the API by clients; enough of a Book to route it to its provider
+export const isCatalogBook = (value: unknown): value is Book => {
+    const book = value as Book;
+    return !!book && typeof book.id === 'string' && typeof book.title === 'string'
+        && Array.isArray(book.languages) && book.source in catalogProviders;
+};
+
+// Sort order alone is not something to search for
+export const hasSearchCriteria = (query: string, filters: AdvancedFilters): boolean =>
+    !!query || (Object.keys(DEFAULT_FILTERS) as (keyof AdvancedFilters)[])
+        .some(key => key !== 'sort' && filters[key] !== DEFAULT_FILTERS[key]);
+
+// Every ISBN a book lists, as ISBN-13 so the two forms of one number match
+const isbnKeys = (book: Book): string[] =>
+    Array.from(new Set([book.isbn, ...(book.isbns || [])].filter((isbn): isbn is string => !!isbn).map(toIsbn13)));
+
+// Merge result lists, keeping the first book seen for any ISBN they share and borrowing preview links from duplicates
+export const mergeBooks = (lists: Book[][]): Book[] => {
+    const merged: Book[] = [];
+    const byIsbn = new Map<string, number>();
+
+    for (const book of lists.flat()) {
+        const keys = isbnKeys(book);
+        const existingIndex = keys.map(key => byIsbn.get(key)).find(index => index !== undefined);
+
+        if (existingIndex === undefined) {
+            keys.forEach(key => byIsbn.set(key, merged.length));
+            merged.push(book);
+            continue;
+        }
+
+        // A later book may share an ISBN with this duplicate but not with the book kept
+        keys.forEach(key => {
+            if (!byIsbn.has(key)) byIsbn.set(key, existingIndex);
+        });
+
+        const existing = merged[existingIndex];
+        if (!existing.previewAvailable && book.previewAvailable) {
+            merged[existingIndex] = {
+                ...existing,
+                previewAvailable: true,
+                previewUrl: book.previewUrl,
+                readUrl: existing.readUrl || book.readUrl,
+                readable: existing.readable || book.readable
+            };
+        }
+    }
+
+    return merged;
+};
+
+// Facets from every enabled provider that supports them; null when none could be loaded
+export const getCatalogFacets = async (query: string, filters: AdvancedFilters, signal?: AbortSignal): Promise<SearchFacets | null> => {
+    const providers = getEnabledProviders().filter(provider => provider.getFacets);
+    const settled = await Promise.allSettled(providers.map(provider => provider.getFacets!(query, filters, signal)));
+    throwIfAborted(signal);
+
+    const facets: SearchFacets[] = [];
+    settled.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            facets.push(result.value);
+        } else {
+            console.error(`Error loading facets from ${providers[index].name}:`, result.reason);
+        }
+    });
+
+    return facets.length > 0 ? mergeFacets(facets) : null;
+};
+
+// Resolve previews for the books still being checked, one batched lookup per provider
+export const enrichPreviews = async (books: Book[], signal?: AbortSignal): Promise<Book[]> => {
+    const resolved = new Map<string, Book>();
+
+    await Promise.all((Object.keys(catalogProviders) as BookSource[]).map(async source => {
+        const provider = catalogProviders[source];
+        const pending = books.filter(book => book.source === source && book.previewStatus === 'checking');
+        if (!provider.enrichPreviews || pending.length === 0) return;
+
+        const enriched = await provider.enrichPreviews(pending, signal);
+        enriched.forEach(book => resolved.set(book.id, book));
+    }));
+
+    return books.map(book => resolved.get(book.id) || book);
+};
+
+// 'inline' resolves previews before responding; 'deferred' leaves books marked 'checking' for the client
+export type PreviewMode = 'inline' | 'deferred';
+
+export const PREVIEW_MODES: PreviewMode[] = ['inline', 'deferred'];
+
+const SEARCH_CACHE_TTL = 5 * 60 * 1000;
+
+const searchCache = createCache<SearchResponse>('search', { ttl: SEARCH_CACHE_TTL });
+
+// Search every enabled provider; a failing provider is skipped unless all of them fail.
+// The first page also carries facets for the whole search. Previews are not resolved here.
+const runSearch = async (query: string, filters: AdvancedFilters, page: number, signal?: AbortSignal): Promise<SearchResponse> => {
+    const providers = getEnabledProviders();
+    const [settled, facets] = await Promise.all([
+        Promise.allSettled(providers.map(provider => provider.search(query, filters, page, signal))),
+        page === 1 ? getCatalogFacets(query, filters, signal) : Promise.resolve(null)
+    ]);
+    throwIfAborted(signal);
+
+    const responses: SearchResponse[] = [];
+    const failures: unknown[] = [];
+    settled.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            responses.push(result.value);
+        } else {
+            failures.push(result.reason);
+            console.error(`Error searching ${providers[index].name}:`, result.reason);
+        }
+    });
+
+    // Keep the first provider's error, so the reader learns whether to retry, wait or rephrase
+    if (responses.length === 0) {
+        throw failures[0] ?? new Error('Failed to fetch search results');
+    }
+
+    const total = responses.reduce((sum, response) => sum + response.books.length, 0);
+    const books = mergeBooks(responses.map(response => response.books));
+
+    return {
+        numFound: responses.reduce((sum, response) => sum + response.numFound, 0),
+        start: responses[0].start,
+        books,
+        // Duplicates dropped from this page are counted like filtered books so totals are not inflated
+        filtered: responses.reduce((sum, response) => sum + response.filtered, 0) + (total - books.length),
+        hasMore: responses.some(response => response.hasMore),
+        ...(facets ? { facets } : {})
+    };
+};
+
+// Cached, de-duplicated catalog search; the upstream requests are cancelled once every caller has aborted.
+// Preview lookups are cached on their own, so both preview modes share the cached search.
+export const searchCatalog = async (
+    query: string,
+    filters: AdvancedFilters,
+    page: number = 1,
+    signal?: AbortSignal,
+    previews: PreviewMode = 'inline'
+): Promise<SearchResponse> => {
+    const results = await searchCache.getOrLoad(
+        searchCacheKey(query, filters, page),
+        loadSignal => runSearch(query, filters, page, loadSignal),
+        signal
+    );
+
+    // Filtering on preview availability needs the previews, so they are resolved inline for it
+    if (previews === 'deferred' && filters.availability !== 'preview') return results;
+
+    const enriched = await enrichPreviews(results.books, signal);
+    const books = filters.availability === 'preview' ? enriched.filter(book => book.previewAvailable) : enriched;
+
+    return {
+        ...results,
+        books,
+        filtered: results.filtered + (enriched.length - books.length)
+    };
+};
+
+export const isSearchCached = (query: string, filters: AdvancedFilters, page: number = 1): boolean =>
+    searchCache.has(searchCacheKey(query, filters, page));
+
+export const getBookUrl = (book: Book): string => getProvider(book.source).getBookUrl(book);
+
+export type CoverSize = 'S' | 'M' | 'L';
+
+// Cover images to try in order: the Open Library cover id, a provider supplied URL, then covers looked up
+// by edition OLID and ISBN. default=false makes those lookups fail instead of returning a blank image.
+export const getCoverUrls = (book: Book, size: CoverSize): string[] => {
+    const urls: string[] = [];
+    if (book.coverId) urls.push(`https://covers.openlibrary.org/b/id/${book.coverId}-${size}.jpg`);
+    if (book.coverUrl) urls.push(book.coverUrl);
+    if (book.olids?.length) urls.push(`https://covers.openlibrary.org/b/olid/${book.olids[0]}-${size}.jpg?default=false`);
+    if (book.isbn) urls.push(`https://covers.openlibrary.org/b/isbn/${cleanIsbn(book.isbn)}-${size}.jpg?default=false`);
+    return urls;
+};
+
+export const getCoverUrl = (book: Book, size: CoverSize): string | null => getCoverUrls(book, size)[0] || null;
+
+// In-app detail page for a book; only Open Library works have one
+export const getDetailsPath = (book: Book): string | null => {
+    const match = book.source === 'openlibrary' ? book.id.match(/^\/works\/(OL\d+W)$/) : null;
+    return match ? `/books/${match[1]}` : null;
+};
+
+// In-app page for an Open Library author id (OL...A or /authors/OL...A)
+export const getAuthorPath = (authorId: string): string | null => {
+    const match = authorId.match(/^(?:\/authors\/)?(OL\d+A)$/);
+    return match ? `/authors/${match[1]}` : null;
+};
+
+// In-app browse page for a subject name ("Science fiction") or Open Library slug ("science_fiction")
+export const getSubjectPath = (subject: string): string | null => {
+    const slug = toSubjectSlug(subject);
+    return isSubjectSlug(slug) ? `/subjects/${encodeURIComponent(slug)}` : null;
+};
+
+// Where the "Read Full Text" action should send the user
+export const getFullTextUrl = (book: Book): string | null =>
+    book.source === 'openlibrary' ? `https://openlibrary.org${book.id}/borrow` : book.readUrl;
+
+// Get embedded preview URL
+export const getEmbeddedPreviewUrl = (book: Book | null): string | null => {
+    if (!book || !book.previewUrl) return null;
+
+    // Handle Internet Archive URLs
+    if (book.previewUrl.includes('archive.org')) {
+        return book.previewUrl.replace('/details/', '/embed/');
+    }
+
+    // Handle Open Library URLs - direct to preview if possible
+    if (book.previewUrl.includes('openlibrary.org')) {
+        return book.previewUrl;
+    }
+
+    // Handle Google Books URLs
+    if (book.previewUrl.includes('books.google.com')) {
+        const url = new URL(book.previewUrl);
+        const id = url.searchParams.get('id');
+        if (id) {
+            return `https://www.google.com/books/edition/_/${id}?hl=en&gbpv=0&gboembed=true`;
+        }
+    }
+
+    return book.previewUrl;
+};
@@ -0,0 +1,129 @@
+// JSON over HTTP from a catalog API: rate limited, timed out, retried with backoff, validated against a
+// schema, and failing with the error types from ./errors. Each catalog creates one client; see openLibraryClient.
+import { abortError, delay } from './abort';
+import { BadResponseError, NetworkError, NotFoundError, RateLimitedError } from './errors';
+import { createRateLimiter, RateLimiter } from './rateLimiter';
+import { Schema, SchemaError } from './schema';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Attempts per request, the first included, while the catalog answers 429 or 5xx or cannot be reached
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 500;
+// A Retry-After longer than this is not waited out; the request fails as rate limited instead
+const MAX_RETRY_WAIT_MS = 8 * 1000;
+const USER_AGENT = 'rivel-books/0.1';
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+interface CatalogClientOptions {
+    // Names the client's rate limiter, which is shared by every bundle in the process
+    name: string;
+    requestsPerSecond: number;
+    burst: number;
+    // Sent with every request, e.g. an API key kept out of URLs and so out of error messages
+    headers?: Record<string, string>;
+}
+
+export interface CatalogClient {
+    // GET JSON and validate it against schema. Connection failures, 429 and 5xx are retried with exponential
+    // backoff, honouring Retry-After; timeouts are not, as a retry would likely time out too. Rejects with
+    // NetworkError, RateLimitedError, BadResponseError or NotFoundError, or an AbortError when the signal aborts.
+    getJson<T>(url: string, schema: Schema<T>, options?: RequestOptions): Promise<T>;
+}
+
+// Kept on globalThis like the caches, so API routes and pages share one request budget per catalog
+const globalLimiters = globalThis as typeof globalThis & { __rivelBooksRateLimiters?: Map<string, RateLimiter> };
+const limiters = globalLimiters.__rivelBooksRateLimiters ?? (globalLimiters.__rivelBooksRateLimiters = new Map());
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | null => {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+// 0.5s, 1s, 2s... with some jitter so parallel requests do not retry in lockstep
+const backoff = (attempt: number): number =>
+    BACKOFF_BASE_MS * 2 ** (attempt - 1) + Math.random() * (BACKOFF_BASE_MS / 2);
+
+const parseBody = <T>(url: string, body: string, schema: Schema<T>, status: number): T => {
+    let json: unknown;
+    try {
+        json = JSON.parse(body);
+    } catch (err: unknown) {
+        throw new BadResponseError(`Invalid JSON from ${url}`, status, { cause: err });
+    }
+
+    try {
+        return schema.parse(json);
+    } catch (err: unknown) {
+        if (!(err instanceof SchemaError)) throw err;
+        throw new BadResponseError(`Unexpected response from ${url}: ${err.message}`, status, { cause: err });
+    }
+};
+
+export const createCatalogClient = ({ name, requestsPerSecond, burst, headers = {} }: CatalogClientOptions): CatalogClient => {
+    const limiter = limiters.get(name) ?? createRateLimiter({ requestsPerSecond, burst });
+    limiters.set(name, limiter);
+
+    // One attempt, body included, within the timeout; the caller's signal still cancels it
+    const fetchOnce = async (url: string, signal: AbortSignal | undefined, timeoutMs: number): Promise<{ response: Response; body: string }> => {
+        await limiter.acquire(signal);
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+        try {
+            const response = await fetch(url, {
+                signal: controller.signal,
+                headers: { 'Accept': 'application/json', 'User-Agent': USER_AGENT, ...headers }
+            });
+            return { response, body: await response.text() };
+        } catch (err: unknown) {
+            if (signal?.aborted) throw abortError();
+            if (controller.signal.aborted) throw new NetworkError(`No response from ${url} within ${timeoutMs} ms`, true);
+            throw new NetworkError(`Could not reach ${url}`, false, { cause: err });
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    };
+
+    return {
+        async getJson<T>(url: string, schema: Schema<T>, { signal, timeoutMs = REQUEST_TIMEOUT_MS }: RequestOptions = {}): Promise<T> {
+            for (let attempt = 1; ; attempt += 1) {
+                let result: { response: Response; body: string };
+                try {
+                    result = await fetchOnce(url, signal, timeoutMs);
+                } catch (err: unknown) {
+                    if (!(err instanceof NetworkError) || err.timedOut || attempt >= MAX_ATTEMPTS) throw err;
+                    await delay(backoff(attempt), signal);
+                    continue;
+                }
+
+                const { response, body } = result;
+                if (response.status === 429 || response.status >= 500) {
+                    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+                    const wait = retryAfter ?? backoff(attempt);
+                    if (attempt < MAX_ATTEMPTS && wait <= MAX_RETRY_WAIT_MS) {
+                        await delay(wait, signal);
+                        continue;
+                    }
+                    if (response.status === 429) throw new RateLimitedError(`Rate limited by ${url}`, retryAfter);
+                    throw new BadResponseError(`${url} answered ${response.status}`, response.status);
+                }
+
+                if (response.status === 404) throw new NotFoundError(`Not found: ${url}`);
+                if (!response.ok) throw new BadResponseError(`${url} answered ${response.status}`, response.status);
+                return parseBody(url, body, schema, response.status);
+            }
+        }
+    };
+};
@@ -0,0 +1,37 @@
+import type { ServerResponse } from 'http';
+import { describe, expect, it } from 'vitest';
+import { ApiErrorResponse } from '@/types/types';
+import { catalogPageError, NetworkError, RateLimitedError, readApiError } from './errors';
+
+// Report err the way a page does, then read it back the way the browser does
+const roundTrip = async (err: Error): Promise<Error> => {
+    const res = { statusCode: 200 } as ServerResponse;
+    const result = catalogPageError(err, res, 'Failed to load');
+    const { error } = (result as { props: { error: ApiErrorResponse } }).props;
+    return readApiError(Response.json(error, { status: res.statusCode }), 'Failed');
+};
+
+describe('readApiError', () => {
+    it('keeps whether a network error timed out', async () => {
+        const timedOut = await roundTrip(new NetworkError('No response within 10000 ms', true));
+        const unreachable = await roundTrip(new NetworkError('Could not reach openlibrary.org'));
+
+        expect(timedOut).toBeInstanceOf(NetworkError);
+        expect((timedOut as NetworkError).timedOut).toBe(true);
+        expect((unreachable as NetworkError).timedOut).toBe(false);
+    });
+
+    it('keeps how long a rate limit asked to wait', async () => {
+        const err = await roundTrip(new RateLimitedError('Rate limited', 30 * 1000));
+
+        expect(err).toBeInstanceOf(RateLimitedError);
+        expect((err as RateLimitedError).retryAfterMs).toBe(30 * 1000);
+    });
+
+    it('falls back to a plain error for a body it cannot read', async () => {
+        const err = await readApiError(new Response('<html>', { status: 500 }), 'Failed to fetch');
+
+        expect(err).not.toBeInstanceOf(NetworkError);
+        expect(err.message).toBe('Failed to fetch');
+    });
+});
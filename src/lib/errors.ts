@@ -0,0 +1,151 @@
+import type { ServerResponse } from 'http';
+import type { NextApiResponse } from 'next';
+import { ApiErrorCode, ApiErrorResponse } from '@/types/types';
+import { ENGLISH, Translator } from './i18n';
+
+// A catalog request that failed in a way the reader can do something about; see describeError
+export class CatalogError extends Error {
+    constructor(readonly code: ApiErrorCode, message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+// No response arrived: the connection failed or the request timed out
+export class NetworkError extends CatalogError {
+    constructor(message: string, readonly timedOut: boolean = false, options?: ErrorOptions) {
+        super('network', message, options);
+    }
+}
+
+// Still answered 429 after backing off; retryAfterMs is the wait the server asked for, when it said
+export class RateLimitedError extends CatalogError {
+    constructor(message: string, readonly retryAfterMs: number | null = null) {
+        super('rate-limited', message);
+    }
+}
+
+// An error status, or a body that is not JSON or not the expected shape
+export class BadResponseError extends CatalogError {
+    constructor(message: string, readonly status: number | null = null, options?: ErrorOptions) {
+        super('bad-response', message, options);
+    }
+}
+
+export class NotFoundError extends CatalogError {
+    constructor(message: string) {
+        super('not-found', message);
+    }
+}
+
+// Resolve to null instead of rejecting when the record does not exist
+export const nullIfNotFound = <T>(promise: Promise<T>): Promise<T | null> =>
+    promise.catch((err: unknown) => {
+        if (err instanceof NotFoundError) return null;
+        throw err;
+    });
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+    'network': 504,
+    'rate-limited': 429,
+    'bad-response': 502,
+    'not-found': 404
+};
+
+// The status and body that report a failed catalog lookup, passing on what kind of failure it was
+const toApiError = (err: unknown, message: string): { status: number; body: ApiErrorResponse } => {
+    if (!(err instanceof CatalogError)) {
+        return { status: 502, body: { error: message } };
+    }
+
+    const body: ApiErrorResponse = { error: message, code: err.code };
+    if (err instanceof NetworkError) {
+        body.timedOut = err.timedOut;
+    }
+    if (err instanceof RateLimitedError && err.retryAfterMs !== null) {
+        body.retryAfter = Math.ceil(err.retryAfterMs / 1000);
+    }
+    return { status: ERROR_STATUS[err.code], body };
+};
+
+// Reply to an API request whose catalog lookup failed
+export const sendApiError = (res: NextApiResponse<ApiErrorResponse>, err: unknown, message: string) => {
+    const { status, body } = toApiError(err, message);
+    if (body.retryAfter !== undefined) res.setHeader('Retry-After', String(body.retryAfter));
+    return res.status(status).json(body);
+};
+
+// getServerSideProps result for a page whose catalog lookup failed: a 404 for a missing record, otherwise
+// the error for the page to show in place of its content. Anything but a CatalogError is a bug and is rethrown.
+export const catalogPageError = (err: unknown, res: ServerResponse, message: string): { notFound: true } | { props: { error: ApiErrorResponse } } => {
+    if (err instanceof NotFoundError) return { notFound: true };
+    if (!(err instanceof CatalogError)) throw err;
+
+    const { status, body } = toApiError(err, message);
+    res.statusCode = status;
+    return { props: { error: body } };
+};
+
+// Rebuild the error an API route or page reported, so the browser sees the same error types as the server
+export const fromApiError = (data: Partial<ApiErrorResponse>, status: number | null, fallback: string): Error => {
+    const message = data.error || fallback;
+
+    switch (data.code) {
+        case 'network':
+            return new NetworkError(message, data.timedOut === true);
+        case 'rate-limited':
+            return new RateLimitedError(message, typeof data.retryAfter === 'number' ? data.retryAfter * 1000 : null);
+        case 'bad-response':
+            return new BadResponseError(message, status);
+        case 'not-found':
+            return new NotFoundError(message);
+        default:
+            return new Error(message);
+    }
+};
+
+export const readApiError = async (response: Response, fallback: string): Promise<Error> => {
+    const data: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+    return fromApiError(data, response.status, fallback);
+};
+
+// What went wrong and what the reader can do about it
+export type ErrorNotice = {
+    message: string;
+    action: string;
+};
+
+// fallbackAction follows errors that are not about reaching Open Library, e.g. a rejected request
+export const describeError = (
+    err: unknown,
+    { t, plural }: Translator = ENGLISH,
+    fallbackAction: string = t('errors.fallbackAction')
+): ErrorNotice => {
+    if (err instanceof NetworkError) {
+        return {
+            message: err.timedOut ? t('errors.timedOut') : t('errors.unreachable'),
+            action: t('errors.networkAction')
+        };
+    }
+    if (err instanceof RateLimitedError) {
+        const seconds = err.retryAfterMs !== null ? Math.ceil(err.retryAfterMs / 1000) : null;
+        return {
+            message: t('errors.rateLimited'),
+            action: seconds ? plural('errors.rateLimitedWait', seconds) : t('errors.rateLimitedWaitMinute')
+        };
+    }
+    if (err instanceof BadResponseError) {
+        return { message: t('errors.badResponse'), action: t('errors.badResponseAction') };
+    }
+    if (err instanceof NotFoundError) {
+        return { message: t('errors.notFound'), action: t('errors.notFoundAction') };
+    }
+    // fetch rejects with a TypeError when the browser gets no response at all
+    if (err instanceof TypeError) {
+        return { message: t('errors.serverUnreachable'), action: t('errors.serverUnreachableAction') };
+    }
+    return {
+        message: err instanceof Error ? err.message : t('errors.unknown'),
+        action: fallbackAction
+    };
+};
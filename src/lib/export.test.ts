@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '@/types/types';
+import { makeBook } from '@/test/books';
+import { exportBooks, ExportRecord, toExportRecord } from './export';
+
+// Every character the formats treat specially, in every kind of field
+const books: Book[] = [
+    makeBook({
+        id: '/works/OL2W',
+        title: 'AC\\DC & co: {Live} at 100% #1_b $5',
+        author: 'Pat "Bon" O\'Brien',
+        authors: ['Pat "Bon" O\'Brien', 'Smith, Jo'],
+        year: 1979,
+        publisher: 'Albert, Atlantic & Sons',
+        isbn: '9780000000002',
+        languages: ['eng', 'fre']
+    }),
+    makeBook({ id: '/works/OL3W', title: 'Plain' })
+];
+
+const records = books.map(toExportRecord);
+
+// RFC 4180 rows, honouring quoted commas, quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i += 1) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i += 1;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\r' && text[i + 1] === '\n') {
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+            i += 1;
+        } else {
+            field += c;
+        }
+    }
+    return rows;
+};
+
+const splitList = (value: string, separator: string): string[] => (value ? value.split(separator) : []);
+
+const fromCsv = (text: string): ExportRecord[] => {
+    const [header, ...rows] = parseCsv(text);
+    expect(header).toEqual(['Title', 'Authors', 'Year', 'Publisher', 'ISBN', 'Languages', 'URL']);
+    return rows.map(([title, authors, year, publisher, isbn, languages, url]) => ({
+        title,
+        authors: splitList(authors, '; '),
+        year: year || null,
+        publisher: publisher || null,
+        isbn: isbn || null,
+        languages: splitList(languages, '; '),
+        url
+    }));
+};
+
+const unescapeBibtex = (value: string): string =>
+    value.replace(/\\textbackslash\{\}|\\([{}&%$#_])/g, (match, escaped: string | undefined) => escaped ?? '\\');
+
+// The fields of each @book entry; a value ends at the brace that closes it, skipping escaped ones
+const parseBibtex = (text: string): Record<string, string>[] =>
+    text.split(/^@book\{[^,]+,\n/m).slice(1).map(entry => {
+        const fields: Record<string, string> = {};
+        const field = /^ {2}(\w+) = \{/gm;
+        let match: RegExpExecArray | null;
+        while ((match = field.exec(entry))) {
+            let depth = 1;
+            let end = field.lastIndex;
+            for (; depth > 0; end += 1) {
+                if (entry[end] === '\\') end += 1;
+                else if (entry[end] === '{') depth += 1;
+                else if (entry[end] === '}') depth -= 1;
+            }
+            fields[match[1]] = entry.slice(field.lastIndex, end - 1);
+        }
+        return fields;
+    });
+
+const fromBibtex = (text: string): ExportRecord[] =>
+    parseBibtex(text).map(fields => ({
+        title: unescapeBibtex(fields.title),
+        authors: fields.author ? unescapeBibtex(fields.author).split(' and ') : [],
+        year: fields.year ?? null,
+        publisher: fields.publisher ? unescapeBibtex(fields.publisher) : null,
+        isbn: fields.isbn ?? null,
+        languages: fields.language ? unescapeBibtex(fields.language).split(', ') : [],
+        url: fields.url
+    }));
+
+const fromRis = (text: string): ExportRecord[] =>
+    text.split('\r\n\r\n').map(entry => {
+        const lines = entry.split('\r\n').filter(Boolean).map(line => {
+            const match = line.match(/^([A-Z][A-Z0-9]) {2}- (.*)$/);
+            expect(match).not.toBeNull();
+            return [match![1], match![2]] as const;
+        });
+        const values = (tag: string) => lines.filter(([name]) => name === tag).map(([, value]) => value);
+        expect(values('TY')).toEqual(['BOOK']);
+        expect(lines[lines.length - 1][0]).toBe('ER');
+        return {
+            title: values('TI')[0],
+            authors: values('AU'),
+            year: values('PY')[0] ?? null,
+            publisher: values('PB')[0] ?? null,
+            isbn: values('SN')[0] ?? null,
+            languages: values('LA'),
+            url: values('UR')[0]
+        };
+    });
+
+describe('exportBooks', () => {
+    it('drops catalog placeholders from the exported fields', () => {
+        expect(records[1]).toEqual({
+            title: 'Plain',
+            authors: [],
+            year: null,
+            publisher: null,
+            isbn: null,
+            languages: [],
+            url: 'https://openlibrary.org/works/OL3W'
+        });
+    });
+
+    it('names languages from their codes', () => {
+        expect(records[0].languages).toEqual(['English', 'French']);
+    });
+
+    it('round-trips CSV', () => {
+        expect(fromCsv(exportBooks(books, 'csv'))).toEqual(records);
+    });
+
+    it('keeps line breaks inside a quoted CSV field', () => {
+        const book = makeBook({ title: 'Two\r\nlines, "quoted"' });
+        expect(fromCsv(exportBooks([book], 'csv'))[0].title).toBe('Two\r\nlines, "quoted"');
+    });
+
+    it('round-trips BibTeX', () => {
+        expect(fromBibtex(exportBooks(books, 'bibtex'))).toEqual(records);
+    });
+
+    it('escapes a backslash without escaping the braces it is replaced with', () => {
+        const bibtex = exportBooks([makeBook({ title: 'AC\\DC & co' })], 'bibtex');
+        expect(bibtex).toContain('title = {AC\\textbackslash{}DC \\& co}');
+    });
+
+    it('round-trips RIS', () => {
+        expect(fromRis(exportBooks(books, 'ris'))).toEqual(records);
+    });
+
+    it('keeps each RIS value on its own line', () => {
+        const [record] = fromRis(exportBooks([makeBook({ title: 'Two\nlines' })], 'ris'));
+        expect(record.title).toBe('Two lines');
+    });
+
+    it('round-trips JSON', () => {
+        expect(JSON.parse(exportBooks(books, 'json'))).toEqual(records);
+    });
+});
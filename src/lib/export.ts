@@ -0,0 +1,133 @@
+import { Book } from '@/types/types';
+import { getBookUrl } from './catalog';
+import { languageName } from './languages';
+
+export type ExportFormat = 'csv' | 'bibtex' | 'ris' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+    { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+    { format: 'bibtex', label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+    { format: 'ris', label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+    { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' }
+];
+
+export const isExportFormat = (value: string): value is ExportFormat =>
+    EXPORT_FORMATS.some(option => option.format === value);
+
+// The fields every format carries; placeholders such as 'Unknown Author' are dropped
+export type ExportRecord = {
+    title: string;
+    authors: string[];
+    year: string | null;
+    publisher: string | null;
+    isbn: string | null;
+    languages: string[];
+    url: string;
+};
+
+export const toExportRecord = (book: Book): ExportRecord => {
+    const authors = book.authors?.length ? book.authors : [book.author];
+    const year = String(book.year);
+    return {
+        title: book.title,
+        authors: authors.filter(author => author !== 'Unknown Author'),
+        year: /^\d{3,4}$/.test(year) ? year : null,
+        publisher: book.publisher !== 'Unknown Publisher' ? book.publisher : null,
+        isbn: book.isbn,
+        languages: book.languages.map(code => languageName(code)),
+        url: getBookUrl(book)
+    };
+};
+
+const CSV_COLUMNS = ['Title', 'Authors', 'Year', 'Publisher', 'ISBN', 'Languages', 'URL'];
+
+// RFC 4180: quote fields with commas, quotes or line breaks, doubling embedded quotes
+const csvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const toCsv = (records: ExportRecord[]): string =>
+    [
+        CSV_COLUMNS,
+        ...records.map(record => [
+            record.title,
+            record.authors.join('; '),
+            record.year || '',
+            record.publisher || '',
+            record.isbn || '',
+            record.languages.join('; '),
+            record.url
+        ])
+    ].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+// Escape the characters BibTeX (and LaTeX) treat specially inside a braced value, in one pass so the
+// braces of \textbackslash{} are not escaped again
+const bibtexValue = (value: string): string =>
+    value.replace(/[\\{}&%$#_]/g, c => (c === '\\' ? '\\textbackslash{}' : `\\${c}`));
+
+// Citation keys like herbert1965dune, suffixed a, b, ... when two records would share one
+const bibtexKeys = (records: ExportRecord[]): string[] => {
+    const counts = new Map<string, number>();
+    return records.map(record => {
+        const surname = record.authors[0]?.split(/\s+/).pop() || 'anon';
+        const word = record.title.split(/\s+/).find(part => /[a-z0-9]/i.test(part)) || 'untitled';
+        const base = `${surname}${record.year || ''}${word}`.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const seen = counts.get(base) || 0;
+        counts.set(base, seen + 1);
+        return seen === 0 ? base : `${base}${String.fromCharCode(97 + ((seen - 1) % 26))}`;
+    });
+};
+
+const toBibtex = (records: ExportRecord[]): string => {
+    const keys = bibtexKeys(records);
+    return records.map((record, index) => {
+        const fields: [string, string | null][] = [
+            ['title', record.title],
+            ['author', record.authors.length ? record.authors.join(' and ') : null],
+            ['year', record.year],
+            ['publisher', record.publisher],
+            ['isbn', record.isbn],
+            ['language', record.languages.length ? record.languages.join(', ') : null],
+            ['url', record.url]
+        ];
+        const body = fields
+            .filter((field): field is [string, string] => !!field[1])
+            // URLs are left unescaped so they stay usable with the url package
+            .map(([name, value]) => `  ${name} = {${name === 'url' ? value : bibtexValue(value)}}`)
+            .join(',\n');
+        return `@book{${keys[index]},\n${body}\n}\n`;
+    }).join('\n');
+};
+
+// RIS tags are two letters, two spaces, a dash and a space; a value has to stay on its line
+const risLine = (tag: string, value: string): string => `${tag}  - ${value.replace(/\s*[\r\n]+\s*/g, ' ')}`;
+
+const toRis = (records: ExportRecord[]): string =>
+    records.map(record => [
+        risLine('TY', 'BOOK'),
+        risLine('TI', record.title),
+        ...record.authors.map(author => risLine('AU', author)),
+        ...(record.year ? [risLine('PY', record.year)] : []),
+        ...(record.publisher ? [risLine('PB', record.publisher)] : []),
+        ...(record.isbn ? [risLine('SN', record.isbn)] : []),
+        ...record.languages.map(language => risLine('LA', language)),
+        risLine('UR', record.url),
+        risLine('ER', '')
+    ].join('\r\n')).join('\r\n\r\n') + '\r\n';
+
+const toJson = (records: ExportRecord[]): string => `${JSON.stringify(records, null, 2)}\n`;
+
+const SERIALIZERS: Record<ExportFormat, (records: ExportRecord[]) => string> = {
+    csv: toCsv,
+    bibtex: toBibtex,
+    ris: toRis,
+    json: toJson
+};
+
+export const exportBooks = (books: Book[], format: ExportFormat): string =>
+    SERIALIZERS[format](books.map(toExportRecord));
+
+export const exportFormatInfo = (format: ExportFormat) =>
+    EXPORT_FORMATS.find(option => option.format === format)!;
+
+// e.g. books-2024-05-01.bib
+export const exportFilename = (format: ExportFormat, date: Date = new Date()): string =>
+    `books-${date.toISOString().slice(0, 10)}.${exportFormatInfo(format).extension}`;
@@ -0,0 +1,85 @@
+import { AdvancedFilters, FacetCount, SearchFacets } from '@/types/types';
+
+export type FacetType = keyof SearchFacets;
+
+const FACET_LIMIT = 10;
+
+export const EMPTY_FACETS: SearchFacets = { subjects: [], languages: [], authors: [], decades: [] };
+
+// Count how often each value occurs and keep the most common ones
+export const countValues = (
+    values: string[],
+    label: (value: string) => string = value => value,
+    limit: number = FACET_LIMIT
+): FacetCount[] => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+    return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([value, count]) => ({ value, label: label(value), count }));
+};
+
+export const decadeOf = (year: number): string => String(Math.floor(year / 10) * 10);
+
+// Add up facet counts from several providers
+export const mergeFacets = (facetsList: SearchFacets[]): SearchFacets => {
+    const mergeCounts = (lists: FacetCount[][]): FacetCount[] => {
+        const merged = new Map<string, FacetCount>();
+        lists.flat().forEach(facet => {
+            const existing = merged.get(facet.value);
+            merged.set(facet.value, existing ? { ...existing, count: existing.count + facet.count } : facet);
+        });
+        return Array.from(merged.values())
+            .sort((a, b) => b.count - a.count)
+            .slice(0, FACET_LIMIT);
+    };
+
+    return {
+        subjects: mergeCounts(facetsList.map(facets => facets.subjects)),
+        languages: mergeCounts(facetsList.map(facets => facets.languages)),
+        authors: mergeCounts(facetsList.map(facets => facets.authors)),
+        decades: mergeCounts(facetsList.map(facets => facets.decades))
+    };
+};
+
+// The filters a facet click produces
+export const applyFacet = (filters: AdvancedFilters, type: FacetType, value: string): AdvancedFilters => {
+    switch (type) {
+        case 'subjects':
+            return { ...filters, subject: value };
+        case 'languages':
+            return { ...filters, language: value };
+        case 'authors':
+            return { ...filters, author: value };
+        case 'decades':
+            return { ...filters, yearFrom: value, yearTo: String(Number(value) + 9) };
+    }
+};
+
+export const isFacetActive = (filters: AdvancedFilters, type: FacetType, value: string): boolean => {
+    switch (type) {
+        case 'subjects':
+            return filters.subject.toLowerCase() === value.toLowerCase();
+        case 'languages':
+            return filters.language === value;
+        case 'authors':
+            return filters.author.toLowerCase() === value.toLowerCase();
+        case 'decades':
+            return filters.yearFrom === value && filters.yearTo === String(Number(value) + 9);
+    }
+};
+
+export const clearFacet = (filters: AdvancedFilters, type: FacetType): AdvancedFilters => {
+    switch (type) {
+        case 'subjects':
+            return { ...filters, subject: '' };
+        case 'languages':
+            return { ...filters, language: '' };
+        case 'authors':
+            return { ...filters, author: '' };
+        case 'decades':
+            return { ...filters, yearFrom: '', yearTo: '' };
+    }
+};
@@ -0,0 +1,137 @@
+import type { ParsedUrlQuery } from 'querystring';
+import { AdvancedFilters, Book, SortOrder } from '@/types/types';
+import { ENGLISH, Translator } from './i18n';
+import { cleanIsbn, isValidIsbn } from './isbn';
+
+export const DEFAULT_FILTERS: AdvancedFilters = {
+    author: '',
+    subject: '',
+    yearFrom: '',
+    yearTo: '',
+    language: '',
+    publisher: '',
+    isbn: '',
+    availability: 'all',
+    sort: 'relevance'
+};
+
+export const AVAILABILITY_MODES: AdvancedFilters['availability'][] = ['all', 'preview', 'fulltext'];
+
+export const SORT_ORDERS: SortOrder[] = ['relevance', 'newest', 'oldest', 'title'];
+
+export const sortLabel = (sort: SortOrder, { t }: Translator = ENGLISH): string => t(`sort.${sort}`);
+
+export const availabilityLabel = (availability: AdvancedFilters['availability'], { t }: Translator = ENGLISH): string =>
+    t(`availability.${availability}`);
+
+// Whether a book whose preview has been checked meets an availability filter
+export const matchesAvailability = (book: Book, availability: AdvancedFilters['availability']): boolean => {
+    if (availability === 'preview') return book.previewAvailable;
+    if (availability === 'fulltext') return book.hasFulltext;
+    return true;
+};
+
+// Languages offered in the filter panel, with the ISO 639-1 code other catalogs use
+export const LANGUAGE_OPTIONS: { code: string; iso639_1: string; label: string }[] = [
+    { code: 'eng', iso639_1: 'en', label: 'English' },
+    { code: 'spa', iso639_1: 'es', label: 'Spanish' },
+    { code: 'fre', iso639_1: 'fr', label: 'French' },
+    { code: 'ger', iso639_1: 'de', label: 'German' },
+    { code: 'ita', iso639_1: 'it', label: 'Italian' },
+    { code: 'por', iso639_1: 'pt', label: 'Portuguese' },
+    { code: 'dut', iso639_1: 'nl', label: 'Dutch' },
+    { code: 'rus', iso639_1: 'ru', label: 'Russian' },
+    { code: 'pol', iso639_1: 'pl', label: 'Polish' },
+    { code: 'swe', iso639_1: 'sv', label: 'Swedish' },
+    { code: 'gre', iso639_1: 'el', label: 'Greek' },
+    { code: 'lat', iso639_1: 'la', label: 'Latin' },
+    { code: 'ara', iso639_1: 'ar', label: 'Arabic' },
+    { code: 'hin', iso639_1: 'hi', label: 'Hindi' },
+    { code: 'chi', iso639_1: 'zh', label: 'Chinese' },
+    { code: 'jpn', iso639_1: 'ja', label: 'Japanese' },
+    { code: 'kor', iso639_1: 'ko', label: 'Korean' }
+];
+
+export const getParam = (value: string | string[] | undefined): string =>
+    (Array.isArray(value) ? value[0] : value ?? '').trim();
+
+// Read filters from a query string; unknown enum values fall back to their defaults
+export const parseFilters = (params: ParsedUrlQuery): AdvancedFilters => {
+    const availability = getParam(params.availability) as AdvancedFilters['availability'];
+    const sort = getParam(params.sort) as SortOrder;
+    // Links from before year ranges used a single `year`
+    const year = getParam(params.year);
+
+    return {
+        author: getParam(params.author),
+        subject: getParam(params.subject),
+        yearFrom: getParam(params.yearFrom) || year,
+        yearTo: getParam(params.yearTo) || year,
+        language: getParam(params.language).toLowerCase(),
+        publisher: getParam(params.publisher),
+        isbn: getParam(params.isbn),
+        availability: AVAILABILITY_MODES.includes(availability) ? availability : 'all',
+        sort: SORT_ORDERS.includes(sort) ? sort : 'relevance'
+    };
+};
+
+export type FilterErrors = Partial<Record<keyof AdvancedFilters, string>>;
+
+const isValidYear = (year: string): boolean =>
+    /^\d{1,4}$/.test(year) && Number(year) <= new Date().getFullYear() + 1;
+
+// Validate filters before they are sent; an empty object means they are fine to search with.
+// Messages are in English unless a translator is passed, as the API reports them too.
+export const validateFilters = (filters: AdvancedFilters, { t }: Translator = ENGLISH): FilterErrors => {
+    const errors: FilterErrors = {};
+
+    if (filters.yearFrom && !isValidYear(filters.yearFrom)) {
+        errors.yearFrom = t('validation.yearFrom');
+    }
+    if (filters.yearTo && !isValidYear(filters.yearTo)) {
+        errors.yearTo = t('validation.yearTo');
+    }
+    if (!errors.yearFrom && !errors.yearTo && filters.yearFrom && filters.yearTo && Number(filters.yearFrom) > Number(filters.yearTo)) {
+        errors.yearTo = t('validation.yearOrder');
+    }
+    if (filters.language && !/^[a-z]{3}$/.test(filters.language)) {
+        errors.language = t('validation.language');
+    }
+    if (filters.isbn && !isValidIsbn(filters.isbn)) {
+        errors.isbn = t('validation.isbn');
+    }
+
+    return errors;
+};
+
+// Labels for the chips that show which filters are active
+export const getActiveFilterChips = (
+    filters: AdvancedFilters,
+    { t, languageName }: Translator = ENGLISH
+): { key: keyof AdvancedFilters; label: string }[] => {
+    const chips: { key: keyof AdvancedFilters; label: string }[] = [];
+
+    if (filters.author) chips.push({ key: 'author', label: t('chips.author', { value: filters.author }) });
+    if (filters.subject) chips.push({ key: 'subject', label: t('chips.subject', { value: filters.subject }) });
+    if (filters.yearFrom && filters.yearFrom === filters.yearTo) {
+        chips.push({ key: 'yearFrom', label: t('chips.published', { year: filters.yearFrom }) });
+    } else {
+        if (filters.yearFrom) chips.push({ key: 'yearFrom', label: t('chips.from', { year: filters.yearFrom }) });
+        if (filters.yearTo) chips.push({ key: 'yearTo', label: t('chips.to', { year: filters.yearTo }) });
+    }
+    if (filters.language) chips.push({ key: 'language', label: t('chips.language', { value: languageName(filters.language) }) });
+    if (filters.publisher) chips.push({ key: 'publisher', label: t('chips.publisher', { value: filters.publisher }) });
+    if (filters.isbn) chips.push({ key: 'isbn', label: t('chips.isbn', { value: cleanIsbn(filters.isbn) }) });
+    if (filters.availability === 'preview') chips.push({ key: 'availability', label: t('chips.preview') });
+    if (filters.availability === 'fulltext') chips.push({ key: 'availability', label: t('chips.fulltext') });
+
+    return chips;
+};
+
+// Clear one filter; a single-year chip clears both ends of the range
+export const removeFilter = (filters: AdvancedFilters, key: keyof AdvancedFilters): AdvancedFilters => {
+    if (key === 'yearFrom' && filters.yearFrom === filters.yearTo) {
+        return { ...filters, yearFrom: '', yearTo: '' };
+    }
+    return { ...filters, [key]: DEFAULT_FILTERS[key] };
+};
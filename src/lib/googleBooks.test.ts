@@ -0,0 +1,73 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { BadResponseError, RateLimitedError } from './errors';
+import { DEFAULT_FILTERS } from './filters';
+
+// A fake Google Books API reached through GOOGLE_BOOKS_BASE_URL
+const requests: IncomingMessage[] = [];
+
+const volume = {
+    id: 'abc',
+    volumeInfo: { title: 'Emma', authors: ['Jane Austen'], publishedDate: '1815-12-23', language: 'en', previewLink: 'https://books.google.com/books?id=abc' },
+    accessInfo: { viewability: 'ALL_PAGES', webReaderLink: 'https://play.google.com/books/reader?id=abc' }
+};
+
+const answer = (req: IncomingMessage): { status: number; body: unknown; headers?: Record<string, string> } => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(req);
+
+    if (url.pathname === '/volumes') {
+        const q = url.searchParams.get('q');
+        if (q === 'busy') return { status: 429, body: {}, headers: { 'Retry-After': '60' } };
+        if (q === 'changed') return { status: 200, body: { total: 1, volumes: [] } };
+        return { status: 200, body: { totalItems: 1, items: [volume] } };
+    }
+    if (url.pathname === '/volumes/abc') return { status: 200, body: volume };
+    return { status: 404, body: { error: { code: 404 } } };
+};
+
+let server: Server;
+let googleBooks: typeof import('./googleBooks');
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        const { status, body, headers } = answer(req);
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    // Both are read when the module loads, so they are set before importing it
+    process.env.GOOGLE_BOOKS_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.GOOGLE_BOOKS_API_KEY = 'test-key';
+    googleBooks = await import('./googleBooks');
+});
+
+afterAll(async () => {
+    delete process.env.GOOGLE_BOOKS_BASE_URL;
+    delete process.env.GOOGLE_BOOKS_API_KEY;
+    await new Promise(resolve => server.close(resolve));
+});
+
+describe('googleBooksProvider', () => {
+    it('searches and normalizes volumes, sending the API key as a header rather than in the URL', async () => {
+        const result = await googleBooks.googleBooksProvider.search('emma', DEFAULT_FILTERS);
+
+        expect(result.books.map(book => [book.id, book.title, book.year, book.readable])).toEqual([['/volumes/abc', 'Emma', 1815, true]]);
+        const request = requests[requests.length - 1];
+        expect(request.headers['x-goog-api-key']).toBe('test-key');
+        expect(request.url).not.toContain('test-key');
+    });
+
+    it('looks a volume up by id, and resolves a missing one to null', async () => {
+        expect((await googleBooks.googleBooksProvider.getById('/volumes/abc'))?.title).toBe('Emma');
+        expect(await googleBooks.googleBooksProvider.getById('/volumes/missing')).toBeNull();
+    });
+
+    it('fails with the catalog error types', async () => {
+        // Retry-After is longer than the client waits out, so this fails without retrying
+        await expect(googleBooks.googleBooksProvider.search('busy', DEFAULT_FILTERS)).rejects.toBeInstanceOf(RateLimitedError);
+        await expect(googleBooks.googleBooksProvider.search('changed', DEFAULT_FILTERS)).rejects.toBeInstanceOf(BadResponseError);
+    });
+});
@@ -0,0 +1,144 @@
+import { AdvancedFilters, Book, BookPreview, SearchResponse } from '@/types/types';
+import type { CatalogProvider } from './catalog';
+import { createCatalogClient } from './catalogClient';
+import { nullIfNotFound } from './errors';
+import { LANGUAGE_OPTIONS } from './filters';
+import { GoogleBooksVolume, googleBooksSearchSchema, googleBooksVolumeSchema } from './googleBooksSchemas';
+import { cleanIsbn } from './isbn';
+
+// Base URL for the Google Books API; override with GOOGLE_BOOKS_BASE_URL to point at a local fake server
+export const GOOGLE_BOOKS_BASE_URL = process.env.GOOGLE_BOOKS_BASE_URL || 'https://www.googleapis.com/books/v1';
+
+const SEARCH_LIMIT = 20;
+// Google Books allows about 100 requests per 100 seconds for each user of an API key
+const REQUESTS_PER_SECOND = 1;
+const REQUEST_BURST = 5;
+
+// The API key goes in a header rather than the URL, so it stays out of the error messages that name the URL
+const client = createCatalogClient({
+    name: 'googlebooks',
+    requestsPerSecond: REQUESTS_PER_SECOND,
+    burst: REQUEST_BURST,
+    headers: process.env.GOOGLE_BOOKS_API_KEY ? { 'X-Goog-Api-Key': process.env.GOOGLE_BOOKS_API_KEY } : {}
+});
+
+// Build the volumes URL; Google Books has no publish year filter and only sorts by relevance or newest,
+// so year ranges and the other sort orders are not sent
+export const buildVolumesUrl = (query: string, filters: AdvancedFilters, page: number = 1): string => {
+    let queryString = query;
+    if (filters.author) queryString += ` inauthor:${filters.author}`;
+    if (filters.subject) queryString += ` subject:${filters.subject}`;
+    if (filters.publisher) queryString += ` inpublisher:${filters.publisher}`;
+    if (filters.isbn) queryString += ` isbn:${cleanIsbn(filters.isbn)}`;
+
+    let apiUrl = `${GOOGLE_BOOKS_BASE_URL}/volumes?q=${encodeURIComponent(queryString.trim())}&maxResults=${SEARCH_LIMIT}&startIndex=${(page - 1) * SEARCH_LIMIT}&printType=books`;
+
+    const language = LANGUAGE_OPTIONS.find(option => option.code === filters.language);
+    if (language) {
+        apiUrl += `&langRestrict=${language.iso639_1}`;
+    }
+    if (filters.sort === 'newest') {
+        apiUrl += '&orderBy=newest';
+    }
+
+    if (filters.availability === 'preview') {
+        apiUrl += '&filter=partial';
+    } else if (filters.availability === 'fulltext') {
+        apiUrl += '&filter=full';
+    }
+
+    return apiUrl;
+};
+
+// ISBN-13 before ISBN-10 when the volume lists both
+const getIsbns = (volume: GoogleBooksVolume): string[] => {
+    const identifiers = volume.volumeInfo.industryIdentifiers || [];
+    return ['ISBN_13', 'ISBN_10'].flatMap(type =>
+        identifiers.filter(identifier => identifier.type === type).map(identifier => identifier.identifier)
+    );
+};
+
+const toPreview = (volume: GoogleBooksVolume): BookPreview => {
+    const viewability = volume.accessInfo?.viewability;
+    const previewAvailable = viewability === 'PARTIAL' || viewability === 'ALL_PAGES';
+    const previewUrl = previewAvailable ? volume.volumeInfo.previewLink || null : null;
+    return {
+        previewAvailable,
+        previewUrl,
+        readable: viewability === 'ALL_PAGES',
+        readUrl: volume.accessInfo?.webReaderLink || previewUrl
+    };
+};
+
+export const toBook = (volume: GoogleBooksVolume): Book => {
+    const info = volume.volumeInfo;
+    const thumbnail = info.imageLinks?.thumbnail || info.imageLinks?.smallThumbnail;
+    const isbns = getIsbns(volume);
+    return {
+        id: `/volumes/${volume.id}`,
+        title: info.title,
+        author: info.authors ? info.authors[0] : 'Unknown Author',
+        authors: info.authors || [],
+        year: info.publishedDate ? Number(info.publishedDate.slice(0, 4)) || info.publishedDate : 'Unknown Year',
+        coverId: null,
+        coverUrl: thumbnail ? thumbnail.replace(/^http:/, 'https:') : null,
+        publisher: info.publisher || 'Unknown Publisher',
+        languages: info.language ? [info.language] : [],
+        isbn: isbns[0] || null,
+        isbns,
+        subjects: info.categories || [],
+        ratingsAverage: info.averageRating ?? null,
+        ratingsCount: info.ratingsCount || 0,
+        pageCount: info.pageCount ?? null,
+        hasFulltext: volume.accessInfo?.viewability === 'ALL_PAGES',
+        iaIdentifier: null,
+        ...toPreview(volume),
+        source: 'googlebooks'
+    };
+};
+
+export const googleBooksProvider: CatalogProvider = {
+    id: 'googlebooks',
+    name: 'Google Books',
+
+    async search(query: string, filters: AdvancedFilters, page: number = 1, signal?: AbortSignal): Promise<SearchResponse> {
+        const start = (page - 1) * SEARCH_LIMIT;
+        const data = await client.getJson(buildVolumesUrl(query, filters, page), googleBooksSearchSchema, { signal });
+        const books = (data.items || []).map(toBook);
+
+        // Availability is filtered by the API itself, so nothing is dropped here
+        return {
+            numFound: data.totalItems,
+            start,
+            books,
+            filtered: 0,
+            hasMore: start + books.length < data.totalItems
+        };
+    },
+
+    async getById(id: string): Promise<Book | null> {
+        const volumeId = id.replace(/^\/volumes\//, '');
+        const volume = await nullIfNotFound(client.getJson(
+            `${GOOGLE_BOOKS_BASE_URL}/volumes/${encodeURIComponent(volumeId)}?projection=full`,
+            googleBooksVolumeSchema
+        ));
+        return volume && toBook(volume);
+    },
+
+    async getPreview(book: Book): Promise<BookPreview> {
+        const volume = await this.getById(book.id);
+        if (!volume) {
+            return { previewAvailable: false, previewUrl: null, readUrl: null, readable: false };
+        }
+        return {
+            previewAvailable: volume.previewAvailable,
+            previewUrl: volume.previewUrl,
+            readUrl: volume.readUrl,
+            readable: volume.readable
+        };
+    },
+
+    getBookUrl(book: Book): string {
+        return `https://books.google.com/books?id=${book.id.replace(/^\/volumes\//, '')}`;
+    }
+};
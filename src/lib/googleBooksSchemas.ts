@@ -0,0 +1,39 @@
+// Shapes of the Google Books responses we use, checked at runtime by the Google Books catalog client.
+// Only the fields read here are declared; anything else in a response is dropped.
+import { array, boolean, Infer, number, object, optional, string } from './schema';
+
+export const googleBooksVolumeSchema = object({
+    id: string(),
+    volumeInfo: object({
+        title: string(),
+        authors: optional(array(string())),
+        publisher: optional(string()),
+        publishedDate: optional(string()),
+        language: optional(string()),
+        industryIdentifiers: optional(array(object({ type: string(), identifier: string() }))),
+        categories: optional(array(string())),
+        pageCount: optional(number()),
+        averageRating: optional(number()),
+        ratingsCount: optional(number()),
+        imageLinks: optional(object({ thumbnail: optional(string()), smallThumbnail: optional(string()) })),
+        previewLink: optional(string()),
+        infoLink: optional(string())
+    }),
+    // viewability is 'NO_PAGES', 'PARTIAL', 'ALL_PAGES' or 'UNKNOWN'
+    accessInfo: optional(object({
+        viewability: optional(string()),
+        embeddable: optional(boolean()),
+        publicDomain: optional(boolean()),
+        webReaderLink: optional(string())
+    }))
+});
+
+export type GoogleBooksVolume = Infer<typeof googleBooksVolumeSchema>;
+
+// /volumes; items is left out when nothing matched
+export const googleBooksSearchSchema = object({
+    totalItems: number(),
+    items: optional(array(googleBooksVolumeSchema))
+});
+
+export type GoogleBooksSearchResponse = Infer<typeof googleBooksSearchSchema>;
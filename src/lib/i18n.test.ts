@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { en } from '@/locales/en';
+import { createTranslator, LOCALES, MESSAGES } from './i18n';
+
+// Messages is meant to catch these at type-check time; this catches them when a catalog is cast or built at runtime too
+const placeholders = (message: string): string[] => [...message.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort();
+
+describe('message catalogs', () => {
+    it.each(LOCALES)('%s has every English key and no others', locale => {
+        expect(Object.keys(MESSAGES[locale]).sort()).toEqual(Object.keys(en).sort());
+    });
+
+    it.each(LOCALES)('%s keeps the placeholders of each English message', locale => {
+        const messages: Record<string, string> = MESSAGES[locale];
+        Object.entries(en).forEach(([key, message]) => {
+            expect([key, placeholders(messages[key] ?? '')]).toEqual([key, placeholders(message)]);
+        });
+    });
+
+    it.each(LOCALES)('%s has no empty messages', locale => {
+        const empty = Object.entries(MESSAGES[locale]).filter(([, message]) => !message.trim()).map(([key]) => key);
+        expect(empty).toEqual([]);
+    });
+});
+
+describe('createTranslator', () => {
+    it('formats plural counts for the locale', () => {
+        expect(createTranslator('en').plural('suggestions.works', 1)).toBe('1 work');
+        expect(createTranslator('en').plural('suggestions.works', 12345)).toBe('12,345 works');
+        expect(createTranslator('es').plural('suggestions.works', 12345)).toBe('12.345 obras');
+    });
+});
@@ -0,0 +1,87 @@
+import { en } from '@/locales/en';
+import { es } from '@/locales/es';
+import { languageName } from './languages';
+
+export type MessageKey = keyof typeof en;
+
+// Names inside {braces} in a message, e.g. 'count' | 'page'
+type Placeholders<S extends string> = S extends `${string}{${infer Name}}${infer Rest}` ? Name | Placeholders<Rest> : never;
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+// A translation of an English message must keep each of its placeholders
+type Translation<S extends string> = [Placeholders<S>] extends [never]
+    ? string
+    : UnionToIntersection<Placeholders<S> extends infer Name ? (Name extends string ? `${string}{${Name}}${string}` : never) : never>;
+
+// The shape every catalog must have: all English keys, none extra, placeholders intact.
+// A missing or misspelled key, or a dropped placeholder, fails the type check.
+export type Messages = { [K in MessageKey]: Translation<(typeof en)[K]> };
+
+export type MessageParams<K extends MessageKey> = [Placeholders<(typeof en)[K]>] extends [never]
+    ? []
+    : [Record<Placeholders<(typeof en)[K]>, string | number>];
+
+// Message keys with plural forms, e.g. 'results.found' for 'results.found.one' and 'results.found.other'
+export type PluralKey = { [K in MessageKey]: K extends `${infer Base}.other` ? Base : never }[MessageKey];
+
+export type Locale = 'en' | 'es';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const MESSAGES: Record<Locale, Messages> = { en, es };
+
+export const LOCALES = Object.keys(MESSAGES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && LOCALES.includes(value as Locale);
+
+// First supported locale among the browser's preferences, matching on the language alone (es-MX -> es)
+export const matchLocale = (preferences: readonly string[]): Locale =>
+    preferences.map(tag => tag.split('-')[0].toLowerCase()).find(isLocale) || DEFAULT_LOCALE;
+
+export const interpolate = (message: string, params: Record<string, string | number> = {}): string =>
+    message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+
+export interface Translator {
+    locale: Locale;
+    t: <K extends MessageKey>(key: K, ...params: MessageParams<K>) => string;
+    // The message with its placeholders left in, for callers that fill them with something other than text
+    template: (key: MessageKey) => string;
+    // The plural form of key for count, with {count} formatted for the locale
+    plural: (key: PluralKey, count: number) => string;
+    pluralKey: (key: PluralKey, count: number) => MessageKey;
+    formatNumber: (value: number) => string;
+    formatDate: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+    // 'a, b and c' in the locale's own words
+    formatList: (values: string[]) => string;
+    languageName: (code: string) => string;
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+    const messages = MESSAGES[locale];
+    const pluralRules = new Intl.PluralRules(locale);
+    const numberFormat = new Intl.NumberFormat(locale);
+    const listFormat = new Intl.ListFormat(locale, { type: 'conjunction' });
+
+    // Categories a catalog leaves out (e.g. Spanish 'many' for a million) use the 'other' form
+    const pluralKey = (key: PluralKey, count: number): MessageKey => {
+        const exact = `${key}.${pluralRules.select(count)}`;
+        return (exact in messages ? exact : `${key}.other`) as MessageKey;
+    };
+
+    return {
+        locale,
+        t: (key, ...params) => interpolate(messages[key], params[0]),
+        template: key => messages[key],
+        plural: (key, count) => interpolate(messages[pluralKey(key, count)], { count: numberFormat.format(count) }),
+        pluralKey,
+        formatNumber: value => numberFormat.format(value),
+        formatDate: (value, options) => new Date(value).toLocaleString(locale, options),
+        formatList: values => listFormat.format(values),
+        languageName: code => languageName(code, locale)
+    };
+};
+
+// For code that runs on the server or outside the locale context, e.g. API error messages
+export const ENGLISH = createTranslator(DEFAULT_LOCALE);
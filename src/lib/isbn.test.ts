@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { isValidIsbn, isbnError, parseIsbnList, toIsbn10, toIsbn13 } from './isbn';
+
+describe('isValidIsbn', () => {
+    it('accepts ISBN-10 and ISBN-13 with matching check digits', () => {
+        expect(isValidIsbn('0441013597')).toBe(true);
+        expect(isValidIsbn('9780441013593')).toBe(true);
+    });
+
+    it('rejects a wrong check digit', () => {
+        expect(isValidIsbn('0441013598')).toBe(false);
+        expect(isValidIsbn('9780441013594')).toBe(false);
+    });
+
+    it('reads X as a check digit of ten, but only in an ISBN-10', () => {
+        expect(isValidIsbn('080442957X')).toBe(true);
+        expect(isValidIsbn('080442957x')).toBe(true);
+        expect(isValidIsbn('978044101359X')).toBe(false);
+    });
+
+    it('ignores hyphens and spaces', () => {
+        expect(isValidIsbn('0-8044-2957-X')).toBe(true);
+        expect(isValidIsbn('978 0 441 01359 3')).toBe(true);
+    });
+});
+
+describe('toIsbn13 and toIsbn10', () => {
+    it('converts between the two forms', () => {
+        expect(toIsbn13('0-441-01359-7')).toBe('9780441013593');
+        expect(toIsbn10('9780441013593')).toBe('0441013597');
+        expect(toIsbn10(toIsbn13('080442957X'))).toBe('080442957X');
+    });
+
+    it('has no ISBN-10 for a 979 prefix', () => {
+        expect(toIsbn10('9791090636071')).toBeNull();
+    });
+});
+
+describe('isbnError', () => {
+    it('gives the message key for why an ISBN is rejected', () => {
+        expect(isbnError('04410135A7')).toBe('isbn.invalidCharacters');
+        expect(isbnError('044101359')).toBe('isbn.wrongLength');
+        expect(isbnError('0441013598')).toBe('isbn.checkDigit');
+    });
+});
+
+describe('parseIsbnList', () => {
+    it('splits on mixed separators and normalises to ISBN-13', () => {
+        const text = '0441013597\n9780306406157, 0-8044-2957-X;979-10-90636-07-1\t0306406152 | 9780141439518';
+
+        expect(parseIsbnList(text).map(parsed => 'isbn' in parsed && parsed.isbn)).toEqual([
+            '9780441013593',
+            '9780306406157',
+            toIsbn13('080442957X'),
+            '9791090636071',
+            '9780306406157',
+            '9780141439518'
+        ]);
+    });
+
+    it('strips quotes and ISBN labels, and skips cells that are not ISBNs', () => {
+        expect(parseIsbnList('"Title","ISBN-13: 978-0-441-01359-3"\r\nDune,"ISBN 0441013597"')).toEqual([
+            { input: '978-0-441-01359-3', isbn: '9780441013593' },
+            { input: '0441013597', isbn: '9780441013593' }
+        ]);
+    });
+
+    it('reports invalid ISBNs with the reason', () => {
+        expect(parseIsbnList('0441013598')).toEqual([{ input: '0441013598', error: 'isbn.checkDigit' }]);
+    });
+
+    it('keeps duplicates for the import to count', () => {
+        expect(parseIsbnList('0441013597\n9780441013593')).toHaveLength(2);
+    });
+});
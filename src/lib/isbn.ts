@@ -0,0 +1,80 @@
+import { IsbnErrorKey } from '@/types/types';
+
+// Strip hyphens and spaces from an ISBN
+export const cleanIsbn = (isbn: string): string => isbn.replace(/[\s-]/g, '').toUpperCase();
+
+// Convert an ISBN-10 to its ISBN-13 form; other values are returned cleaned but unchanged
+export const toIsbn13 = (isbn: string): string => {
+    const cleaned = cleanIsbn(isbn);
+    if (cleaned.length !== 10) return cleaned;
+
+    const body = `978${cleaned.slice(0, 9)}`;
+    const sum = body
+        .split('')
+        .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+    return `${body}${(10 - (sum % 10)) % 10}`;
+};
+
+// Check the length and checksum of an ISBN-10 or ISBN-13
+export const isValidIsbn = (isbn: string): boolean => {
+    const cleaned = cleanIsbn(isbn);
+
+    if (/^\d{9}[\dX]$/.test(cleaned)) {
+        const sum = cleaned
+            .split('')
+            .reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+        return sum % 11 === 0;
+    }
+
+    if (/^\d{13}$/.test(cleaned)) {
+        const sum = cleaned
+            .split('')
+            .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+        return sum % 10 === 0;
+    }
+
+    return false;
+};
+
+// Convert an ISBN to its ISBN-10 form; null for 979 ISBNs, which have none
+export const toIsbn10 = (isbn: string): string | null => {
+    const cleaned = cleanIsbn(isbn);
+    if (cleaned.length === 10) return cleaned;
+    if (cleaned.length !== 13 || !cleaned.startsWith('978')) return null;
+
+    const body = cleaned.slice(3, 12);
+    const sum = body
+        .split('')
+        .reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+    const check = (11 - (sum % 11)) % 11;
+    return `${body}${check === 10 ? 'X' : check}`;
+};
+
+// Why a value is not a valid ISBN, or null when it is one
+export const isbnError = (isbn: string): IsbnErrorKey | null => {
+    const cleaned = cleanIsbn(isbn);
+    if (!/^[\dX]+$/.test(cleaned)) return 'isbn.invalidCharacters';
+    if (cleaned.length !== 10 && cleaned.length !== 13) return 'isbn.wrongLength';
+    if (!isValidIsbn(cleaned)) return 'isbn.checkDigit';
+    return null;
+};
+
+export type ParsedIsbn = { input: string; isbn: string } | { input: string; error: IsbnErrorKey };
+
+// An ISBN-13 or ISBN-10 inside a longer cell, hyphens and spaces allowed
+const ISBN_PATTERN = /(?:\d[\s-]?){12}\d|(?:\d[\s-]?){9}[\dXx]/;
+// Cells with fewer digits are headers, years or page counts rather than broken ISBNs
+const MIN_ISBN_DIGITS = 8;
+
+// Pull ISBNs out of pasted text or an uploaded CSV/plain text list, one per line or cell.
+// Valid ISBNs are normalized to ISBN-13; anything that looks like an attempt at one is reported with its error.
+export const parseIsbnList = (text: string): ParsedIsbn[] =>
+    text
+        .split(/[\r\n,;\t|]+/)
+        .map(cell => cell.trim().replace(/^"+|"+$/g, '').replace(/^ISBN(?:-1[03])?:?/i, '').trim())
+        .filter(cell => (cell.match(/\d/g) || []).length >= MIN_ISBN_DIGITS)
+        .map(cell => {
+            const candidate = cell.match(ISBN_PATTERN)?.[0] || cell;
+            const error = isbnError(candidate);
+            return error ? { input: cell, error } : { input: cell, isbn: toIsbn13(candidate) };
+        });
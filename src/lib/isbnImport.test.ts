@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { prepareIsbnImport } from './isbnImport';
+
+describe('prepareIsbnImport', () => {
+    it('looks up each ISBN once, whichever form it was pasted in', () => {
+        expect(prepareIsbnImport('0441013597\n978-0-441-01359-3, 0441013598\n0306406152')).toEqual({
+            entries: [
+                { input: '0441013597', isbn: '9780441013593' },
+                { input: '0306406152', isbn: '9780306406157' }
+            ],
+            invalid: [{ input: '0441013598', error: 'isbn.checkDigit' }],
+            duplicates: 1
+        });
+    });
+});
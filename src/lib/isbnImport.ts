@@ -0,0 +1,68 @@
+import { Book, IsbnAvailability, IsbnImportResponse } from '@/types/types';
+import { enrichWithPreviews, fetchBookData } from './openLibrary';
+import { normalizeOpenLibraryEdition } from './bookNormalizer';
+import { parseIsbnList, toIsbn10 } from './isbn';
+import { ENGLISH, Translator } from './i18n';
+
+// ISBNs looked up in one import
+export const MAX_IMPORT_ISBNS = 500;
+
+export const IMPORT_AVAILABILITY: IsbnAvailability[] = ['fulltext', 'readable', 'preview', 'unavailable', 'not-found'];
+
+export const availabilityLabel = (availability: IsbnAvailability, { t }: Translator = ENGLISH): string =>
+    t(`import.status.${availability}`);
+
+export const availabilityOf = (book: Book | null): IsbnAvailability => {
+    if (!book) return 'not-found';
+    if (book.hasFulltext) return 'fulltext';
+    if (book.readable) return 'readable';
+    if (book.previewAvailable) return 'preview';
+    return 'unavailable';
+};
+
+type IsbnEntry = { input: string; isbn: string };
+
+// A pasted list split into ISBNs to look up and the lines that were rejected
+export type PreparedImport = Omit<IsbnImportResponse, 'results'> & { entries: IsbnEntry[] };
+
+// Editions are often catalogued under only one ISBN form, so both are tried
+const isbnBibkeys = (isbn: string): string[] =>
+    [isbn, toIsbn10(isbn)].filter((value): value is string => !!value).map(value => `ISBN:${value}`);
+
+// Validate and de-duplicate an ISBN list without looking anything up
+export const prepareIsbnImport = (text: string): PreparedImport => {
+    const entries: IsbnEntry[] = [];
+    const invalid: IsbnImportResponse['invalid'] = [];
+    const seen = new Set<string>();
+    let duplicates = 0;
+
+    parseIsbnList(text).forEach(parsed => {
+        if ('error' in parsed) {
+            invalid.push(parsed);
+        } else if (seen.has(parsed.isbn)) {
+            duplicates += 1;
+        } else {
+            seen.add(parsed.isbn);
+            entries.push(parsed);
+        }
+    });
+
+    return { entries, invalid, duplicates };
+};
+
+// Resolve ISBNs to editions through the books API, then check their previews like search results
+export const lookupIsbns = async (entries: IsbnEntry[], signal?: AbortSignal): Promise<IsbnImportResponse['results']> => {
+    const data = await fetchBookData(entries.flatMap(entry => isbnBibkeys(entry.isbn)), signal);
+
+    const editions = entries.map(entry => {
+        const bibkey = isbnBibkeys(entry.isbn).find(key => data[key]);
+        return bibkey ? normalizeOpenLibraryEdition(data[bibkey]) : null;
+    });
+    const enriched = await enrichWithPreviews(editions.filter((book): book is Book => !!book), signal);
+
+    let next = 0;
+    return entries.map((entry, index) => {
+        const book = editions[index] ? enriched[next++] : null;
+        return { ...entry, availability: availabilityOf(book), book };
+    });
+};
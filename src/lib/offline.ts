@@ -0,0 +1,20 @@
+// Offline support: the service worker in public/sw.js and telling dropped connections from other failures
+
+// Set by the service worker on a search response it served from its cache because the network failed;
+// the value is when that copy was saved. Must match SAVED_AT_HEADER in public/sw.js.
+export const OFFLINE_SAVED_AT_HEADER = 'X-Offline-Saved-At';
+
+// Only production builds use the service worker: in development its caches would serve stale bundles.
+// The worker is registered under the build id, so every deploy installs it afresh with caches of its own.
+export const registerServiceWorker = (): void => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    const buildId = (window as { __NEXT_DATA__?: { buildId?: string } }).__NEXT_DATA__?.buildId || 'unknown';
+    navigator.serviceWorker.register(`/sw.js?build=${encodeURIComponent(buildId)}`).catch((err: unknown) => {
+        console.error('Error registering service worker:', err);
+    });
+};
+
+// fetch rejects with a TypeError when the request never got a response, e.g. the connection dropped
+export const isNetworkError = (err: unknown): boolean =>
+    err instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
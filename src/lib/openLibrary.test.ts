@@ -0,0 +1,94 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERS } from './filters';
+
+// A fake Open Library answering the search and books APIs, reached through OPEN_LIBRARY_BASE_URL
+const requests: URL[] = [];
+
+const answer = (req: IncomingMessage): { status: number; body: unknown } => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url);
+
+    if (url.pathname === '/search.json') {
+        return {
+            status: 200,
+            body: {
+                numFound: 3,
+                start: 0,
+                docs: [
+                    { key: '/works/OL1W', title: 'Dune', author_name: ['Frank Herbert'], author_key: ['OL1A'], isbn: ['0441013597'], has_fulltext: false },
+                    { key: '/works/OL2W', title: 'Emma', author_name: ['Jane Austen'], has_fulltext: true, ia: ['emma00aust'] }
+                ]
+            }
+        };
+    }
+    if (url.pathname === '/api/books') {
+        return { status: 200, body: { 'ISBN:0441013597': { preview: 'borrow', preview_url: 'https://archive.org/details/dune00herb' } } };
+    }
+    return { status: 404, body: {} };
+};
+
+let server: Server;
+let openLibrary: typeof import('./openLibrary');
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        const { status, body } = answer(req);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    // Read when the client module loads, so it is set before importing it
+    process.env.OPEN_LIBRARY_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    openLibrary = await import('./openLibrary');
+});
+
+afterAll(async () => {
+    delete process.env.OPEN_LIBRARY_BASE_URL;
+    await new Promise(resolve => server.close(resolve));
+});
+
+describe('OPEN_LIBRARY_BASE_URL', () => {
+    it('sends searches to the fake server and normalizes what it answers', async () => {
+        const result = await openLibrary.openLibraryProvider.search('dune', DEFAULT_FILTERS);
+
+        expect(requests.some(url => url.pathname === '/search.json' && url.searchParams.get('q') === 'dune')).toBe(true);
+        expect(result.numFound).toBe(3);
+        expect(result.hasMore).toBe(true);
+        expect(result.books.map(book => [book.id, book.title, book.author])).toEqual([
+            ['/works/OL1W', 'Dune', 'Frank Herbert'],
+            ['/works/OL2W', 'Emma', 'Jane Austen']
+        ]);
+    });
+
+    it('resolves previews through the fake books API', async () => {
+        const { books } = await openLibrary.openLibraryProvider.search('dune', DEFAULT_FILTERS);
+        const [dune] = await openLibrary.enrichWithPreviews([books[0]]);
+
+        expect(requests.some(url => url.pathname === '/api/books' && url.searchParams.get('bibkeys')?.includes('ISBN:0441013597'))).toBe(true);
+        expect(dune.previewAvailable).toBe(true);
+        expect(dune.previewUrl).toBe('https://archive.org/details/dune00herb');
+    });
+});
+
+describe('getBibkeys', () => {
+    it('looks up only the first few of each identifier a popular work lists', async () => {
+        const { books } = await openLibrary.openLibraryProvider.search('dune', DEFAULT_FILTERS);
+        const book = {
+            ...books[0],
+            isbns: ['0441013597', '9780441013593', '0-441-17271-7', '0340960191', '9780340960196'],
+            olids: ['OL1M', 'OL2M', 'OL3M', 'OL4M'],
+            oclc: ['123'],
+            lccn: ['65 22627']
+        };
+
+        expect(openLibrary.getBibkeys(book)).toEqual([
+            'ISBN:0441013597', 'ISBN:9780441013593', 'ISBN:0441172717',
+            'OLID:OL1M', 'OLID:OL2M', 'OLID:OL3M',
+            'OCLC:123',
+            'LCCN:6522627'
+        ]);
+    });
+});
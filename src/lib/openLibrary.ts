@@ -0,0 +1,479 @@
+import { AdvancedFilters, AuthorDetails, AuthorPage, Book, BookPreview, Edition, SearchFacets, SearchResponse, SortOrder, SubjectPage, Suggestion, SuggestionType, WorkDetails } from '@/types/types';
+import type { CatalogProvider } from './catalog';
+import { isAbortError, throwIfAborted } from './abort';
+import { Cache, createCache } from './cache';
+import { chunk, mapWithConcurrency } from './concurrency';
+import { countValues, decadeOf } from './facets';
+import { cleanIsbn } from './isbn';
+import { languageName } from './languages';
+import { normalizeOpenLibraryBook, normalizeOpenLibrarySubjectWork } from './bookNormalizer';
+import { nullIfNotFound } from './errors';
+import { getOpenLibraryJson, OPEN_LIBRARY_BASE_URL, openLibraryUrl } from './openLibraryClient';
+import {
+    BookPreviewData,
+    bookPreviewDataSchema,
+    OpenLibraryBookData,
+    openLibraryBookDataResponseSchema,
+    OpenLibraryEdition,
+    openLibraryEditionsSchema,
+    openLibraryAuthorSchema,
+    OpenLibraryFacetDoc,
+    openLibraryFacetSearchSchema,
+    openLibraryNameSearchSchema,
+    openLibrarySearchSchema,
+    OpenLibrarySearchResponse,
+    openLibrarySubjectSchema,
+    OpenLibraryText,
+    openLibraryTitleSearchSchema,
+    openLibraryWorkSchema
+} from './openLibrarySchemas';
+import { Schema } from './schema';
+import { publishingDecades } from './subjects';
+
+const SEARCH_LIMIT = 20;
+// Facets are counted over this many top matches
+const FACET_SAMPLE_SIZE = 200;
+const PREVIEW_BATCH_SIZE = 10;
+// Preview batches requested at the same time
+const PREVIEW_CONCURRENCY = 4;
+// Popular works list hundreds of edition ISBNs; only the first few of each kind of identifier are looked up
+const MAX_BIBKEYS_PER_TYPE = 3;
+const PREVIEW_CACHE_TTL = 60 * 60 * 1000;
+
+const SORT_PARAMS: Record<SortOrder, string | null> = {
+    relevance: null,
+    newest: 'new',
+    oldest: 'old',
+    title: 'title'
+};
+
+// Build the search.json URL, sending each filter as its own field parameter
+export const buildSearchUrl = (query: string, filters: AdvancedFilters, page: number = 1): string => {
+    const params = new URLSearchParams();
+
+    // Ranges have no field parameter, so the year range goes into q as a Solr range
+    const yearRange = filters.yearFrom || filters.yearTo
+        ? `first_publish_year:[${filters.yearFrom || '*'} TO ${filters.yearTo || '*'}]`
+        : '';
+    const q = [query.trim(), yearRange].filter(Boolean).join(' ');
+    if (q) params.set('q', q);
+
+    if (filters.author) params.set('author', filters.author);
+    if (filters.subject) params.set('subject', filters.subject);
+    if (filters.publisher) params.set('publisher', filters.publisher);
+    if (filters.language) params.set('language', filters.language);
+    if (filters.isbn) params.set('isbn', cleanIsbn(filters.isbn));
+
+    const sort = SORT_PARAMS[filters.sort];
+    if (sort) params.set('sort', sort);
+
+    params.set('limit', String(SEARCH_LIMIT));
+    params.set('offset', String((page - 1) * SEARCH_LIMIT));
+
+    // Add has_fulltext parameter based on availability filter
+    if (filters.availability === 'fulltext') {
+        params.set('has_fulltext', 'true');
+    }
+
+    return `${OPEN_LIBRARY_BASE_URL}/search.json?${params.toString()}`;
+};
+
+// Records returned by the books API (/api/books) per bibkey, for one jscmd
+type BooksApiResponse<T> = { [bibkey: string]: T };
+
+const fetchBooksApiBatch = <T>(jscmd: string, schema: Schema<BooksApiResponse<T>>, bibkeys: string[], signal?: AbortSignal): Promise<BooksApiResponse<T>> =>
+    getOpenLibraryJson(openLibraryUrl('/api/books', { bibkeys: bibkeys.join(','), format: 'json', jscmd }), schema, { signal });
+
+// Look up bibkeys (ISBN:..., OLID:...) through the books API, in parallel batches.
+// Cached bibkeys skip the lookup. A failed batch is not cached, so it is retried next time, and
+// fails the lookup with its error once the other batches are done. Aborting the signal stops the remaining batches.
+const lookupBibkeys = async <T>(
+    jscmd: string,
+    schema: Schema<BooksApiResponse<T>>,
+    cache: Cache<T | null>,
+    bibkeys: string[],
+    signal?: AbortSignal
+): Promise<BooksApiResponse<T>> => {
+    const lookups = new Map<string, Promise<T | null>>();
+    const missing: string[] = [];
+
+    Array.from(new Set(bibkeys)).forEach(bibkey => {
+        const cached = cache.get(bibkey);
+        if (cached) {
+            lookups.set(bibkey, cached);
+        } else {
+            missing.push(bibkey);
+        }
+    });
+
+    await mapWithConcurrency(chunk(missing, PREVIEW_BATCH_SIZE), PREVIEW_CONCURRENCY, async batch => {
+        throwIfAborted(signal);
+        const batchData = fetchBooksApiBatch(jscmd, schema, batch, signal);
+        batch.forEach(bibkey => lookups.set(bibkey, cache.set(bibkey, batchData.then(data => data[bibkey] ?? null))));
+        await batchData.catch(() => undefined);
+    });
+
+    const found: BooksApiResponse<T> = {};
+    const keys = Array.from(lookups.keys());
+    const settled = await Promise.allSettled(keys.map(bibkey => lookups.get(bibkey)!));
+    throwIfAborted(signal);
+
+    const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected' && !isAbortError(result.reason));
+    if (failure) throw failure.reason;
+
+    settled.forEach((result, index) => {
+        if (result.status === 'fulfilled' && result.value) {
+            found[keys[index]] = result.value;
+        }
+    });
+
+    return found;
+};
+
+// Preview availability per bibkey; null records a bibkey the books API does not know
+const previewCache = createCache<BookPreviewData[string] | null>('previews', { ttl: PREVIEW_CACHE_TTL, maxEntries: 5000 });
+
+// Preview/borrow links for bibkeys (jscmd=viewapi)
+export const fetchPreviewData = (bibkeys: string[], signal?: AbortSignal): Promise<BookPreviewData> =>
+    lookupBibkeys('viewapi', bookPreviewDataSchema, previewCache, bibkeys, signal);
+
+// Edition records per bibkey, cached like previews
+const bookDataCache = createCache<OpenLibraryBookData | null>('book-data', { ttl: PREVIEW_CACHE_TTL, maxEntries: 5000 });
+
+// Edition metadata for bibkeys (jscmd=data): title, authors, publishers, identifiers and ebooks
+export const fetchBookData = (bibkeys: string[], signal?: AbortSignal): Promise<BooksApiResponse<OpenLibraryBookData>> =>
+    lookupBibkeys('data', openLibraryBookDataResponseSchema, bookDataCache, bibkeys, signal);
+
+export const toPreview = (info: BookPreviewData[string]): BookPreview => ({
+    previewAvailable: !!info.preview_url,
+    previewUrl: info.preview_url || null,
+    // If we have borrow info, this is likely borrowable/readable
+    readable: !!info.borrow_url,
+    readUrl: info.borrow_url || info.preview_url || null
+});
+
+// Internet Archive scans can always be previewed on archive.org
+export const iaPreview = (iaIdentifier: string): BookPreview => ({
+    previewAvailable: true,
+    previewUrl: `https://archive.org/details/${iaIdentifier}`,
+    readUrl: `https://archive.org/details/${iaIdentifier}`
+});
+
+// Bibkeys a book can be looked up by: its first few ISBNs and edition ids, then OCLC and LCCN numbers
+export const getBibkeys = (book: Book): string[] => {
+    const isbns = book.isbns?.length ? book.isbns : book.isbn ? [book.isbn] : [];
+    const firstFew = (prefix: string, values: string[]): string[] =>
+        Array.from(new Set(values.map(value => `${prefix}:${value}`))).slice(0, MAX_BIBKEYS_PER_TYPE);
+
+    return [
+        ...firstFew('ISBN', isbns.map(cleanIsbn)),
+        ...firstFew('OLID', book.olids || []),
+        ...firstFew('OCLC', book.oclc || []),
+        ...firstFew('LCCN', (book.lccn || []).map(lccn => lccn.replace(/\s/g, '')))
+    ];
+};
+
+// The first bibkey with a preview wins; otherwise the Internet Archive scan, then any borrow info found
+export const resolvePreview = (book: Book, previewData: BookPreviewData): BookPreview | null => {
+    const previews = getBibkeys(book)
+        .filter(bibkey => previewData[bibkey])
+        .map(bibkey => toPreview(previewData[bibkey]));
+
+    const preview = previews.find(candidate => candidate.previewAvailable);
+    if (preview) return preview;
+
+    // Handle Internet Archive identifiers for books without a bibkey preview but with IA ID
+    if (book.iaIdentifier) return { ...previews[0], ...iaPreview(book.iaIdentifier) };
+
+    return previews[0] || null;
+};
+
+export const enrichWithPreviews = async (books: Book[], signal?: AbortSignal): Promise<Book[]> => {
+    const previewData = await fetchPreviewData(books.flatMap(getBibkeys), signal);
+
+    return books.map((book): Book => {
+        const preview = resolvePreview(book, previewData);
+        // Keep a preview borrowed from a duplicate in another catalog over a lookup that found none
+        if (!preview || (!preview.previewAvailable && book.previewAvailable)) {
+            return { ...book, previewStatus: 'checked' };
+        }
+        return { ...book, ...preview, previewStatus: 'checked' };
+    });
+};
+
+export const buildFacets = (docs: OpenLibraryFacetDoc[]): SearchFacets => ({
+    subjects: countValues(docs.flatMap(doc => doc.subject || [])),
+    languages: countValues(docs.flatMap(doc => doc.language || []), languageName),
+    authors: countValues(docs.flatMap(doc => doc.author_name || [])),
+    decades: countValues(
+        docs.filter(doc => doc.first_publish_year).map(doc => decadeOf(doc.first_publish_year!)),
+        decade => `${decade}s`
+    )
+});
+
+const fetchSearch = (url: string, signal?: AbortSignal): Promise<OpenLibrarySearchResponse> =>
+    getOpenLibraryJson(url, openLibrarySearchSchema, { signal });
+
+export const openLibraryProvider: CatalogProvider = {
+    id: 'openlibrary',
+    name: 'Open Library',
+
+    async search(query: string, filters: AdvancedFilters, page: number = 1, signal?: AbortSignal): Promise<SearchResponse> {
+        const data = await fetchSearch(buildSearchUrl(query, filters, page), signal);
+        const found = data.docs.map(normalizeOpenLibraryBook);
+
+        // Preview availability is resolved separately (see enrichPreviews), so only full text is filtered here
+        const books = filters.availability === 'fulltext' ? found.filter(book => book.hasFulltext) : found;
+
+        return {
+            numFound: data.numFound,
+            start: data.start,
+            books,
+            filtered: found.length - books.length,
+            hasMore: data.start + data.docs.length < data.numFound
+        };
+    },
+
+    // Works are looked up through search.json so the result maps like any other search hit
+    async getById(id: string): Promise<Book | null> {
+        const data = await fetchSearch(
+            `${OPEN_LIBRARY_BASE_URL}/search.json?q=${encodeURIComponent(`key:${id}`)}&limit=1`
+        );
+        if (data.docs.length === 0) return null;
+
+        const [book] = await enrichWithPreviews([normalizeOpenLibraryBook(data.docs[0])]);
+        return book;
+    },
+
+    async getPreview(book: Book): Promise<BookPreview> {
+        const [enriched] = await enrichWithPreviews([book]);
+        return {
+            previewAvailable: enriched.previewAvailable,
+            previewUrl: enriched.previewUrl,
+            readUrl: enriched.readUrl,
+            readable: enriched.readable
+        };
+    },
+
+    enrichPreviews(books: Book[], signal?: AbortSignal): Promise<Book[]> {
+        return enrichWithPreviews(books, signal);
+    },
+
+    getBookUrl(book: Book): string {
+        return `https://openlibrary.org${book.id}`;
+    },
+
+    async getFacets(query: string, filters: AdvancedFilters, signal?: AbortSignal): Promise<SearchFacets> {
+        const url = new URL(buildSearchUrl(query, filters));
+        url.searchParams.set('limit', String(FACET_SAMPLE_SIZE));
+        url.searchParams.delete('offset');
+        url.searchParams.set('fields', 'subject,language,author_name,first_publish_year');
+
+        const data = await getOpenLibraryJson(url.toString(), openLibraryFacetSearchSchema, { signal });
+        return buildFacets(data.docs);
+    }
+};
+
+// Editions listed on a work page, each with a preview lookup; popular works have thousands
+const MAX_EDITIONS = 50;
+const AUTHOR_WORKS_PAGE_SIZE = 100;
+// Works listed on an author page; prolific authors have thousands of minor records
+const MAX_AUTHOR_WORKS = 500;
+const AUTHOR_PAGE_CACHE_TTL = 10 * 60 * 1000;
+const SUBJECT_WORKS_LIMIT = 48;
+const SUBJECT_PAGE_CACHE_TTL = 30 * 60 * 1000;
+
+const textValue = (text?: OpenLibraryText): string | null => {
+    if (!text) return null;
+    return typeof text === 'string' ? text : text.value;
+};
+
+// Covers lists can contain -1 placeholders for removed images
+const firstCover = (covers?: number[]): number | null => covers?.find(cover => cover > 0) ?? null;
+
+// A record by its path, e.g. /works/OL45804W.json; null when Open Library has no such record
+const fetchRecord = <T>(path: string, schema: Schema<T>): Promise<T | null> =>
+    nullIfNotFound(getOpenLibraryJson(openLibraryUrl(path), schema));
+
+const getAuthorDetails = async (key: string): Promise<AuthorDetails | null> => {
+    const author = await fetchRecord(`${key}.json`, openLibraryAuthorSchema);
+    if (!author) return null;
+
+    return {
+        id: author.key,
+        name: author.name,
+        bio: textValue(author.bio),
+        birthDate: author.birth_date || null,
+        deathDate: author.death_date || null,
+        photoId: firstCover(author.photos)
+    };
+};
+
+// The first MAX_EDITIONS editions of a work, and how many it has in all
+const getEditions = async (workKey: string): Promise<{ editions: OpenLibraryEdition[]; total: number }> => {
+    const data = await fetchRecord(`${workKey}/editions.json?limit=${MAX_EDITIONS}`, openLibraryEditionsSchema);
+    const editions = (data?.entries || []).slice(0, MAX_EDITIONS);
+    return { editions, total: Math.max(data?.size || 0, editions.length) };
+};
+
+const toEdition = (edition: OpenLibraryEdition, previewData: BookPreviewData): Edition => {
+    const olid = edition.key.replace('/books/', '');
+    const info = previewData[`OLID:${olid}`];
+    const preview = info ? toPreview(info) : null;
+
+    return {
+        id: edition.key,
+        title: edition.title,
+        isbn: edition.isbn_13?.[0] || edition.isbn_10?.[0] || null,
+        publisher: edition.publishers ? edition.publishers[0] : 'Unknown Publisher',
+        publishDate: edition.publish_date || 'Unknown Date',
+        languages: (edition.languages || []).map(language => language.key.replace('/languages/', '')),
+        coverId: firstCover(edition.covers),
+        iaIdentifier: edition.ocaid || null,
+        ...(!preview?.previewAvailable && edition.ocaid
+            ? iaPreview(edition.ocaid)
+            : preview || { previewAvailable: false, previewUrl: null, readUrl: null })
+    };
+};
+
+// Page through an author's works, oldest first, as search results so they carry availability
+const getAuthorWorks = async (authorId: string): Promise<Pick<AuthorPage, 'works' | 'totalWorks'>> => {
+    const works: Book[] = [];
+    let totalWorks = 0;
+
+    for (let offset = 0; offset < MAX_AUTHOR_WORKS; offset += AUTHOR_WORKS_PAGE_SIZE) {
+        const params = new URLSearchParams({
+            q: `author_key:${authorId}`,
+            sort: 'old',
+            limit: String(AUTHOR_WORKS_PAGE_SIZE),
+            offset: String(offset)
+        });
+        const data = await fetchSearch(`${OPEN_LIBRARY_BASE_URL}/search.json?${params.toString()}`);
+
+        totalWorks = data.numFound;
+        works.push(...data.docs.map(normalizeOpenLibraryBook));
+        if (data.docs.length < AUTHOR_WORKS_PAGE_SIZE || works.length >= totalWorks) break;
+    }
+
+    return { works, totalWorks };
+};
+
+const authorPageCache = createCache<AuthorPage | null>('author-pages', { ttl: AUTHOR_PAGE_CACHE_TTL, maxEntries: 100 });
+
+// Load an author's bio, photo and works; null when the author does not exist.
+// Previews are not resolved here: the works start out 'checking' like deferred search results.
+export const getAuthorPage = (authorId: string): Promise<AuthorPage | null> =>
+    authorPageCache.getOrLoad(authorId, async () => {
+        const [author, works] = await Promise.all([getAuthorDetails(`/authors/${authorId}`), getAuthorWorks(authorId)]);
+        return author ? { author, ...works } : null;
+    });
+
+const subjectPageCache = createCache<SubjectPage | null>('subject-pages', { ttl: SUBJECT_PAGE_CACHE_TTL, maxEntries: 100 });
+
+// Load a subject's best-known works, related subjects, prolific authors and publishing history;
+// null when Open Library has no works for it. Previews start out 'checking' as on author pages.
+export const getSubjectPage = (slug: string): Promise<SubjectPage | null> =>
+    subjectPageCache.getOrLoad(slug, async () => {
+        // Typed subjects ("place:paris") keep their colon in the path
+        const path = `/subjects/${encodeURIComponent(slug).replace(/%3A/gi, ':')}.json`;
+        const subject = await fetchRecord(`${path}?details=true&limit=${SUBJECT_WORKS_LIMIT}`, openLibrarySubjectSchema);
+        if (!subject || subject.work_count === 0) return null;
+
+        return {
+            slug,
+            name: subject.name,
+            workCount: subject.work_count,
+            works: subject.works.map(normalizeOpenLibrarySubjectWork),
+            relatedSubjects: (subject.subjects || [])
+                .filter(related => related.key !== subject.key)
+                .map(related => ({ value: related.key.replace(/^\/subjects\//, ''), label: related.name, count: related.count })),
+            authors: (subject.authors || []).map(author => ({
+                value: author.key.replace(/^\/authors\//, ''),
+                label: author.name,
+                count: author.count
+            })),
+            publishingDecades: publishingDecades(subject.publishing_history || [])
+        };
+    });
+
+// Load a work with its description, subjects, author bios and first editions; null when the work does not exist
+export const getWorkDetails = async (workId: string): Promise<WorkDetails | null> => {
+    const workKey = `/works/${workId}`;
+    const work = await fetchRecord(`${workKey}.json`, openLibraryWorkSchema);
+    if (!work) return null;
+
+    const [authors, { editions, total }] = await Promise.all([
+        Promise.all((work.authors || []).map(({ author }) => getAuthorDetails(author.key))),
+        getEditions(workKey)
+    ]);
+
+    // Every edition has an OLID, so look previews up by it rather than by ISBN
+    const previewData = await fetchPreviewData(
+        editions.map(edition => `OLID:${edition.key.replace('/books/', '')}`)
+    );
+
+    return {
+        id: work.key,
+        title: work.title,
+        description: textValue(work.description),
+        subjects: work.subjects || [],
+        firstPublishDate: work.first_publish_date || null,
+        coverId: firstCover(work.covers),
+        authors: authors.filter((author): author is AuthorDetails => author !== null),
+        editions: editions.map(edition => toEdition(edition, previewData)),
+        editionCount: total
+    };
+};
+
+// Solr syntax is stripped from type-ahead input; the last word is matched as a prefix
+const prefixQuery = (term: string): string => {
+    const words = term.replace(/[^\p{L}\p{N}\s'-]/gu, ' ').trim().split(/\s+/).filter(Boolean);
+    return words.length ? `${words.join(' ')}*` : '';
+};
+
+const fetchSuggestionDocs = <T>(path: string, params: Record<string, string>, schema: Schema<T>, signal?: AbortSignal): Promise<T> =>
+    getOpenLibraryJson(openLibraryUrl(path, params), schema, { signal });
+
+// Type-ahead candidates from the title, author or subject search, without repeats
+export const searchSuggestions = async (
+    type: SuggestionType,
+    term: string,
+    limit: number,
+    signal?: AbortSignal
+): Promise<Suggestion[]> => {
+    const query = prefixQuery(term);
+    if (!query) return [];
+
+    let suggestions: Suggestion[];
+    if (type === 'title') {
+        // Several editions of a work can share a title, so ask for more than are shown
+        const data = await fetchSuggestionDocs('/search.json', {
+            q: `title:(${query})`,
+            fields: 'title,author_name',
+            limit: String(limit * 2)
+        }, openLibraryTitleSearchSchema, signal);
+        suggestions = data.docs.map(doc => ({ value: doc.title, detail: doc.author_name?.[0] || null }));
+    } else if (type === 'author') {
+        const data = await fetchSuggestionDocs('/search/authors.json', {
+            q: query,
+            limit: String(limit)
+        }, openLibraryNameSearchSchema, signal);
+        suggestions = data.docs.map(doc => ({ value: doc.name, detail: doc.top_work || null }));
+    } else {
+        const data = await fetchSuggestionDocs('/search/subjects.json', {
+            q: query,
+            limit: String(limit)
+        }, openLibraryNameSearchSchema, signal);
+        suggestions = data.docs.map(doc => ({ value: doc.name, detail: null, workCount: doc.work_count || undefined }));
+    }
+
+    const seen = new Set<string>();
+    return suggestions
+        .filter(suggestion => {
+            const key = suggestion.value.toLowerCase();
+            if (!suggestion.value || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, limit);
+};
@@ -0,0 +1,22 @@
+// The one way the server talks to Open Library: rate limited, timed out, retried with backoff,
+// validated against a schema, and failing with the error types from ./errors
+import { createCatalogClient, RequestOptions } from './catalogClient';
+import { Schema } from './schema';
+
+// Override with OPEN_LIBRARY_BASE_URL to point at a local fake server
+export const OPEN_LIBRARY_BASE_URL = process.env.OPEN_LIBRARY_BASE_URL || 'https://openlibrary.org';
+
+// Open Library asks API clients to keep to a few requests per second and to identify themselves
+const REQUESTS_PER_SECOND = Number(process.env.OPEN_LIBRARY_REQUESTS_PER_SECOND) || 5;
+const REQUEST_BURST = 10;
+
+const client = createCatalogClient({ name: 'openlibrary', requestsPerSecond: REQUESTS_PER_SECOND, burst: REQUEST_BURST });
+
+export const openLibraryUrl = (path: string, params?: Record<string, string> | URLSearchParams): string => {
+    const query = params ? new URLSearchParams(params).toString() : '';
+    return `${OPEN_LIBRARY_BASE_URL}${path}${query ? `?${query}` : ''}`;
+};
+
+// GET JSON from Open Library and validate it against schema; see CatalogClient.getJson for retries and errors
+export const getOpenLibraryJson = <T>(url: string, schema: Schema<T>, options?: RequestOptions): Promise<T> =>
+    client.getJson(url, schema, options);
@@ -0,0 +1,171 @@
+// Shapes of the Open Library responses we use, checked at runtime by getOpenLibraryJson.
+// Only the fields read here are declared; anything else in a response is dropped.
+import { array, boolean, Infer, number, object, optional, record, string, tuple, union } from './schema';
+
+const strings = optional(array(string()));
+
+// search.json document with the default fields
+export const openLibraryBookSchema = object({
+    key: string(),
+    title: string(),
+    author_name: strings,
+    author_key: strings,
+    first_publish_year: optional(number()),
+    cover_i: optional(number()),
+    publisher: strings,
+    language: strings,
+    isbn: strings,
+    oclc: strings,
+    lccn: strings,
+    subject: strings,
+    edition_count: optional(number()),
+    edition_key: strings,
+    cover_edition_key: optional(string()),
+    ratings_average: optional(number()),
+    ratings_count: optional(number()),
+    number_of_pages_median: optional(number()),
+    has_fulltext: optional(boolean()),
+    ia: strings
+});
+
+export type OpenLibraryBook = Infer<typeof openLibraryBookSchema>;
+
+export const openLibrarySearchSchema = object({
+    numFound: number(),
+    start: number(),
+    docs: array(openLibraryBookSchema)
+});
+
+export type OpenLibrarySearchResponse = Infer<typeof openLibrarySearchSchema>;
+
+// search.json asked only for the fields facets are counted on
+export const openLibraryFacetSearchSchema = object({
+    docs: array(object({
+        subject: strings,
+        language: strings,
+        author_name: strings,
+        first_publish_year: optional(number())
+    }))
+});
+
+export type OpenLibraryFacetDoc = Infer<typeof openLibraryFacetSearchSchema>['docs'][number];
+
+// search.json asked for title suggestions
+export const openLibraryTitleSearchSchema = object({
+    docs: array(object({ title: string(), author_name: strings }))
+});
+
+// /search/authors.json and /search/subjects.json
+export const openLibraryNameSearchSchema = object({
+    docs: array(object({ name: string(), top_work: optional(string()), work_count: optional(number()) }))
+});
+
+// Books API (/api/books) preview links per bibkey, jscmd=viewapi
+export const bookPreviewDataSchema = record(object({
+    preview_url: optional(string()),
+    borrow_url: optional(string())
+}));
+
+export type BookPreviewData = Infer<typeof bookPreviewDataSchema>;
+
+// Books API edition record per bibkey, jscmd=data
+export const openLibraryBookDataSchema = object({
+    key: string(),
+    title: string(),
+    authors: optional(array(object({ name: string(), url: optional(string()) }))),
+    publishers: optional(array(object({ name: string() }))),
+    publish_date: optional(string()),
+    number_of_pages: optional(number()),
+    subjects: optional(array(object({ name: string() }))),
+    cover: optional(object({ small: optional(string()), medium: optional(string()), large: optional(string()) })),
+    identifiers: optional(object({
+        isbn_10: strings,
+        isbn_13: strings,
+        oclc: strings,
+        lccn: strings,
+        openlibrary: strings
+    })),
+    // availability is 'full', 'borrow' or 'restricted'
+    ebooks: optional(array(object({
+        preview_url: optional(string()),
+        availability: optional(string()),
+        borrow_url: optional(string()),
+        read_url: optional(string())
+    })))
+});
+
+export type OpenLibraryBookData = Infer<typeof openLibraryBookDataSchema>;
+
+export const openLibraryBookDataResponseSchema = record(openLibraryBookDataSchema);
+
+// Text fields are either plain strings or { type, value } objects
+const textSchema = optional(union(string(), object({ value: string() })));
+
+export type OpenLibraryText = Infer<typeof textSchema>;
+
+export const openLibraryWorkSchema = object({
+    key: string(),
+    title: string(),
+    description: textSchema,
+    subjects: strings,
+    first_publish_date: optional(string()),
+    covers: optional(array(number())),
+    authors: optional(array(object({ author: object({ key: string() }) })))
+});
+
+export const openLibraryAuthorSchema = object({
+    key: string(),
+    name: string(),
+    bio: textSchema,
+    birth_date: optional(string()),
+    death_date: optional(string()),
+    photos: optional(array(number()))
+});
+
+const openLibraryEditionSchema = object({
+    key: string(),
+    title: string(),
+    isbn_13: strings,
+    isbn_10: strings,
+    publishers: strings,
+    publish_date: optional(string()),
+    languages: optional(array(object({ key: string() }))),
+    covers: optional(array(number())),
+    ocaid: optional(string())
+});
+
+export type OpenLibraryEdition = Infer<typeof openLibraryEditionSchema>;
+
+export const openLibraryEditionsSchema = object({
+    size: number(),
+    entries: array(openLibraryEditionSchema)
+});
+
+const openLibrarySubjectWorkSchema = object({
+    key: string(),
+    title: string(),
+    edition_count: optional(number()),
+    cover_id: optional(number()),
+    cover_edition_key: optional(string()),
+    subject: strings,
+    authors: optional(array(object({ key: string(), name: string() }))),
+    first_publish_year: optional(number()),
+    has_fulltext: optional(boolean()),
+    // A single Internet Archive identifier, unlike the list search.json returns
+    ia: optional(string())
+});
+
+export type OpenLibrarySubjectWork = Infer<typeof openLibrarySubjectWorkSchema>;
+
+const subjectCountSchema = object({ key: string(), name: string(), count: number() });
+
+// /subjects/<slug>.json?details=true
+export const openLibrarySubjectSchema = object({
+    key: string(),
+    name: string(),
+    work_count: number(),
+    works: array(openLibrarySubjectWorkSchema),
+    authors: optional(array(subjectCountSchema)),
+    subjects: optional(array(subjectCountSchema)),
+    publishing_history: optional(array(tuple(number(), number())))
+});
@@ -0,0 +1,41 @@
+import { delay } from './abort';
+
+export interface RateLimiter {
+    // Resolves once the caller may send its request; rejects with an AbortError if the signal aborts first
+    acquire(signal?: AbortSignal): Promise<void>;
+}
+
+interface RateLimiterOptions {
+    requestsPerSecond: number;
+    // Requests allowed at once after a quiet spell
+    burst: number;
+}
+
+// Token bucket: tokens refill at requestsPerSecond up to burst. Callers that find it empty take a token
+// anyway, running the balance negative, and wait until the refill has covered it, so they go in turn.
+export const createRateLimiter = ({ requestsPerSecond, burst }: RateLimiterOptions): RateLimiter => {
+    let tokens = burst;
+    let updatedAt = Date.now();
+
+    const refill = () => {
+        const now = Date.now();
+        tokens = Math.min(burst, tokens + ((now - updatedAt) / 1000) * requestsPerSecond);
+        updatedAt = now;
+    };
+
+    return {
+        async acquire(signal) {
+            refill();
+            tokens -= 1;
+            if (tokens >= 0) return;
+
+            try {
+                await delay((-tokens / requestsPerSecond) * 1000, signal);
+            } catch (err: unknown) {
+                // Give the slot back to the callers queued behind
+                tokens += 1;
+                throw err;
+            }
+        }
+    };
+};
@@ -0,0 +1,68 @@
+import { Book, ReadingPosition } from '@/types/types';
+import { createCache } from './cache';
+import { iaPreview } from './openLibrary';
+
+const STORAGE_KEY = 'rivel-books:reading-positions';
+const PAGE_COUNT_CACHE_TTL = 24 * 60 * 60 * 1000;
+// Other scans offered for switching, beyond the book itself
+const MAX_READER_EDITIONS = 20;
+
+// Internet Archive item the BookReader can open: the scan behind an archive.org preview link, else the book's own scan
+export const getReaderIdentifier = (book: Book): string | null => {
+    const match = book.previewUrl?.match(/archive\.org\/(?:details|embed|stream)\/([^/?#]+)/);
+    return match ? match[1] : book.iaIdentifier;
+};
+
+// BookReader embed opened at a 1-based page; BookReader counts pages ("leaves") from 0
+export const getBookReaderUrl = (identifier: string, page: number = 1): string =>
+    `https://archive.org/stream/${encodeURIComponent(identifier)}?ui=embed#page/n${Math.max(page, 1) - 1}/mode/1up`;
+
+// Editions the reader can switch between: the book itself, then its other Internet Archive scans
+export const getReaderEditions = (book: Book): Book[] => {
+    const current = getReaderIdentifier(book);
+    const scans = (book.iaIdentifiers || [])
+        .filter(identifier => identifier !== current)
+        .slice(0, MAX_READER_EDITIONS)
+        .map(identifier => ({ ...book, iaIdentifier: identifier, ...iaPreview(identifier) }));
+    return [book, ...scans];
+};
+
+const readPositions = (storage: Storage): Record<string, ReadingPosition> => {
+    try {
+        return JSON.parse(storage.getItem(STORAGE_KEY) || '{}');
+    } catch (err: unknown) {
+        console.error('Error reading reading positions:', err);
+        return {};
+    }
+};
+
+export const loadReadingPosition = (identifier: string, storage: Storage = window.localStorage): ReadingPosition | null =>
+    readPositions(storage)[identifier] || null;
+
+export const saveReadingPosition = (identifier: string, position: ReadingPosition, storage: Storage = window.localStorage): void => {
+    try {
+        storage.setItem(STORAGE_KEY, JSON.stringify({ ...readPositions(storage), [identifier]: position }));
+    } catch (err: unknown) {
+        console.error('Error saving reading position:', err);
+    }
+};
+
+// Percentage read, null while the page count is unknown
+export const readingProgress = (position: ReadingPosition): number | null =>
+    position.pageCount ? Math.min(100, Math.round((position.page / position.pageCount) * 100)) : null;
+
+const pageCountCache = createCache<number | null>('page-counts', { ttl: PAGE_COUNT_CACHE_TTL });
+
+// Number of page images in a scan, from the archive.org metadata API
+export const fetchPageCount = (identifier: string, signal?: AbortSignal): Promise<number | null> =>
+    pageCountCache.getOrLoad(identifier, async loadSignal => {
+        const response = await fetch(
+            `https://archive.org/metadata/${encodeURIComponent(identifier)}/metadata/imagecount`,
+            { signal: loadSignal }
+        );
+        if (!response.ok) return null;
+
+        const data: { result?: string | number } = await response.json();
+        const count = Number(data.result);
+        return Number.isInteger(count) && count > 0 ? count : null;
+    }, signal);
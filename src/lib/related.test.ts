@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '@/types/types';
+import { makeBook } from '@/test/books';
+import { compareBooks, rankRelatedBooks, relatedSearches } from './related';
+
+const emma = makeBook({
+    id: '/works/OL66554W',
+    title: 'Emma',
+    author: 'Jane Austen',
+    year: 1815,
+    subjects: ['Fiction', 'Courtship', 'England']
+});
+
+describe('compareBooks', () => {
+    it('excludes the book itself', () => {
+        expect(compareBooks(emma, makeBook({ ...emma, title: 'Emma (Annotated)' }))).toBeNull();
+    });
+
+    it('excludes another record of the same work: same title and author, however they are spaced and cased', () => {
+        const edition = makeBook({ id: '/works/OL999W', title: '  EMMA ', author: 'jane  austen', subjects: ['Fiction'] });
+        expect(compareBooks(emma, edition)).toBeNull();
+    });
+
+    it('keeps a same-titled book by someone else', () => {
+        const namesake = makeBook({ id: '/works/OL2W', title: 'Emma', author: 'Emma Tennant', subjects: ['Fiction'] });
+        expect(compareBooks(emma, namesake)?.sameAuthor).toBe(false);
+    });
+
+    it('excludes books with neither an author nor a subject in common', () => {
+        expect(compareBooks(emma, makeBook({ id: '/works/OL3W', author: 'Frank Herbert', subjects: ['Science fiction'] }))).toBeNull();
+    });
+
+    it('does not treat unknown authors as the same author', () => {
+        const anonymous = makeBook({ id: '/works/OL4W', title: 'Anonymous', subjects: ['Poetry'] });
+        expect(compareBooks(makeBook({ subjects: ['Fiction'] }), anonymous)).toBeNull();
+    });
+
+    it('scores shared subjects, the same author and the same era', () => {
+        const persuasion = makeBook({ id: '/works/OL5W', title: 'Persuasion', author: 'Jane Austen', year: 1817, subjects: ['fiction', 'England'] });
+
+        expect(compareBooks(emma, persuasion)).toEqual({
+            book: persuasion,
+            // 2 subjects x 2, author 4, era 2
+            score: 10,
+            sharedSubjects: ['fiction', 'England'],
+            sameAuthor: true,
+            sameEra: true
+        });
+    });
+
+    it('counts only the first few shared subjects', () => {
+        const subjects = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+        const related = compareBooks(makeBook({ subjects }), makeBook({ id: '/works/OL6W', subjects }));
+        expect(related?.sharedSubjects).toHaveLength(7);
+        expect(related?.score).toBe(10);
+    });
+});
+
+describe('rankRelatedBooks', () => {
+    const candidate = (id: string, overrides: Partial<Book>): Book =>
+        makeBook({ id, title: id, author: 'Someone Else', year: 1950, subjects: ['Fiction'], ...overrides });
+
+    it('counts a candidate found by several searches once', () => {
+        const persuasion = candidate('/works/OL5W', { author: 'Jane Austen' });
+        const ranked = rankRelatedBooks(emma, [persuasion, candidate('/works/OL7W', {}), persuasion]);
+        expect(ranked.map(related => related.book.id)).toEqual(['/works/OL5W', '/works/OL7W']);
+    });
+
+    it('leaves out the book itself and other records of its work', () => {
+        const ranked = rankRelatedBooks(emma, [emma, makeBook({ ...emma, id: '/works/OL999W' }), candidate('/works/OL7W', {})]);
+        expect(ranked.map(related => related.book.id)).toEqual(['/works/OL7W']);
+    });
+
+    it('puts full text before borrowable before previewable before the rest, whatever their scores', () => {
+        const ranked = rankRelatedBooks(emma, [
+            candidate('none', { author: 'Jane Austen', year: 1816, subjects: ['Fiction', 'Courtship', 'England'] }),
+            candidate('preview', { previewAvailable: true }),
+            candidate('fulltext', { hasFulltext: true, previewAvailable: true }),
+            candidate('borrowable', { readable: true })
+        ]);
+        expect(ranked.map(related => related.book.id)).toEqual(['fulltext', 'borrowable', 'preview', 'none']);
+    });
+
+    it('orders equally readable books by score, then ratings, then title', () => {
+        const ranked = rankRelatedBooks(emma, [
+            candidate('b', {}),
+            candidate('a', {}),
+            candidate('rated', { ratingsCount: 40 }),
+            candidate('alike', { subjects: ['Fiction', 'England'] })
+        ]);
+        expect(ranked.map(related => related.book.id)).toEqual(['alike', 'rated', 'a', 'b']);
+    });
+
+    it('keeps only books with the availability asked for, up to the limit', () => {
+        const books = [
+            candidate('fulltext', { hasFulltext: true }),
+            candidate('preview', { previewAvailable: true }),
+            candidate('none', {})
+        ];
+        expect(rankRelatedBooks(emma, books, 'preview').map(related => related.book.id)).toEqual(['preview']);
+        expect(rankRelatedBooks(emma, books, 'fulltext').map(related => related.book.id)).toEqual(['fulltext']);
+        expect(rankRelatedBooks(emma, books, 'all', 2)).toHaveLength(2);
+    });
+});
+
+describe('relatedSearches', () => {
+    it('searches the first named author and the first two subjects', () => {
+        expect(relatedSearches(emma, 'preview').map(({ author, subject, availability }) => ({ author, subject, availability }))).toEqual([
+            { author: 'Jane Austen', subject: '', availability: 'preview' },
+            { author: '', subject: 'Fiction', availability: 'preview' },
+            { author: '', subject: 'Courtship', availability: 'preview' }
+        ]);
+    });
+});
@@ -0,0 +1,107 @@
+import { AdvancedFilters, Book, RelatedBook } from '@/types/types';
+import { searchCatalog } from './catalog';
+import { DEFAULT_FILTERS, matchesAvailability } from './filters';
+import { throwIfAborted } from './abort';
+
+// Suggestions shown per book
+export const MAX_RELATED_BOOKS = 8;
+
+// Subjects searched for candidates, in the order the catalog lists them
+const MAX_SUBJECT_SEARCHES = 2;
+
+const SUBJECT_WEIGHT = 2;
+// Past this many shared subjects a candidate is no more alike, just more thoroughly catalogued
+const MAX_SCORED_SUBJECTS = 5;
+const AUTHOR_WEIGHT = 4;
+const ERA_WEIGHT = 2;
+const ERA_YEARS = 20;
+
+type Availability = AdvancedFilters['availability'];
+
+const normalize = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Named authors only; 'Unknown Author' placeholders would otherwise make strangers look related
+const authorsOf = (book: Book): string[] =>
+    (book.authors?.length ? book.authors : [book.author]).filter(author => author && author !== 'Unknown Author');
+
+const firstPublished = (book: Book): number | null => {
+    const year = typeof book.year === 'number' ? book.year : parseInt(book.year, 10);
+    return Number.isFinite(year) ? year : null;
+};
+
+// Full text first, then borrowable, then previewable, as in an ISBN import
+const readability = (book: Book): number => {
+    if (book.hasFulltext) return 3;
+    if (book.readable) return 2;
+    if (book.previewAvailable) return 1;
+    return 0;
+};
+
+// What a candidate has in common with the book; null when it is the same work or shares neither subject nor author
+export const compareBooks = (book: Book, candidate: Book): RelatedBook | null => {
+    const authors = new Set(authorsOf(book).map(normalize));
+    const sameAuthor = authorsOf(candidate).some(author => authors.has(normalize(author)));
+    if (candidate.id === book.id || (sameAuthor && normalize(candidate.title) === normalize(book.title))) return null;
+
+    const subjects = new Set((book.subjects || []).map(normalize));
+    const sharedSubjects = (candidate.subjects || []).filter(subject => subjects.has(normalize(subject)));
+    if (!sameAuthor && sharedSubjects.length === 0) return null;
+
+    const year = firstPublished(book);
+    const candidateYear = firstPublished(candidate);
+    const sameEra = year !== null && candidateYear !== null && Math.abs(year - candidateYear) <= ERA_YEARS;
+
+    return {
+        book: candidate,
+        score: Math.min(sharedSubjects.length, MAX_SCORED_SUBJECTS) * SUBJECT_WEIGHT
+            + (sameAuthor ? AUTHOR_WEIGHT : 0)
+            + (sameEra ? ERA_WEIGHT : 0),
+        sharedSubjects,
+        sameAuthor,
+        sameEra
+    };
+};
+
+// Rank candidates as "more like this" for book: readable and previewable books first, then by what they
+// have in common. Candidates found by more than one search are counted once.
+export const rankRelatedBooks = (
+    book: Book,
+    candidates: Book[],
+    availability: Availability = 'all',
+    limit: number = MAX_RELATED_BOOKS
+): RelatedBook[] => {
+    const unique = Array.from(new Map(candidates.map(candidate => [candidate.id, candidate])).values());
+
+    return unique
+        .filter(candidate => matchesAvailability(candidate, availability))
+        .map(candidate => compareBooks(book, candidate))
+        .filter((related): related is RelatedBook => related !== null)
+        .sort((a, b) =>
+            readability(b.book) - readability(a.book)
+            || b.score - a.score
+            || (b.book.ratingsCount || 0) - (a.book.ratingsCount || 0)
+            || a.book.title.localeCompare(b.book.title)
+        )
+        .slice(0, limit);
+};
+
+// Searches that find candidates: the book's first author and its first few subjects
+export const relatedSearches = (book: Book, availability: Availability = 'all'): AdvancedFilters[] => [
+    ...authorsOf(book).slice(0, 1).map(author => ({ ...DEFAULT_FILTERS, author, availability })),
+    ...(book.subjects || []).slice(0, MAX_SUBJECT_SEARCHES).map(subject => ({ ...DEFAULT_FILTERS, subject, availability }))
+];
+
+// Candidates from the catalog searches, ranked. A failing search is skipped unless all of them fail.
+export const getRelatedBooks = async (book: Book, availability: Availability = 'all', signal?: AbortSignal): Promise<RelatedBook[]> => {
+    const searches = relatedSearches(book, availability);
+    const settled = await Promise.allSettled(searches.map(filters => searchCatalog('', filters, 1, signal)));
+    throwIfAborted(signal);
+
+    const failures = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (searches.length > 0 && failures.length === searches.length) {
+        throw failures[0].reason;
+    }
+
+    const candidates = settled.flatMap(result => (result.status === 'fulfilled' ? result.value.books : []));
+    return rankRelatedBooks(book, candidates, availability);
+};
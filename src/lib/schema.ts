@@ -0,0 +1,101 @@
+// Minimal runtime validation for JSON from outside services. A schema checks a parsed value and returns it
+// typed, keeping only the fields it declares; Infer<typeof schema> gives the TypeScript type.
+
+export class SchemaError extends Error {
+    constructor(readonly path: string, expected: string, value: unknown) {
+        super(`Expected ${expected} at ${path || 'the top level'}, got ${value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value}`);
+        this.name = 'SchemaError';
+    }
+}
+
+export interface Schema<T> {
+    parse(value: unknown, path?: string): T;
+}
+
+// Fields that may be missing; null counts as missing, as Open Library uses both
+interface OptionalSchema<T> extends Schema<T | undefined> {
+    optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+
+// Flatten an intersection so editors show one object type
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type ObjectOf<S extends Shape> = Simplify<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean'): Schema<T> => ({
+    parse(value, path = '') {
+        if (typeof value !== type) throw new SchemaError(path, type, value);
+        return value as T;
+    }
+});
+
+export const string = (): Schema<string> => primitive('string');
+export const number = (): Schema<number> => primitive('number');
+export const boolean = (): Schema<boolean> => primitive('boolean');
+
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+    optional: true,
+    parse(value, path = '') {
+        return value === undefined || value === null ? undefined : schema.parse(value, path);
+    }
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+    parse(value, path = '') {
+        if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+        return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+    }
+});
+
+export const tuple = <A, B>(first: Schema<A>, second: Schema<B>): Schema<[A, B]> => ({
+    parse(value, path = '') {
+        if (!Array.isArray(value) || value.length < 2) throw new SchemaError(path, 'pair', value);
+        return [first.parse(value[0], `${path}[0]`), second.parse(value[1], `${path}[1]`)];
+    }
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+    parse(value, path = '') {
+        if (!isObject(value)) throw new SchemaError(path, 'object', value);
+
+        const result: Record<string, unknown> = {};
+        Object.entries(shape).forEach(([key, schema]) => {
+            const parsed = schema.parse(value[key], path ? `${path}.${key}` : key);
+            if (parsed !== undefined) result[key] = parsed;
+        });
+        return result as ObjectOf<S>;
+    }
+});
+
+// An object used as a map, e.g. books API records keyed by bibkey
+export const record = <T>(entry: Schema<T>): Schema<Record<string, T>> => ({
+    parse(value, path = '') {
+        if (!isObject(value)) throw new SchemaError(path, 'object', value);
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, entry.parse(item, path ? `${path}.${key}` : key)])
+        );
+    }
+});
+
+// The first schema the value matches
+export const union = <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> => ({
+    parse(value, path = '') {
+        try {
+            return first.parse(value, path);
+        } catch (err: unknown) {
+            if (!(err instanceof SchemaError)) throw err;
+            return second.parse(value, path);
+        }
+    }
+});
@@ -0,0 +1,142 @@
+import { AdvancedFilters, Book, IsbnImportResponse, RelatedBook, RelatedBooksResponse, SearchResponse, Suggestion, SuggestionType } from '@/types/types';
+import { isAbortError } from './abort';
+import { createCache } from './cache';
+import { chunk, mapWithConcurrency } from './concurrency';
+import { readApiError } from './errors';
+import { OFFLINE_SAVED_AT_HEADER } from './offline';
+import { searchCacheKey } from './searchParams';
+import { normalizeSuggestionTerm } from './suggestions';
+
+const SEARCH_PAGE_CACHE_TTL = 5 * 60 * 1000;
+const SUGGESTION_CACHE_TTL = 5 * 60 * 1000;
+const RELATED_CACHE_TTL = 5 * 60 * 1000;
+// Books per /api/previews request, and how many of those requests run at once
+const PREVIEW_REQUEST_SIZE = 5;
+const PREVIEW_REQUEST_CONCURRENCY = 3;
+
+// Pause after the last keystroke before searching or fetching suggestions
+export const SEARCH_DEBOUNCE_MS = 500;
+
+// Pages already fetched in this browser session, keyed on the normalized query, filters and page
+const searchPageCache = createCache<SearchResponse>('search-pages', { ttl: SEARCH_PAGE_CACHE_TTL, maxEntries: 200 });
+// Suggestions already fetched in this browser session, so backspacing over input does not refetch them
+const suggestionResponseCache = createCache<Suggestion[]>('suggestion-responses', { ttl: SUGGESTION_CACHE_TTL, maxEntries: 200 });
+// "More like this" per book and availability mode, so reopening a panel does not refetch it
+const relatedResponseCache = createCache<RelatedBook[]>('related-responses', { ttl: RELATED_CACHE_TTL, maxEntries: 100 });
+
+const requestSearchPage = async (query: string, filters: AdvancedFilters, page: number, signal: AbortSignal): Promise<SearchResponse> => {
+    // Results render straight away; previews are filled in afterwards through fetchPreviews
+    const params = new URLSearchParams({ query, ...filters, page: String(page), previews: 'deferred' });
+    const response = await fetch(`/api/search?${params.toString()}`, { signal });
+
+    if (!response.ok) {
+        throw await readApiError(response, 'Failed to fetch search results');
+    }
+
+    const data: SearchResponse = await response.json();
+    const staleSince = response.headers.get(OFFLINE_SAVED_AT_HEADER);
+    return staleSince ? { ...data, staleSince } : data;
+};
+
+// Fetch one page of results from /api/search, reusing cached and in-flight requests.
+// Rejects with an AbortError when the signal aborts.
+export const fetchSearchPage = async (query: string, filters: AdvancedFilters, page: number, signal?: AbortSignal): Promise<SearchResponse> => {
+    const key = searchCacheKey(query, filters, page);
+    const data = await searchPageCache.getOrLoad(key, loadSignal => requestSearchPage(query, filters, page, loadSignal), signal);
+    // An offline copy must not stop the next attempt from reaching the network
+    if (data.staleSince) searchPageCache.delete(key);
+    return data;
+};
+
+// Resolve previews for books the search returned with previewStatus 'checking'
+export const fetchPreviews = async (books: Book[], signal?: AbortSignal): Promise<Book[]> => {
+    const response = await fetch('/api/previews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ books }),
+        signal
+    });
+
+    if (!response.ok) {
+        throw await readApiError(response, 'Failed to load previews');
+    }
+
+    const data: { books: Book[] } = await response.json();
+    return data.books;
+};
+
+// Resolve previews for the 'checking' books a few small requests at a time, handing each batch to
+// onResolved as it comes back. A failed batch comes back 'checked' without preview actions.
+export const checkPreviewsInBatches = async (
+    books: Book[],
+    onResolved: (resolved: Book[]) => void,
+    signal?: AbortSignal
+): Promise<void> => {
+    const pending = books.filter(book => book.previewStatus === 'checking');
+
+    await mapWithConcurrency(chunk(pending, PREVIEW_REQUEST_SIZE), PREVIEW_REQUEST_CONCURRENCY, async batch => {
+        try {
+            onResolved(await fetchPreviews(batch, signal));
+        } catch (err: unknown) {
+            if (isAbortError(err)) return;
+            console.error('Error checking previews:', err);
+            onResolved(batch.map(book => ({ ...book, previewStatus: 'checked' })));
+        }
+    });
+};
+
+// Validate and look up a pasted or uploaded ISBN list through /api/isbns
+export const importIsbnList = async (text: string, signal?: AbortSignal): Promise<IsbnImportResponse> => {
+    const response = await fetch('/api/isbns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+        signal
+    });
+
+    if (!response.ok) {
+        throw await readApiError(response, 'Failed to look up ISBNs');
+    }
+
+    return response.json();
+};
+
+// Type-ahead suggestions for a search field from /api/suggest, reusing cached and in-flight requests
+export const fetchSuggestions = (type: SuggestionType, term: string, signal?: AbortSignal): Promise<Suggestion[]> =>
+    suggestionResponseCache.getOrLoad(
+        `${type}:${normalizeSuggestionTerm(term)}`,
+        async loadSignal => {
+            const params = new URLSearchParams({ type, q: term });
+            const response = await fetch(`/api/suggest?${params.toString()}`, { signal: loadSignal });
+
+            if (!response.ok) {
+                throw await readApiError(response, 'Failed to fetch suggestions');
+            }
+
+            const data: { suggestions: Suggestion[] } = await response.json();
+            return data.suggestions;
+        },
+        signal
+    );
+
+// "More like this" suggestions for a book from /api/related, reusing cached and in-flight requests
+export const fetchRelatedBooks = (book: Book, availability: AdvancedFilters['availability'], signal?: AbortSignal): Promise<RelatedBook[]> =>
+    relatedResponseCache.getOrLoad(
+        `${book.id}:${availability}`,
+        async loadSignal => {
+            const response = await fetch('/api/related', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ book, availability }),
+                signal: loadSignal
+            });
+
+            if (!response.ok) {
+                throw await readApiError(response, 'Failed to find related books');
+            }
+
+            const data: RelatedBooksResponse = await response.json();
+            return data.related;
+        },
+        signal
+    );
@@ -0,0 +1,94 @@
+import { AdvancedFilters, SavedSearch, SearchHistoryEntry } from '@/types/types';
+import { getActiveFilterChips } from './filters';
+import { ENGLISH, Translator } from './i18n';
+import { searchKey } from './searchParams';
+
+const HISTORY_KEY = 'rivel-books:search-history';
+const SAVED_KEY = 'rivel-books:saved-searches';
+// Recent searches offered in the search box dropdown
+const MAX_HISTORY = 10;
+// Result ids remembered per saved search, newest first; several pages' worth
+const MAX_SEEN_IDS = 500;
+
+const readList = <T>(storage: Storage, key: string): T[] => {
+    try {
+        const value = JSON.parse(storage.getItem(key) || '[]');
+        return Array.isArray(value) ? value : [];
+    } catch (err: unknown) {
+        console.error(`Error reading ${key}:`, err);
+        return [];
+    }
+};
+
+const writeList = <T>(storage: Storage, key: string, list: T[]): T[] => {
+    try {
+        storage.setItem(key, JSON.stringify(list));
+    } catch (err: unknown) {
+        console.error(`Error saving ${key}:`, err);
+    }
+    return list;
+};
+
+// Label for a search, e.g. "dune" · Author: Herbert
+export const describeSearch = (query: string, filters: AdvancedFilters, i18n: Translator = ENGLISH): string =>
+    [query.trim() ? `"${query.trim()}"` : '', ...getActiveFilterChips(filters, i18n).map(chip => chip.label)]
+        .filter(Boolean)
+        .join(' · ');
+
+export const loadSearchHistory = (storage: Storage = window.localStorage): SearchHistoryEntry[] =>
+    readList<SearchHistoryEntry>(storage, HISTORY_KEY);
+
+// Put a search at the top of the history, replacing an earlier run of the same search
+export const recordSearch = (query: string, filters: AdvancedFilters, storage: Storage = window.localStorage): SearchHistoryEntry[] => {
+    const key = searchKey(query, filters);
+    return writeList(storage, HISTORY_KEY, [
+        { key, query: query.trim(), filters, searchedAt: new Date().toISOString() },
+        ...loadSearchHistory(storage).filter(entry => entry.key !== key)
+    ].slice(0, MAX_HISTORY));
+};
+
+export const clearSearchHistory = (storage: Storage = window.localStorage): SearchHistoryEntry[] =>
+    writeList<SearchHistoryEntry>(storage, HISTORY_KEY, []);
+
+export const loadSavedSearches = (storage: Storage = window.localStorage): SavedSearch[] =>
+    readList<SavedSearch>(storage, SAVED_KEY);
+
+export const findSavedSearch = (saved: SavedSearch[], query: string, filters: AdvancedFilters): SavedSearch | undefined => {
+    const key = searchKey(query, filters);
+    return saved.find(search => search.key === key);
+};
+
+// Pin a search along with the results it has now, so later visits can tell which books are new
+export const saveSearch = (
+    query: string,
+    filters: AdvancedFilters,
+    bookIds: string[],
+    storage: Storage = window.localStorage
+): SavedSearch[] => {
+    const key = searchKey(query, filters);
+    const now = new Date().toISOString();
+    return writeList(storage, SAVED_KEY, [
+        { key, query: query.trim(), filters, savedAt: now, lastVisitedAt: now, seenIds: bookIds.slice(0, MAX_SEEN_IDS) },
+        ...loadSavedSearches(storage).filter(search => search.key !== key)
+    ]);
+};
+
+export const removeSavedSearch = (key: string, storage: Storage = window.localStorage): SavedSearch[] =>
+    writeList(storage, SAVED_KEY, loadSavedSearches(storage).filter(search => search.key !== key));
+
+// Remember the results shown on a visit to a saved search; ids seen on earlier visits are kept too,
+// so books that drop off the first page and come back are not counted as new again
+export const markSavedSearchVisited = (key: string, bookIds: string[], storage: Storage = window.localStorage): SavedSearch[] =>
+    writeList(storage, SAVED_KEY, loadSavedSearches(storage).map(search => search.key === key
+        ? {
+            ...search,
+            lastVisitedAt: new Date().toISOString(),
+            seenIds: Array.from(new Set([...bookIds, ...search.seenIds])).slice(0, MAX_SEEN_IDS)
+        }
+        : search));
+
+// Ids among the results that a saved search had not shown before
+export const newBookIds = (saved: SavedSearch, bookIds: string[]): string[] => {
+    const seen = new Set(saved.seenIds);
+    return bookIds.filter(id => !seen.has(id));
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERS } from './filters';
+import { parseSearchParams, searchCacheKey, toSearchParams } from './searchParams';
+
+describe('searchCacheKey', () => {
+    it('ignores case and extra whitespace in the query and text filters', () => {
+        expect(searchCacheKey('  The   Hobbit ', { ...DEFAULT_FILTERS, author: 'J.R.R.  TOLKIEN' }, 1))
+            .toBe(searchCacheKey('the hobbit', { ...DEFAULT_FILTERS, author: 'j.r.r. tolkien' }, 1));
+    });
+
+    it('tells apart pages, availability and sort orders', () => {
+        const key = searchCacheKey('dune', DEFAULT_FILTERS, 1);
+
+        expect(searchCacheKey('dune', DEFAULT_FILTERS, 2)).not.toBe(key);
+        expect(searchCacheKey('dune', { ...DEFAULT_FILTERS, availability: 'fulltext' }, 1)).not.toBe(key);
+        expect(searchCacheKey('dune', { ...DEFAULT_FILTERS, sort: 'newest' }, 1)).not.toBe(key);
+    });
+});
+
+describe('toSearchParams', () => {
+    it('round-trips through parseSearchParams, leaving out defaults', () => {
+        const state = { query: 'dune', filters: { ...DEFAULT_FILTERS, author: 'herbert', sort: 'oldest' as const }, page: 3 };
+        const params = toSearchParams(state);
+
+        expect(params).toEqual({ q: 'dune', author: 'herbert', sort: 'oldest', page: '3' });
+        expect(parseSearchParams(params)).toEqual(state);
+    });
+});
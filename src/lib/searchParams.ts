@@ -0,0 +1,72 @@
+import type { ParsedUrlQuery } from 'querystring';
+import { AdvancedFilters, SearchState, SortOrder } from '@/types/types';
+import { AVAILABILITY_MODES, DEFAULT_FILTERS, getParam, parseFilters, SORT_ORDERS, validateFilters } from './filters';
+
+// Read the search page state from its URL query (?q=&author=&yearFrom=&...&page=)
+export const parseSearchParams = (params: ParsedUrlQuery): SearchState => {
+    const page = Number(getParam(params.page));
+
+    return {
+        query: getParam(params.q),
+        filters: parseFilters(params),
+        page: Number.isInteger(page) && page > 1 ? page : 1
+    };
+};
+
+// Read and validate an API search request (?query=&author=&...&page=); the error explains a 400
+export const parseSearchRequest = (params: ParsedUrlQuery): { search: SearchState } | { error: string } => {
+    const availability = getParam(params.availability) || 'all';
+    if (!AVAILABILITY_MODES.includes(availability as AdvancedFilters['availability'])) {
+        return { error: `Invalid availability: ${availability}` };
+    }
+
+    const sort = getParam(params.sort) || 'relevance';
+    if (!SORT_ORDERS.includes(sort as SortOrder)) {
+        return { error: `Invalid sort: ${sort}` };
+    }
+
+    const filters = parseFilters(params);
+    const [invalidFilter] = Object.entries(validateFilters(filters));
+    if (invalidFilter) {
+        return { error: `Invalid ${invalidFilter[0]}: ${invalidFilter[1]}` };
+    }
+
+    const page = Number(getParam(params.page) || '1');
+    if (!Number.isInteger(page) || page < 1) {
+        return { error: `Invalid page: ${getParam(params.page)}` };
+    }
+
+    return { search: { query: getParam(params.query), filters, page } };
+};
+
+// Build the URL query for a search, leaving out empty values and defaults
+export const toSearchParams = (state: SearchState): Record<string, string> => {
+    const params: Record<string, string> = {};
+    if (state.query) params.q = state.query;
+    (Object.keys(DEFAULT_FILTERS) as (keyof AdvancedFilters)[]).forEach(key => {
+        if (state.filters[key] !== DEFAULT_FILTERS[key]) params[key] = state.filters[key];
+    });
+    if (state.page > 1) params.page = String(state.page);
+    return params;
+};
+
+// Identifies a search regardless of how many pages of it are loaded
+export const searchKey = (query: string, filters: AdvancedFilters): string =>
+    JSON.stringify(toSearchParams({ query: query.trim(), filters, page: 1 }));
+
+// Cache key for one page of a search: case and extra whitespace do not change the results
+export const searchCacheKey = (query: string, filters: AdvancedFilters, page: number): string => {
+    const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+    // availability and sort are fixed values already
+    const normalizedFilters: AdvancedFilters = {
+        ...filters,
+        author: normalize(filters.author),
+        subject: normalize(filters.subject),
+        yearFrom: normalize(filters.yearFrom),
+        yearTo: normalize(filters.yearTo),
+        language: normalize(filters.language),
+        publisher: normalize(filters.publisher),
+        isbn: normalize(filters.isbn)
+    };
+    return JSON.stringify(toSearchParams({ query: normalize(query), filters: normalizedFilters, page }));
+};
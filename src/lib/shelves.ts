@@ -0,0 +1,62 @@
+import { Book, ShelfEntry, ShelfStatus } from '@/types/types';
+import { ENGLISH, Translator } from './i18n';
+
+// Storage backend for shelves; async so an API-backed store can replace the local one
+export interface ShelfStore {
+    list(): Promise<ShelfEntry[]>;
+    save(entry: ShelfEntry): Promise<void>;
+    remove(bookId: string): Promise<void>;
+}
+
+export const SHELVES: ShelfStatus[] = ['want-to-read', 'reading', 'finished'];
+
+// Message keys of the shelf names
+const SHELF_LABELS: Record<ShelfStatus, 'shelves.wantToRead' | 'shelves.reading' | 'shelves.finished'> = {
+    'want-to-read': 'shelves.wantToRead',
+    reading: 'shelves.reading',
+    finished: 'shelves.finished'
+};
+
+export const shelfLabel = (status: ShelfStatus, { t }: Translator = ENGLISH): string => t(SHELF_LABELS[status]);
+
+export const createShelfEntry = (book: Book, status: ShelfStatus): ShelfEntry => ({
+    book,
+    status,
+    dateAdded: new Date().toISOString(),
+    progress: status === 'finished' ? 100 : 0,
+    rating: null
+});
+
+const STORAGE_KEY = 'rivel-books:shelves';
+
+// Shelves kept in localStorage as a map of book id to entry
+export const createLocalShelfStore = (storage: Storage = window.localStorage): ShelfStore => {
+    const read = (): Record<string, ShelfEntry> => {
+        try {
+            return JSON.parse(storage.getItem(STORAGE_KEY) || '{}');
+        } catch (err: unknown) {
+            console.error('Error reading shelves:', err);
+            return {};
+        }
+    };
+
+    const write = (entries: Record<string, ShelfEntry>) => {
+        storage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    };
+
+    return {
+        async list() {
+            return Object.values(read()).sort((a, b) => b.dateAdded.localeCompare(a.dateAdded));
+        },
+
+        async save(entry) {
+            write({ ...read(), [entry.book.id]: entry });
+        },
+
+        async remove(bookId) {
+            const entries = read();
+            delete entries[bookId];
+            write(entries);
+        }
+    };
+};
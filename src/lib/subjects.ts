@@ -0,0 +1,37 @@
+import { CuratedCollection, FacetCount, SearchState } from '@/types/types';
+import { DEFAULT_FILTERS } from './filters';
+import { decadeOf } from './facets';
+
+// Open Library subject slugs are the lowercased name with underscores for spaces,
+// optionally prefixed by a subject type: "science_fiction", "place:paris", "person:napoleon"
+export const toSubjectSlug = (subject: string): string =>
+    subject.trim().toLowerCase().replace(/\s+/g, '_');
+
+export const isSubjectSlug = (slug: string): boolean =>
+    slug.length > 0 && slug.length <= 200 && !/[/?#\\]/.test(slug);
+
+// Subject names come back lowercased from the subjects API; capitalise them for headings
+export const subjectTitle = (name: string): string =>
+    name.replace(/^(?:person|place|time):/, '').replace(/_/g, ' ').replace(/^\p{L}/u, letter => letter.toUpperCase());
+
+// Total editions per decade from the subjects API's [year, count] pairs, oldest first
+export const publishingDecades = (history: [number, number][]): FacetCount[] => {
+    const counts = new Map<string, number>();
+    history
+        .filter(([year, count]) => Number.isInteger(year) && year > 0 && count > 0)
+        .forEach(([year, count]) => {
+            const decade = decadeOf(year);
+            counts.set(decade, (counts.get(decade) || 0) + count);
+        });
+
+    return Array.from(counts.entries())
+        .sort((a, b) => Number(a[0]) - Number(b[0]))
+        .map(([value, count]) => ({ value, label: `${value}s`, count }));
+};
+
+// The search a curated collection opens
+export const collectionSearch = (collection: CuratedCollection): SearchState => ({
+    query: collection.query,
+    filters: { ...DEFAULT_FILTERS, ...collection.filters },
+    page: 1
+});
@@ -0,0 +1,45 @@
+import { Suggestion, SuggestionType } from '@/types/types';
+import { createCache } from './cache';
+import { searchSuggestions } from './openLibrary';
+
+export const SUGGESTION_TYPES: SuggestionType[] = ['title', 'author', 'subject'];
+
+export const isSuggestionType = (value: string): value is SuggestionType =>
+    SUGGESTION_TYPES.includes(value as SuggestionType);
+
+// Shorter input matches too much to be useful
+export const MIN_SUGGESTION_LENGTH = 2;
+export const MAX_SUGGESTIONS = 8;
+
+const SUGGESTION_CACHE_TTL = 60 * 60 * 1000;
+
+// Suggestions per field and normalized input, shared by every visitor
+const suggestionCache = createCache<Suggestion[]>('suggestions', { ttl: SUGGESTION_CACHE_TTL, maxEntries: 1000 });
+
+export const normalizeSuggestionTerm = (term: string): string => term.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const suggestionKey = (type: SuggestionType, term: string): string => `${type}:${normalizeSuggestionTerm(term)}`;
+
+export const getSuggestions = (type: SuggestionType, term: string, signal?: AbortSignal): Promise<Suggestion[]> =>
+    suggestionCache.getOrLoad(
+        suggestionKey(type, term),
+        loadSignal => searchSuggestions(type, term, MAX_SUGGESTIONS, loadSignal),
+        signal
+    );
+
+export const isSuggestionCached = (type: SuggestionType, term: string): boolean =>
+    suggestionCache.has(suggestionKey(type, term));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Split text into the parts that match words of the input and the parts between them, for highlighting
+export const highlightMatches = (text: string, term: string): { text: string; match: boolean }[] => {
+    const words = normalizeSuggestionTerm(term).split(' ').filter(Boolean).sort((a, b) => b.length - a.length);
+    if (!words.length) return [{ text, match: false }];
+
+    const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi');
+    return text
+        .split(pattern)
+        .filter(Boolean)
+        .map(part => ({ text: part, match: words.includes(part.toLowerCase()) }));
+};
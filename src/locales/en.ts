@@ -0,0 +1,306 @@
+// English messages; the source every other catalog is checked against (see Messages in src/lib/i18n.ts).
+// {name} is replaced by a parameter; keys ending in .one/.other are plural forms picked by count.
+export const en = {
+    'locale.name': 'English',
+    'locale.label': 'Language',
+
+    'search.title': 'Book Search Explorer',
+    'search.label': 'Search books',
+    'search.placeholder': 'Search by title, author, subject...',
+    'search.autoSearchHint': '(auto-search)',
+    'search.scanBarcode': 'Scan a barcode',
+    'search.submit': 'Search',
+    'search.autoSearchEnabled': 'Auto-search is enabled',
+    'search.loading': 'Searching books...',
+
+    'nav.browse': 'Browse',
+    'nav.shelves': 'My Shelves',
+    'nav.import': 'Import ISBNs',
+    'nav.openLibrary': 'View on Open Library',
+    'nav.backToSearch': 'Back to search',
+
+    'filters.show': 'Advanced Filters',
+    'filters.hide': 'Hide Filters',
+    'filters.author': 'Author',
+    'filters.authorPlaceholder': 'Author name',
+    'filters.subject': 'Subject',
+    'filters.subjectPlaceholder': 'e.g. fantasy, history',
+    'filters.publisher': 'Publisher',
+    'filters.publisherPlaceholder': 'e.g. Penguin',
+    'filters.isbn': 'ISBN',
+    'filters.isbnPlaceholder': 'ISBN-10 or ISBN-13',
+    'filters.yearFrom': 'Published From',
+    'filters.yearFromPlaceholder': 'e.g. 1900',
+    'filters.yearTo': 'Published To',
+    'filters.yearToPlaceholder': 'e.g. 1950',
+    'filters.language': 'Language',
+    'filters.anyLanguage': 'Any Language',
+    'filters.availability': 'Availability',
+    'filters.clear': 'Clear filters',
+
+    'availability.all': 'All Books',
+    'availability.preview': 'Has Preview',
+    'availability.fulltext': 'Full Text',
+
+    'chips.author': 'Author: {value}',
+    'chips.subject': 'Subject: {value}',
+    'chips.published': 'Published: {year}',
+    'chips.from': 'From: {year}',
+    'chips.to': 'To: {year}',
+    'chips.language': 'Language: {value}',
+    'chips.publisher': 'Publisher: {value}',
+    'chips.isbn': 'ISBN: {value}',
+    'chips.preview': 'Has preview',
+    'chips.fulltext': 'Full text',
+    'chips.remove': 'Remove {label}',
+
+    'validation.yearFrom': 'Enter a year like 1990',
+    'validation.yearTo': 'Enter a year like 2020',
+    'validation.yearOrder': 'Must not be before the start year',
+    'validation.language': 'Use a three-letter language code, e.g. eng',
+    'validation.isbn': 'Not a valid ISBN-10 or ISBN-13',
+
+    'sort.label': 'Sort by',
+    'sort.relevance': 'Relevance',
+    'sort.newest': 'Newest first',
+    'sort.oldest': 'Oldest first',
+    'sort.title': 'Title (A-Z)',
+
+    'facets.title': 'Refine results',
+    'facets.subjects': 'Subjects',
+    'facets.authors': 'Authors',
+    'facets.languages': 'Languages',
+    'facets.decades': 'First Published',
+
+    'offline.title': 'You are offline',
+    'offline.body': 'Recent searches still show their saved results. Anything else is retried once the connection is back.',
+    'offline.searchNotSaved': 'This search has not been saved for offline use.',
+    'offline.searchRetry': 'It will run again when the connection is back.',
+    'offline.moreFailed': 'More results could not be loaded.',
+    'offline.moreRetry': 'They will load when the connection is back.',
+
+    'errors.timedOut': 'Open Library took too long to answer.',
+    'errors.unreachable': 'Open Library could not be reached.',
+    'errors.networkAction': 'It may be briefly down. Try again in a moment.',
+    'errors.rateLimited': 'Open Library is receiving too many requests from us.',
+    'errors.rateLimitedWait.one': 'Wait {count} second and try again.',
+    'errors.rateLimitedWait.other': 'Wait {count} seconds and try again.',
+    'errors.rateLimitedWaitMinute': 'Wait a minute and try again.',
+    'errors.badResponse': 'Open Library sent back something we could not read.',
+    'errors.badResponseAction': 'Try again later. If it keeps happening, try a different search.',
+    'errors.notFound': 'Open Library has no record of this.',
+    'errors.notFoundAction': 'Check the spelling, ISBN or link and try again.',
+    'errors.serverUnreachable': 'The server could not be reached.',
+    'errors.serverUnreachableAction': 'Check your connection and try again.',
+    'errors.unknown': 'Something went wrong.',
+    'errors.fallbackAction': 'Please try again or modify your search.',
+    'errors.retry': 'Try again',
+
+    'results.found.one': 'Found {count} book',
+    'results.found.other': 'Found {count} books',
+    'results.foundAbout.one': 'Found about {count} book',
+    'results.foundAbout.other': 'Found about {count} books',
+    'results.matching': 'matching {query}',
+    'results.withPreviews': 'with {previews}',
+    'results.previews': 'previews',
+    'results.withFullText': 'with {fullText}',
+    'results.fullText': 'full text',
+    'results.newSinceVisit.one': '{count} new book since last visit',
+    'results.newSinceVisit.other': '{count} new books since last visit',
+    'results.stale': 'Stale · saved {date}',
+    'results.staleHint': 'Saved for offline use; these results refresh once the connection is back',
+    'results.saveSearch': 'Save search',
+    'results.savedSearch': 'Saved search',
+    'results.selected': '{count} selected',
+    'results.clearSelection': 'Clear',
+    'results.label': 'Search results',
+    'results.select': 'Select {title} for export',
+    'results.cover': 'Cover for {title}',
+    'results.new': 'New',
+    'results.editions.one': '{count} edition',
+    'results.editions.other': '{count} editions',
+    'results.ratings.one': '{count} rating',
+    'results.ratings.other': '{count} ratings',
+    'results.checking': 'Checking availability...',
+    'results.preview': 'Preview',
+    'results.readFullText': 'Read Full Text',
+    'results.viewDetails': 'View Details',
+    'results.loadingMore': 'Loading more books...',
+    'results.loadMore': 'Load more',
+    'results.showing': 'Showing {shown} of {total} books (page {page})',
+
+    'about.title': 'About Open Library',
+    'about.body': 'Open Library is an open, editable library catalog, building towards a web page for every book ever published. Preview and full text availability is determined by copyright status, partnerships with publishers, and donations.',
+    'about.note': 'Public domain books and classic literature are more likely to be available for preview or full reading.',
+
+    'empty.title': 'Search for books',
+    'empty.intro': 'Use the search box above to find books by title, author, or subject.',
+    'empty.autoSearch': 'Results will appear automatically as you type.',
+    'empty.manualSearch': 'Press Enter or click the search icon when ready to search.',
+    'empty.availability': 'Now with book previews and full-text availability! Use the {filter} filter to find readable books.',
+    'empty.byTitle': 'Search by Title',
+    'empty.byTitleHint': 'Enter book titles like {first} or {second}',
+    'empty.byAuthor': 'Search by Author',
+    'empty.byAuthorHint': 'Type author names or use the author filter for more precision',
+    'empty.bySubject': 'Filter by Subject',
+    'empty.bySubjectHint': 'Narrow your search with subjects like {first} or {second}',
+    'empty.previews': 'Book Previews',
+    'empty.previewsHint': 'Many books offer preview sections that you can read online before purchasing or borrowing. Look for the {badge} badge on search results.',
+    'empty.fullText': 'Full Text Books',
+    'empty.fullTextHint': 'Some books are available to read in full for free. Classic literature and public domain books are most likely to have full text available.',
+
+    'preview.by': 'by {author}',
+    'preview.fullscreen': 'Fullscreen',
+    'preview.exitFullscreen': 'Exit fullscreen',
+    'preview.close': 'Close',
+    'preview.closePreview': 'Close preview',
+    'preview.resumePosition': 'You were on page {page}, last opened {date}.',
+    'preview.resumePositionRead': 'You were on page {page} ({percent}% read), last opened {date}.',
+    'preview.resume': 'Resume where you left off',
+    'preview.startOver': 'Start over',
+    'preview.frameTitle': 'Preview of {title}',
+    'preview.blocked': 'This preview can\'t be shown here.',
+    'preview.blockedHint': 'The reader did not load, or the site does not allow embedding. You can try again or open the book in a new tab instead.',
+    'preview.retry': 'Try again',
+    'preview.openInNewTab': 'Open in new tab',
+    'preview.previousPage': 'Previous page',
+    'preview.nextPage': 'Next page',
+    'preview.page': 'Page',
+    'preview.pageOf': 'of {count}',
+    'preview.title': 'Preview',
+    'preview.positionNote': 'Reading position is only kept for Internet Archive scans.',
+    'preview.previousEdition': 'Previous edition',
+    'preview.nextEdition': 'Next edition',
+    'preview.edition': 'Edition {index} of {count}',
+
+    'book.unknownAuthor': 'Unknown Author',
+    'book.firstPublished': 'First published {date}',
+    'book.readOrPreview': 'Read / Preview',
+    'book.description': 'Description',
+    'book.noDescription': 'No description available.',
+    'book.aboutAuthor': 'About the Author',
+    'book.aboutAuthors': 'About the Authors',
+    'book.editions': 'Editions',
+    'book.withPreview': '{count} with preview',
+    'book.editionTitle': 'Title',
+    'book.published': 'Published',
+    'book.previewUnavailable': 'Not available',
+    'book.editionsShown': 'Showing the first {shown} of {total} editions.',
+    'book.allEditions': 'See them all on Open Library',
+
+    'author.noBio': 'No biography available.',
+    'author.works': 'Works',
+    'author.allWorks': 'All Works',
+    'author.oldestShown': '(oldest {count} shown)',
+    'author.fulltextCount': '{count} full text',
+    'author.checking': 'checking previews for {count}...',
+    'author.withPreviewSoFar': '{count} with preview so far',
+    'author.empty': 'No works with this availability.',
+
+    'subject.all': 'All subjects',
+    'subject.mostReadShown': '{count} most-read shown',
+    'subject.fulltextCount': '{count} of them full text',
+    'subject.searchAll': 'Search all works',
+    'subject.publishingYears': 'Publishing years',
+    'subject.checking': 'Checking...',
+    'subject.related': 'Related subjects',
+    'subject.prolificAuthors': 'Prolific authors',
+
+    'browse.collections': 'Collections',
+    'browse.subjectPlaceholder': 'Find a subject, e.g. dragons',
+
+    'chart.decade': '{decade}: {editions}',
+    'chart.caption': 'Editions published per decade. Pick a decade to search it.',
+
+    'pages.title': '{page} | Rivel Books',
+    'pages.bookBy': '{title} by {authors}',
+    'pages.bookUnavailable': 'Book unavailable',
+    'pages.authorUnavailable': 'Author unavailable',
+    'pages.subjectUnavailable': 'Subject unavailable',
+    'pages.subjectDescription': '{count} works about {subject} in the Open Library catalog.',
+    'pages.browseDescription': 'Curated collections and subjects to browse in the Open Library catalog.',
+
+    'related.show': 'More like this',
+    'related.hide': 'Hide similar books',
+    'related.title': 'More like this',
+    'related.loading': 'Finding similar books...',
+    'related.empty': 'No similar books found.',
+    'related.emptyFiltered': 'No similar books with this availability.',
+    'related.sameAuthor': 'Same author',
+    'related.sameEra': 'Same era',
+    'related.sharedSubjects': 'Also about {subjects}',
+    'related.fullText': 'Full text',
+    'related.readable': 'Borrowable',
+    'related.preview': 'Preview',
+    'related.previewBook': 'Preview {title}',
+
+    'import.intro': 'Paste ISBN-10s or ISBN-13s, one per line or comma separated, or upload a CSV or text file such as a course reading list.',
+    'import.list': 'ISBN list',
+    'import.upload': 'Upload CSV or text',
+    'import.submit': 'Look up ISBNs',
+    'import.checkList': 'Check the list and try again.',
+    'import.statusCount': '{label}: {count}',
+    'import.duplicates.one': '{count} duplicate skipped',
+    'import.duplicates.other': '{count} duplicates skipped',
+    'import.invalid.one': '{count} line was not a valid ISBN:',
+    'import.invalid.other': '{count} lines were not valid ISBNs:',
+    'import.isbn': 'ISBN',
+    'import.book': 'Book',
+    'import.availability': 'Availability',
+    'import.actions': 'Actions',
+    'import.notFound': 'Not in Open Library',
+    'import.foundBooks': 'found books',
+    'import.status.fulltext': 'Full text',
+    'import.status.readable': 'Readable',
+    'import.status.preview': 'Preview',
+    'import.status.unavailable': 'No preview',
+    'import.status.not-found': 'Not found',
+
+    'isbn.invalidCharacters': 'Contains characters other than digits and X',
+    'isbn.wrongLength': 'Has the wrong number of characters; ISBNs have 10 or 13',
+    'isbn.checkDigit': 'Check digit does not match',
+
+    'suggestions.works.one': '{count} work',
+    'suggestions.works.other': '{count} works',
+
+    'history.saved': 'Saved searches',
+    'history.recent': 'Recent searches',
+    'history.clear': 'Clear',
+    'history.new': '{count} new',
+    'history.save': 'Save search',
+    'history.saveSearch': 'Save search {label}',
+    'history.remove': 'Remove saved search',
+    'history.removeSearch': 'Remove saved search {label}',
+
+    'export.format': 'Export format',
+    'export.button': 'Export {label}',
+    'export.selected': 'selected',
+    'export.all': 'all {count}',
+    'export.shelf': 'shelf',
+
+    'shelves.wantToRead': 'Want to Read',
+    'shelves.reading': 'Reading',
+    'shelves.finished': 'Finished',
+    'shelves.save': 'Save to shelf',
+    'shelves.move': 'Move to shelf',
+    'shelves.remove': 'Remove from shelves',
+    'shelves.saveFailed': 'Could not save to your shelves; your browser\'s storage may be full or turned off.',
+    'shelves.dismiss': 'Dismiss',
+    'shelves.added': 'Added {date}',
+    'shelves.progress': 'Progress',
+    'shelves.rating': 'Rating',
+    'shelves.stars.one': '{count} star',
+    'shelves.stars.other': '{count} stars',
+    'shelves.empty': 'No books on this shelf yet. Use {action} on a search result to add one.',
+
+    'scanner.title': 'Scan a book barcode',
+    'scanner.close': 'Close',
+    'scanner.closeScanner': 'Close scanner',
+    'scanner.starting': 'Starting camera...',
+    'scanner.noCamera': 'No camera available. Upload a photo of the barcode instead.',
+    'scanner.hint': 'Hold the barcode on the back cover level with the red line.',
+    'scanner.upload': 'Upload a photo',
+    'scanner.notIsbn': '{code} is not a book barcode; ISBNs start with 978 or 979.',
+    'scanner.noBarcode': 'No barcode found in that photo. Try a sharper, closer shot with the barcode level.',
+    'scanner.unreadable': 'That file could not be read as an image.'
+} as const;
@@ -0,0 +1,306 @@
+import type { Messages } from '@/lib/i18n';
+
+export const es: Messages = {
+    'locale.name': 'Español',
+    'locale.label': 'Idioma',
+
+    'search.title': 'Explorador de libros',
+    'search.label': 'Buscar libros',
+    'search.placeholder': 'Busca por título, autor, tema...',
+    'search.autoSearchHint': '(búsqueda automática)',
+    'search.scanBarcode': 'Escanear un código de barras',
+    'search.submit': 'Buscar',
+    'search.autoSearchEnabled': 'La búsqueda automática está activada',
+    'search.loading': 'Buscando libros...',
+
+    'nav.browse': 'Explorar',
+    'nav.shelves': 'Mis estanterías',
+    'nav.import': 'Importar ISBN',
+    'nav.openLibrary': 'Ver en Open Library',
+    'nav.backToSearch': 'Volver a la búsqueda',
+
+    'filters.show': 'Filtros avanzados',
+    'filters.hide': 'Ocultar filtros',
+    'filters.author': 'Autor',
+    'filters.authorPlaceholder': 'Nombre del autor',
+    'filters.subject': 'Tema',
+    'filters.subjectPlaceholder': 'p. ej. fantasy, history',
+    'filters.publisher': 'Editorial',
+    'filters.publisherPlaceholder': 'p. ej. Penguin',
+    'filters.isbn': 'ISBN',
+    'filters.isbnPlaceholder': 'ISBN-10 o ISBN-13',
+    'filters.yearFrom': 'Publicado desde',
+    'filters.yearFromPlaceholder': 'p. ej. 1900',
+    'filters.yearTo': 'Publicado hasta',
+    'filters.yearToPlaceholder': 'p. ej. 1950',
+    'filters.language': 'Idioma',
+    'filters.anyLanguage': 'Cualquier idioma',
+    'filters.availability': 'Disponibilidad',
+    'filters.clear': 'Quitar filtros',
+
+    'availability.all': 'Todos los libros',
+    'availability.preview': 'Con vista previa',
+    'availability.fulltext': 'Texto completo',
+
+    'chips.author': 'Autor: {value}',
+    'chips.subject': 'Tema: {value}',
+    'chips.published': 'Publicado: {year}',
+    'chips.from': 'Desde: {year}',
+    'chips.to': 'Hasta: {year}',
+    'chips.language': 'Idioma: {value}',
+    'chips.publisher': 'Editorial: {value}',
+    'chips.isbn': 'ISBN: {value}',
+    'chips.preview': 'Con vista previa',
+    'chips.fulltext': 'Texto completo',
+    'chips.remove': 'Quitar {label}',
+
+    'validation.yearFrom': 'Escribe un año como 1990',
+    'validation.yearTo': 'Escribe un año como 2020',
+    'validation.yearOrder': 'No puede ser anterior al año inicial',
+    'validation.language': 'Usa un código de idioma de tres letras, p. ej. spa',
+    'validation.isbn': 'No es un ISBN-10 ni un ISBN-13 válido',
+
+    'sort.label': 'Ordenar por',
+    'sort.relevance': 'Relevancia',
+    'sort.newest': 'Más recientes',
+    'sort.oldest': 'Más antiguos',
+    'sort.title': 'Título (A-Z)',
+
+    'facets.title': 'Refinar resultados',
+    'facets.subjects': 'Temas',
+    'facets.authors': 'Autores',
+    'facets.languages': 'Idiomas',
+    'facets.decades': 'Primera publicación',
+
+    'offline.title': 'Estás sin conexión',
+    'offline.body': 'Las búsquedas recientes siguen mostrando sus resultados guardados. Todo lo demás se reintenta cuando vuelva la conexión.',
+    'offline.searchNotSaved': 'Esta búsqueda no se ha guardado para usarla sin conexión.',
+    'offline.searchRetry': 'Se repetirá cuando vuelva la conexión.',
+    'offline.moreFailed': 'No se han podido cargar más resultados.',
+    'offline.moreRetry': 'Se cargarán cuando vuelva la conexión.',
+
+    'errors.timedOut': 'Open Library ha tardado demasiado en responder.',
+    'errors.unreachable': 'No se ha podido conectar con Open Library.',
+    'errors.networkAction': 'Puede que no esté disponible un momento. Vuelve a intentarlo en breve.',
+    'errors.rateLimited': 'Open Library está recibiendo demasiadas peticiones nuestras.',
+    'errors.rateLimitedWait.one': 'Espera {count} segundo y vuelve a intentarlo.',
+    'errors.rateLimitedWait.other': 'Espera {count} segundos y vuelve a intentarlo.',
+    'errors.rateLimitedWaitMinute': 'Espera un minuto y vuelve a intentarlo.',
+    'errors.badResponse': 'Open Library ha devuelto algo que no podemos leer.',
+    'errors.badResponseAction': 'Vuelve a intentarlo más tarde. Si sigue pasando, prueba con otra búsqueda.',
+    'errors.notFound': 'Open Library no tiene ningún registro de esto.',
+    'errors.notFoundAction': 'Revisa la ortografía, el ISBN o el enlace y vuelve a intentarlo.',
+    'errors.serverUnreachable': 'No se ha podido conectar con el servidor.',
+    'errors.serverUnreachableAction': 'Comprueba tu conexión y vuelve a intentarlo.',
+    'errors.unknown': 'Algo ha salido mal.',
+    'errors.fallbackAction': 'Vuelve a intentarlo o cambia la búsqueda.',
+    'errors.retry': 'Volver a intentarlo',
+
+    'results.found.one': 'Se ha encontrado {count} libro',
+    'results.found.other': 'Se han encontrado {count} libros',
+    'results.foundAbout.one': 'Se ha encontrado aproximadamente {count} libro',
+    'results.foundAbout.other': 'Se han encontrado aproximadamente {count} libros',
+    'results.matching': 'que coinciden con {query}',
+    'results.withPreviews': 'con {previews}',
+    'results.previews': 'vista previa',
+    'results.withFullText': 'con {fullText}',
+    'results.fullText': 'texto completo',
+    'results.newSinceVisit.one': '{count} libro nuevo desde la última visita',
+    'results.newSinceVisit.other': '{count} libros nuevos desde la última visita',
+    'results.stale': 'Desactualizado · guardado el {date}',
+    'results.staleHint': 'Guardado para usarlo sin conexión; estos resultados se actualizan cuando vuelva la conexión',
+    'results.saveSearch': 'Guardar búsqueda',
+    'results.savedSearch': 'Búsqueda guardada',
+    'results.selected': '{count} seleccionados',
+    'results.clearSelection': 'Quitar',
+    'results.label': 'Resultados de la búsqueda',
+    'results.select': 'Seleccionar {title} para exportar',
+    'results.cover': 'Portada de {title}',
+    'results.new': 'Nuevo',
+    'results.editions.one': '{count} edición',
+    'results.editions.other': '{count} ediciones',
+    'results.ratings.one': '{count} valoración',
+    'results.ratings.other': '{count} valoraciones',
+    'results.checking': 'Comprobando disponibilidad...',
+    'results.preview': 'Vista previa',
+    'results.readFullText': 'Leer texto completo',
+    'results.viewDetails': 'Ver detalles',
+    'results.loadingMore': 'Cargando más libros...',
+    'results.loadMore': 'Cargar más',
+    'results.showing': 'Mostrando {shown} de {total} libros (página {page})',
+
+    'about.title': 'Acerca de Open Library',
+    'about.body': 'Open Library es un catálogo de biblioteca abierto y editable que aspira a tener una página web para cada libro publicado. La disponibilidad de vistas previas y textos completos depende de los derechos de autor, los acuerdos con editoriales y las donaciones.',
+    'about.note': 'Los libros de dominio público y la literatura clásica tienen más probabilidades de ofrecer vista previa o lectura completa.',
+
+    'empty.title': 'Busca libros',
+    'empty.intro': 'Usa el cuadro de búsqueda para encontrar libros por título, autor o tema.',
+    'empty.autoSearch': 'Los resultados aparecen automáticamente mientras escribes.',
+    'empty.manualSearch': 'Pulsa Intro o el icono de búsqueda cuando quieras buscar.',
+    'empty.availability': '¡Ahora con vistas previas y textos completos! Usa el filtro {filter} para encontrar libros que se pueden leer.',
+    'empty.byTitle': 'Buscar por título',
+    'empty.byTitleHint': 'Escribe títulos como {first} o {second}',
+    'empty.byAuthor': 'Buscar por autor',
+    'empty.byAuthorHint': 'Escribe el nombre de un autor o usa el filtro de autor para afinar más',
+    'empty.bySubject': 'Filtrar por tema',
+    'empty.bySubjectHint': 'Acota la búsqueda con temas como {first} o {second}',
+    'empty.previews': 'Vistas previas',
+    'empty.previewsHint': 'Muchos libros ofrecen fragmentos que puedes leer en línea antes de comprarlos o tomarlos prestados. Busca la etiqueta {badge} en los resultados.',
+    'empty.fullText': 'Libros completos',
+    'empty.fullTextHint': 'Algunos libros se pueden leer enteros gratis. La literatura clásica y los libros de dominio público son los que más a menudo tienen el texto completo.',
+
+    'preview.by': 'de {author}',
+    'preview.fullscreen': 'Pantalla completa',
+    'preview.exitFullscreen': 'Salir de pantalla completa',
+    'preview.close': 'Cerrar',
+    'preview.closePreview': 'Cerrar vista previa',
+    'preview.resumePosition': 'Ibas por la página {page}; lo abriste por última vez el {date}.',
+    'preview.resumePositionRead': 'Ibas por la página {page} ({percent}% leído); lo abriste por última vez el {date}.',
+    'preview.resume': 'Seguir donde lo dejaste',
+    'preview.startOver': 'Empezar de nuevo',
+    'preview.frameTitle': 'Vista previa de {title}',
+    'preview.blocked': 'Esta vista previa no se puede mostrar aquí.',
+    'preview.blockedHint': 'El lector no ha cargado o el sitio no permite insertarlo. Puedes volver a intentarlo o abrir el libro en una pestaña nueva.',
+    'preview.retry': 'Volver a intentarlo',
+    'preview.openInNewTab': 'Abrir en una pestaña nueva',
+    'preview.previousPage': 'Página anterior',
+    'preview.nextPage': 'Página siguiente',
+    'preview.page': 'Página',
+    'preview.pageOf': 'de {count}',
+    'preview.title': 'Vista previa',
+    'preview.positionNote': 'La posición de lectura solo se guarda para los escaneos de Internet Archive.',
+    'preview.previousEdition': 'Edición anterior',
+    'preview.nextEdition': 'Edición siguiente',
+    'preview.edition': 'Edición {index} de {count}',
+
+    'book.unknownAuthor': 'Autor desconocido',
+    'book.firstPublished': 'Publicado por primera vez en {date}',
+    'book.readOrPreview': 'Leer / Vista previa',
+    'book.description': 'Descripción',
+    'book.noDescription': 'No hay descripción disponible.',
+    'book.aboutAuthor': 'Sobre el autor',
+    'book.aboutAuthors': 'Sobre los autores',
+    'book.editions': 'Ediciones',
+    'book.withPreview': '{count} con vista previa',
+    'book.editionTitle': 'Título',
+    'book.published': 'Publicado',
+    'book.previewUnavailable': 'No disponible',
+    'book.editionsShown': 'Se muestran las primeras {shown} de {total} ediciones.',
+    'book.allEditions': 'Ver todas en Open Library',
+
+    'author.noBio': 'No hay biografía disponible.',
+    'author.works': 'Obras',
+    'author.allWorks': 'Todas las obras',
+    'author.oldestShown': '(se muestran las {count} más antiguas)',
+    'author.fulltextCount': '{count} con texto completo',
+    'author.checking': 'comprobando la vista previa de {count}...',
+    'author.withPreviewSoFar': '{count} con vista previa por ahora',
+    'author.empty': 'No hay obras con esta disponibilidad.',
+
+    'subject.all': 'Todos los temas',
+    'subject.mostReadShown': 'se muestran las {count} más leídas',
+    'subject.fulltextCount': '{count} de ellas con texto completo',
+    'subject.searchAll': 'Buscar todas las obras',
+    'subject.publishingYears': 'Años de publicación',
+    'subject.checking': 'Comprobando...',
+    'subject.related': 'Temas relacionados',
+    'subject.prolificAuthors': 'Autores prolíficos',
+
+    'browse.collections': 'Colecciones',
+    'browse.subjectPlaceholder': 'Busca un tema, p. ej. dragones',
+
+    'chart.decade': '{decade}: {editions}',
+    'chart.caption': 'Ediciones publicadas por década. Elige una década para buscarla.',
+
+    'pages.title': '{page} | Rivel Books',
+    'pages.bookBy': '{title} de {authors}',
+    'pages.bookUnavailable': 'Libro no disponible',
+    'pages.authorUnavailable': 'Autor no disponible',
+    'pages.subjectUnavailable': 'Tema no disponible',
+    'pages.subjectDescription': '{count} obras sobre {subject} en el catálogo de Open Library.',
+    'pages.browseDescription': 'Colecciones seleccionadas y temas para explorar en el catálogo de Open Library.',
+
+    'related.show': 'Más como este',
+    'related.hide': 'Ocultar libros parecidos',
+    'related.title': 'Más como este',
+    'related.loading': 'Buscando libros parecidos...',
+    'related.empty': 'No se han encontrado libros parecidos.',
+    'related.emptyFiltered': 'No hay libros parecidos con esta disponibilidad.',
+    'related.sameAuthor': 'Mismo autor',
+    'related.sameEra': 'Misma época',
+    'related.sharedSubjects': 'También sobre {subjects}',
+    'related.fullText': 'Texto completo',
+    'related.readable': 'En préstamo',
+    'related.preview': 'Vista previa',
+    'related.previewBook': 'Vista previa de {title}',
+
+    'import.intro': 'Pega ISBN-10 o ISBN-13, uno por línea o separados por comas, o sube un archivo CSV o de texto, como la lista de lecturas de un curso.',
+    'import.list': 'Lista de ISBN',
+    'import.upload': 'Subir CSV o texto',
+    'import.submit': 'Buscar los ISBN',
+    'import.checkList': 'Revisa la lista y vuelve a intentarlo.',
+    'import.statusCount': '{label}: {count}',
+    'import.duplicates.one': '{count} duplicado omitido',
+    'import.duplicates.other': '{count} duplicados omitidos',
+    'import.invalid.one': '{count} línea no era un ISBN válido:',
+    'import.invalid.other': '{count} líneas no eran ISBN válidos:',
+    'import.isbn': 'ISBN',
+    'import.book': 'Libro',
+    'import.availability': 'Disponibilidad',
+    'import.actions': 'Acciones',
+    'import.notFound': 'No está en Open Library',
+    'import.foundBooks': 'libros encontrados',
+    'import.status.fulltext': 'Texto completo',
+    'import.status.readable': 'En préstamo',
+    'import.status.preview': 'Vista previa',
+    'import.status.unavailable': 'Sin vista previa',
+    'import.status.not-found': 'No encontrado',
+
+    'isbn.invalidCharacters': 'Contiene caracteres que no son dígitos ni X',
+    'isbn.wrongLength': 'Tiene un número de caracteres incorrecto; los ISBN tienen 10 o 13',
+    'isbn.checkDigit': 'El dígito de control no coincide',
+
+    'suggestions.works.one': '{count} obra',
+    'suggestions.works.other': '{count} obras',
+
+    'history.saved': 'Búsquedas guardadas',
+    'history.recent': 'Búsquedas recientes',
+    'history.clear': 'Borrar',
+    'history.new': '{count} nuevos',
+    'history.save': 'Guardar búsqueda',
+    'history.saveSearch': 'Guardar la búsqueda {label}',
+    'history.remove': 'Quitar búsqueda guardada',
+    'history.removeSearch': 'Quitar la búsqueda guardada {label}',
+
+    'export.format': 'Formato de exportación',
+    'export.button': 'Exportar {label}',
+    'export.selected': 'seleccionados',
+    'export.all': 'los {count}',
+    'export.shelf': 'estantería',
+
+    'shelves.wantToRead': 'Quiero leer',
+    'shelves.reading': 'Leyendo',
+    'shelves.finished': 'Terminados',
+    'shelves.save': 'Guardar en estantería',
+    'shelves.move': 'Mover a estantería',
+    'shelves.remove': 'Quitar de las estanterías',
+    'shelves.saveFailed': 'No se pudo guardar en tus estanterías; puede que el almacenamiento del navegador esté lleno o desactivado.',
+    'shelves.dismiss': 'Descartar',
+    'shelves.added': 'Añadido el {date}',
+    'shelves.progress': 'Progreso',
+    'shelves.rating': 'Valoración',
+    'shelves.stars.one': '{count} estrella',
+    'shelves.stars.other': '{count} estrellas',
+    'shelves.empty': 'Aún no hay libros en esta estantería. Usa {action} en un resultado de búsqueda para añadir uno.',
+
+    'scanner.title': 'Escanear el código de barras de un libro',
+    'scanner.close': 'Cerrar',
+    'scanner.closeScanner': 'Cerrar el escáner',
+    'scanner.starting': 'Iniciando la cámara...',
+    'scanner.noCamera': 'No hay cámara disponible. Sube una foto del código de barras.',
+    'scanner.hint': 'Coloca el código de barras de la contraportada a la altura de la línea roja.',
+    'scanner.upload': 'Subir una foto',
+    'scanner.notIsbn': '{code} no es el código de barras de un libro; los ISBN empiezan por 978 o 979.',
+    'scanner.noBarcode': 'No se encontró ningún código de barras en la foto. Prueba con una foto más nítida, más cerca y con el código recto.',
+    'scanner.unreadable': 'No se pudo leer ese archivo como imagen.'
+};
@@ -1,6 +1,20 @@
 import "@/styles/globals.css";
 import type { AppProps } from "next/app";
+import { useEffect } from "react";
+import { LocaleProvider } from "@/context/LocaleContext";
+import { ShelvesProvider } from "@/context/ShelvesContext";
+import { registerServiceWorker } from "@/lib/offline";
 
 export default function App({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />;
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return (
+    <LocaleProvider>
+      <ShelvesProvider>
+        <Component {...pageProps} />
+      </ShelvesProvider>
+    </LocaleProvider>
+  );
 }
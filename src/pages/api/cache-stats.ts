@@ -0,0 +1,11 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { CacheStats, getCacheStats } from "@/lib/cache";
+
+// Hit/miss counts for the server-side search and preview caches
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Record<string, CacheStats>>,
+) {
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).json(getCacheStats());
+}
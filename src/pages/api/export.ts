@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ApiErrorResponse, Book } from "@/types/types";
+import { hasSearchCriteria, isCatalogBook, searchCatalog } from "@/lib/catalog";
+import { abortOnClose, isAbortError } from "@/lib/abort";
+import { sendApiError } from "@/lib/errors";
+import { getParam } from "@/lib/filters";
+import { parseSearchRequest } from "@/lib/searchParams";
+import { EXPORT_FORMATS, exportBooks, exportFilename, exportFormatInfo, isExportFormat } from "@/lib/export";
+
+// Books accepted in one POSTed selection
+const MAX_BOOKS = 1000;
+
+const formatError = (format: string): ApiErrorResponse => ({
+  error: `Invalid format: ${format}. Use one of ${EXPORT_FORMATS.map((option) => option.format).join(", ")}`,
+});
+
+// GET exports a page of search results (same parameters as /api/search plus format);
+// POST exports a selection sent as { format, books }
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | ApiErrorResponse>,
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const format = req.method === "GET" ? getParam(req.query.format) : String(req.body?.format ?? "");
+  if (!isExportFormat(format)) {
+    return res.status(400).json(formatError(format));
+  }
+
+  let books: Book[];
+  if (req.method === "POST") {
+    const posted: unknown = req.body?.books;
+    if (!Array.isArray(posted) || !posted.every(isCatalogBook)) {
+      return res.status(400).json({ error: "Provide books as an array of search results" });
+    }
+    if (posted.length > MAX_BOOKS) {
+      return res.status(400).json({ error: `At most ${MAX_BOOKS} books per export` });
+    }
+    books = posted;
+  } else {
+    const request = parseSearchRequest(req.query);
+    if ("error" in request) {
+      return res.status(400).json({ error: request.error });
+    }
+    const { query, filters, page } = request.search;
+    if (!hasSearchCriteria(query, filters)) {
+      return res.status(400).json({ error: "Provide a query or at least one filter" });
+    }
+
+    const signal = abortOnClose(res);
+
+    try {
+      books = (await searchCatalog(query, filters, page, signal, "deferred")).books;
+    } catch (err: unknown) {
+      if (isAbortError(err)) return;
+      console.error("Error searching books for export:", err);
+      return sendApiError(res, err, "Failed to fetch search results");
+    }
+  }
+
+  res.setHeader("Content-Type", `${exportFormatInfo(format).mimeType}; charset=utf-8`);
+  res.setHeader("Content-Disposition", `attachment; filename="${exportFilename(format)}"`);
+  res.status(200).send(exportBooks(books, format));
+}
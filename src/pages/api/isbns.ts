@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ApiErrorResponse, IsbnImportResponse } from "@/types/types";
+import { abortOnClose, isAbortError } from "@/lib/abort";
+import { sendApiError } from "@/lib/errors";
+import { lookupIsbns, MAX_IMPORT_ISBNS, prepareIsbnImport } from "@/lib/isbnImport";
+
+// Accepts { text } (pasted or uploaded CSV/plain text), { isbns: [...] }, or the list itself as a text body
+const readIsbnText = (body: unknown): string | null => {
+  if (typeof body === "string") return body;
+  const { text, isbns } = (body || {}) as { text?: unknown; isbns?: unknown };
+  if (typeof text === "string") return text;
+  if (Array.isArray(isbns) && isbns.every((isbn) => typeof isbn === "string")) return isbns.join("\n");
+  return null;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<IsbnImportResponse | ApiErrorResponse>,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const text = readIsbnText(req.body);
+  if (text === null) {
+    return res.status(400).json({ error: "Provide the ISBN list as text or an isbns array" });
+  }
+
+  const { entries, invalid, duplicates } = prepareIsbnImport(text);
+  if (entries.length === 0 && invalid.length === 0) {
+    return res.status(400).json({ error: "No ISBNs found" });
+  }
+  if (entries.length > MAX_IMPORT_ISBNS) {
+    return res.status(400).json({ error: `At most ${MAX_IMPORT_ISBNS} ISBNs per import` });
+  }
+
+  const signal = abortOnClose(res);
+
+  try {
+    const results = await lookupIsbns(entries, signal);
+    res.status(200).json({ results, invalid, duplicates });
+  } catch (err: unknown) {
+    if (isAbortError(err)) return;
+    console.error("Error looking up ISBNs:", err);
+    sendApiError(res, err, "Failed to look up ISBNs");
+  }
+}
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ApiErrorResponse, Book } from "@/types/types";
+import { enrichPreviews, isCatalogBook } from "@/lib/catalog";
+import { abortOnClose, isAbortError } from "@/lib/abort";
+import { sendApiError } from "@/lib/errors";
+
+// Books per request; clients split larger pages into several requests
+const MAX_BOOKS = 20;
+
+type PreviewsResponse = {
+  books: Book[];
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PreviewsResponse | ApiErrorResponse>,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const books: unknown = req.body?.books;
+  if (!Array.isArray(books) || !books.every(isCatalogBook)) {
+    return res.status(400).json({ error: "Provide books as an array of search results" });
+  }
+
+  if (books.length > MAX_BOOKS) {
+    return res.status(400).json({ error: `At most ${MAX_BOOKS} books per request` });
+  }
+
+  const signal = abortOnClose(res);
+
+  try {
+    res.status(200).json({ books: await enrichPreviews(books, signal) });
+  } catch (err: unknown) {
+    if (isAbortError(err)) return;
+    console.error("Error loading previews:", err);
+    sendApiError(res, err, "Failed to load previews");
+  }
+}
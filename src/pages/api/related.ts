@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { AdvancedFilters, ApiErrorResponse, RelatedBooksResponse } from "@/types/types";
+import { isCatalogBook } from "@/lib/catalog";
+import { AVAILABILITY_MODES } from "@/lib/filters";
+import { getRelatedBooks } from "@/lib/related";
+import { abortOnClose, isAbortError } from "@/lib/abort";
+import { sendApiError } from "@/lib/errors";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RelatedBooksResponse | ApiErrorResponse>,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const book: unknown = req.body?.book;
+  if (!isCatalogBook(book)) {
+    return res.status(400).json({ error: "Provide book as a search result" });
+  }
+
+  const availability = req.body?.availability ?? "all";
+  if (!AVAILABILITY_MODES.includes(availability)) {
+    return res.status(400).json({ error: `Invalid availability: ${availability}` });
+  }
+
+  const signal = abortOnClose(res);
+
+  try {
+    const related = await getRelatedBooks(book, availability as AdvancedFilters["availability"], signal);
+    res.status(200).json({ related });
+  } catch (err: unknown) {
+    if (isAbortError(err)) return;
+    console.error("Error finding related books:", err);
+    sendApiError(res, err, "Failed to find related books");
+  }
+}
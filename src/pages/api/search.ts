@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ApiErrorResponse, SearchResponse } from "@/types/types";
+import { hasSearchCriteria, isSearchCached, PREVIEW_MODES, PreviewMode, searchCatalog } from "@/lib/catalog";
+import { abortOnClose, isAbortError } from "@/lib/abort";
+import { sendApiError } from "@/lib/errors";
+import { getParam } from "@/lib/filters";
+import { parseSearchRequest } from "@/lib/searchParams";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SearchResponse | ApiErrorResponse>,
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const request = parseSearchRequest(req.query);
+  if ("error" in request) {
+    return res.status(400).json({ error: request.error });
+  }
+  const { query, filters, page } = request.search;
+
+  const previews = getParam(req.query.previews) || "inline";
+  if (!PREVIEW_MODES.includes(previews as PreviewMode)) {
+    return res.status(400).json({ error: `Invalid previews: ${previews}` });
+  }
+
+  if (!hasSearchCriteria(query, filters)) {
+    return res.status(400).json({ error: "Provide a query or at least one filter" });
+  }
+
+  // Stop the upstream search when the client goes away, e.g. because it started a newer search
+  const signal = abortOnClose(res);
+
+  try {
+    res.setHeader("X-Cache", isSearchCached(query, filters, page) ? "HIT" : "MISS");
+    const results = await searchCatalog(query, filters, page, signal, previews as PreviewMode);
+    res.status(200).json(results);
+  } catch (err: unknown) {
+    if (isAbortError(err)) return;
+    console.error("Error searching books:", err);
+    sendApiError(res, err, "Failed to fetch search results");
+  }
+}
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ApiErrorResponse, SuggestionsResponse } from "@/types/types";
+import { getParam } from "@/lib/filters";
+import { getSuggestions, isSuggestionCached, isSuggestionType, MIN_SUGGESTION_LENGTH, normalizeSuggestionTerm } from "@/lib/suggestions";
+import { abortOnClose, isAbortError } from "@/lib/abort";
+import { sendApiError } from "@/lib/errors";
+
+// Suggestions change slowly, so browsers and CDNs may reuse them for a while
+const CACHE_CONTROL = "public, max-age=300, stale-while-revalidate=3600";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuggestionsResponse | ApiErrorResponse>,
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const type = getParam(req.query.type) || "title";
+  if (!isSuggestionType(type)) {
+    return res.status(400).json({ error: `Invalid type: ${type}` });
+  }
+
+  const term = getParam(req.query.q);
+  if (normalizeSuggestionTerm(term).length < MIN_SUGGESTION_LENGTH) {
+    res.setHeader("Cache-Control", CACHE_CONTROL);
+    return res.status(200).json({ suggestions: [] });
+  }
+
+  const signal = abortOnClose(res);
+
+  try {
+    res.setHeader("X-Cache", isSuggestionCached(type, term) ? "HIT" : "MISS");
+    const suggestions = await getSuggestions(type, term, signal);
+    res.setHeader("Cache-Control", CACHE_CONTROL);
+    res.status(200).json({ suggestions });
+  } catch (err: unknown) {
+    if (isAbortError(err)) return;
+    console.error("Error fetching suggestions:", err);
+    sendApiError(res, err, "Failed to fetch suggestions");
+  }
+}
@@ -0,0 +1,74 @@
+import type { GetServerSideProps } from "next";
+import Head from "next/head";
+import AuthorProfile from "@/components/AuthorProfile";
+import LoadError from "@/components/LoadError";
+import { useLocale } from "@/context/LocaleContext";
+import { getAuthorPage } from "@/lib/openLibrary";
+import { AVAILABILITY_MODES, getParam } from "@/lib/filters";
+import { catalogPageError } from "@/lib/errors";
+import { AdvancedFilters, ApiErrorResponse, AuthorPage } from "@/types/types";
+
+type AuthorPageProps =
+  | {
+      page: AuthorPage;
+      availability: AdvancedFilters["availability"];
+    }
+  | { error: ApiErrorResponse };
+
+export const getServerSideProps: GetServerSideProps<AuthorPageProps> = async ({ params, query, res }) => {
+  const id = typeof params?.id === "string" ? params.id : "";
+  if (!/^OL\d+A$/.test(id)) {
+    return { notFound: true };
+  }
+
+  let page: AuthorPage | null;
+  try {
+    page = await getAuthorPage(id);
+  } catch (err: unknown) {
+    console.error("Error loading author:", err);
+    return catalogPageError(err, res, "Failed to load author");
+  }
+  if (!page) {
+    return { notFound: true };
+  }
+
+  const availability = getParam(query.availability) as AdvancedFilters["availability"];
+  return {
+    props: {
+      page,
+      availability: AVAILABILITY_MODES.includes(availability) ? availability : "all",
+    },
+  };
+};
+
+export default function AuthorRoute(props: AuthorPageProps) {
+  const { t } = useLocale();
+
+  if ("error" in props) {
+    return (
+      <>
+        <Head>
+          <title>{t("pages.title", { page: t("pages.authorUnavailable") })}</title>
+        </Head>
+        <LoadError error={props.error} />
+      </>
+    );
+  }
+
+  const { page, availability } = props;
+  const { author } = page;
+
+  return (
+    <>
+      <Head>
+        <title>{t("pages.title", { page: author.name })}</title>
+        {author.bio && <meta name="description" content={author.bio.slice(0, 160)} />}
+        <meta property="og:title" content={author.name} />
+        {author.photoId && (
+          <meta property="og:image" content={`https://covers.openlibrary.org/a/id/${author.photoId}-L.jpg`} />
+        )}
+      </Head>
+      <AuthorProfile page={page} initialAvailability={availability} />
+    </>
+  );
+}
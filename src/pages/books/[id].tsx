@@ -0,0 +1,62 @@
+import type { GetServerSideProps } from "next";
+import Head from "next/head";
+import BookDetails from "@/components/BookDetails";
+import LoadError from "@/components/LoadError";
+import { useLocale } from "@/context/LocaleContext";
+import { getWorkDetails } from "@/lib/openLibrary";
+import { catalogPageError } from "@/lib/errors";
+import { ApiErrorResponse, WorkDetails } from "@/types/types";
+
+type BookPageProps = { work: WorkDetails } | { error: ApiErrorResponse };
+
+export const getServerSideProps: GetServerSideProps<BookPageProps> = async ({ params, res }) => {
+  const id = typeof params?.id === "string" ? params.id : "";
+  if (!/^OL\d+W$/.test(id)) {
+    return { notFound: true };
+  }
+
+  try {
+    const work = await getWorkDetails(id);
+    if (!work) {
+      return { notFound: true };
+    }
+
+    return { props: { work } };
+  } catch (err: unknown) {
+    console.error("Error loading work:", err);
+    return catalogPageError(err, res, "Failed to load book");
+  }
+};
+
+export default function BookPage(props: BookPageProps) {
+  const { t, formatList } = useLocale();
+
+  if ("error" in props) {
+    return (
+      <>
+        <Head>
+          <title>{t("pages.title", { page: t("pages.bookUnavailable") })}</title>
+        </Head>
+        <LoadError error={props.error} />
+      </>
+    );
+  }
+
+  const { work } = props;
+  const authors = formatList(work.authors.map((author) => author.name));
+  const title = authors ? t("pages.bookBy", { title: work.title, authors }) : work.title;
+
+  return (
+    <>
+      <Head>
+        <title>{t("pages.title", { page: title })}</title>
+        {work.description && <meta name="description" content={work.description.slice(0, 160)} />}
+        <meta property="og:title" content={work.title} />
+        {work.coverId && (
+          <meta property="og:image" content={`https://covers.openlibrary.org/b/id/${work.coverId}-L.jpg`} />
+        )}
+      </Head>
+      <BookDetails work={work} />
+    </>
+  );
+}
@@ -0,0 +1,16 @@
+import Head from "next/head";
+import IsbnImport from "@/components/IsbnImport";
+import { useLocale } from "@/context/LocaleContext";
+
+export default function ImportPage() {
+  const { t } = useLocale();
+
+  return (
+    <>
+      <Head>
+        <title>{t("pages.title", { page: t("nav.import") })}</title>
+      </Head>
+      <IsbnImport />
+    </>
+  );
+}
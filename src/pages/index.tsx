@@ -1,7 +1,35 @@
+import type { GetServerSideProps } from "next";
 import BookSearch from "@/components/BookSearch";
+import { hasSearchCriteria, searchCatalog } from "@/lib/catalog";
+import { parseSearchParams } from "@/lib/searchParams";
+import { SearchResponse, SearchState } from "@/types/types";
 
-export default function Home() {
+type HomeProps = {
+  initialSearch: SearchState;
+  initialResults: SearchResponse | null;
+};
+
+// Render the first page of results on the server when the URL carries a search
+export const getServerSideProps: GetServerSideProps<HomeProps> = async ({ query }) => {
+  const initialSearch = parseSearchParams(query);
+  let initialResults: SearchResponse | null = null;
+
+  if (hasSearchCriteria(initialSearch.query, initialSearch.filters)) {
+    try {
+      // Previews are checked from the browser once the page has rendered
+      const results = await searchCatalog(initialSearch.query, initialSearch.filters, 1, undefined, "deferred");
+      // Drop undefined optional fields, which Next.js cannot serialize into props
+      initialResults = JSON.parse(JSON.stringify(results));
+    } catch (err: unknown) {
+      console.error("Error searching books:", err);
+    }
+  }
+
+  return { props: { initialSearch, initialResults } };
+};
+
+export default function Home({ initialSearch, initialResults }: HomeProps) {
   return (
-    <BookSearch />
+    <BookSearch initialSearch={initialSearch} initialResults={initialResults} />
   );
 }
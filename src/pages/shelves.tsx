@@ -0,0 +1,16 @@
+import Head from "next/head";
+import Shelves from "@/components/Shelves";
+import { useLocale } from "@/context/LocaleContext";
+
+export default function ShelvesPage() {
+  const { t } = useLocale();
+
+  return (
+    <>
+      <Head>
+        <title>{t("pages.title", { page: t("nav.shelves") })}</title>
+      </Head>
+      <Shelves />
+    </>
+  );
+}
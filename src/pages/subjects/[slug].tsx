@@ -0,0 +1,66 @@
+import type { GetServerSideProps } from "next";
+import Head from "next/head";
+import SubjectBrowse from "@/components/SubjectBrowse";
+import LoadError from "@/components/LoadError";
+import { useLocale } from "@/context/LocaleContext";
+import { getSubjectPage } from "@/lib/openLibrary";
+import { isSubjectSlug, subjectTitle, toSubjectSlug } from "@/lib/subjects";
+import { catalogPageError } from "@/lib/errors";
+import { ApiErrorResponse, SubjectPage } from "@/types/types";
+
+type SubjectPageProps = { page: SubjectPage } | { error: ApiErrorResponse };
+
+export const getServerSideProps: GetServerSideProps<SubjectPageProps> = async ({ params, res }) => {
+  const raw = typeof params?.slug === "string" ? params.slug : "";
+  const slug = toSubjectSlug(raw);
+  if (!isSubjectSlug(slug)) {
+    return { notFound: true };
+  }
+
+  // "Science Fiction" and "science fiction" both lead to the canonical /subjects/science_fiction
+  if (slug !== raw) {
+    return { redirect: { destination: `/subjects/${encodeURIComponent(slug)}`, permanent: true } };
+  }
+
+  let page: SubjectPage | null;
+  try {
+    page = await getSubjectPage(slug);
+  } catch (err: unknown) {
+    console.error("Error loading subject:", err);
+    return catalogPageError(err, res, "Failed to load subject");
+  }
+  if (!page) {
+    return { notFound: true };
+  }
+
+  return { props: { page } };
+};
+
+export default function SubjectRoute(props: SubjectPageProps) {
+  const { t, formatNumber } = useLocale();
+
+  if ("error" in props) {
+    return (
+      <>
+        <Head>
+          <title>{t("pages.title", { page: t("pages.subjectUnavailable") })}</title>
+        </Head>
+        <LoadError error={props.error} />
+      </>
+    );
+  }
+
+  const { page } = props;
+  const title = subjectTitle(page.name);
+
+  return (
+    <>
+      <Head>
+        <title>{t("pages.title", { page: title })}</title>
+        <meta name="description" content={t("pages.subjectDescription", { count: formatNumber(page.workCount), subject: title.toLowerCase() })} />
+        <meta property="og:title" content={title} />
+      </Head>
+      <SubjectBrowse page={page} />
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+import Head from "next/head";
+import SubjectsLanding from "@/components/SubjectsLanding";
+import { useLocale } from "@/context/LocaleContext";
+
+export default function SubjectsPage() {
+  const { t } = useLocale();
+
+  return (
+    <>
+      <Head>
+        <title>{t("pages.title", { page: t("nav.browse") })}</title>
+        <meta name="description" content={t("pages.browseDescription")} />
+      </Head>
+      <SubjectsLanding />
+    </>
+  );
+}
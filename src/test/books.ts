@@ -0,0 +1,20 @@
+import { Book } from '@/types/types';
+
+// A Book for tests: the placeholders the normalizers use for missing fields, plus whatever the test sets
+export const makeBook = (overrides: Partial<Book> = {}): Book => ({
+    id: '/works/OL1W',
+    title: 'Untitled',
+    author: 'Unknown Author',
+    year: 'Unknown Year',
+    coverId: null,
+    publisher: 'Unknown Publisher',
+    languages: [],
+    isbn: null,
+    hasFulltext: false,
+    iaIdentifier: null,
+    previewAvailable: false,
+    previewUrl: null,
+    readUrl: null,
+    source: 'openlibrary',
+    ...overrides
+});
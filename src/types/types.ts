@@ -1,17 +1,281 @@
 // types.ts
+// Catalogs a Book can come from
+export type BookSource = 'openlibrary' | 'googlebooks';
+
 export type Book = {
     id: string;
     title: string;
+    // First credited author; `authors` lists all of them when the catalog provides more
     author: string;
+    authors?: string[];
+    // Open Library author ids (OL...A) in the same order as authors; empty where unknown
+    authorIds?: string[];
     year: string | number;
     coverId: number | null;
+    coverUrl?: string | null;
     publisher: string;
+    // Language codes as the catalog gives them, e.g. 'eng' or 'en'; named for display with languageName
     languages: string[];
     isbn: string | null;
+    // Every ISBN, OCLC and LCCN number the catalog lists, e.g. one per edition of a work
+    isbns?: string[];
+    oclc?: string[];
+    lccn?: string[];
+    // Open Library edition ids (OL...M), the edition the work's cover comes from first
+    olids?: string[];
+    subjects?: string[];
+    editionCount?: number;
+    ratingsAverage?: number | null;
+    ratingsCount?: number;
+    pageCount?: number | null;
     hasFulltext: boolean;
     iaIdentifier: string | null;
+    // Every Internet Archive scan of the work, when there is more than one
+    iaIdentifiers?: string[];
     previewAvailable: boolean;
     previewUrl: string | null;
     readUrl: string | null;
     readable?: boolean;
-}
\ No newline at end of file
+    // 'checking' until the preview fields have been looked up; absent when the catalog supplied them
+    previewStatus?: PreviewStatus;
+    source: BookSource;
+}
+
+export type PreviewStatus = 'checking' | 'checked';
+
+// Preview fields a catalog provider can resolve for a Book
+export type BookPreview = Pick<Book, 'previewAvailable' | 'previewUrl' | 'readUrl' | 'readable'>;
+
+// Result orderings supported by the search
+export type SortOrder = 'relevance' | 'newest' | 'oldest' | 'title';
+
+// Interface for advanced filters
+export interface AdvancedFilters {
+    author: string;
+    subject: string;
+    // First publish year range; either end may be left empty
+    yearFrom: string;
+    yearTo: string;
+    // ISO 639-2 code, e.g. "eng"
+    language: string;
+    publisher: string;
+    isbn: string;
+    availability: 'all' | 'preview' | 'fulltext';
+    sort: SortOrder;
+}
+
+// Response shape of /api/search
+export type SearchResponse = {
+    numFound: number;
+    start: number;
+    books: Book[];
+    // Books dropped from this page by the availability filter or de-duplication
+    filtered: number;
+    hasMore: boolean;
+    // Only returned with the first page of a search
+    facets?: SearchFacets;
+    // Set in the browser when the page came from the offline cache: when that copy was saved (ISO 8601)
+    staleSince?: string;
+}
+
+// Why a catalog request failed; API routes report it so the UI can say what to do about it
+export type ApiErrorCode = 'network' | 'rate-limited' | 'bad-response' | 'not-found';
+
+// Body of a failed API request
+export type ApiErrorResponse = {
+    error: string;
+    code?: ApiErrorCode;
+    // For a network error: Open Library was reached but did not answer in time
+    timedOut?: boolean;
+    // Seconds to wait before retrying a rate-limited request, when known
+    retryAfter?: number;
+}
+
+// A filter value with the number of matching books
+export type FacetCount = {
+    value: string;
+    label: string;
+    count: number;
+}
+
+// Counts of the most common values among the books matching a search
+export type SearchFacets = {
+    subjects: FacetCount[];
+    languages: FacetCount[];
+    authors: FacetCount[];
+    // value is the first year of the decade, e.g. "1950"
+    decades: FacetCount[];
+}
+
+
+// An author as shown on the book detail page
+export type AuthorDetails = {
+    id: string;
+    name: string;
+    bio: string | null;
+    birthDate: string | null;
+    deathDate: string | null;
+    photoId: number | null;
+}
+
+// A single published edition of a work, with its preview status
+export type Edition = BookPreview & {
+    id: string;
+    title: string;
+    isbn: string | null;
+    publisher: string;
+    publishDate: string;
+    // Language codes, as for Book
+    languages: string[];
+    coverId: number | null;
+    iaIdentifier: string | null;
+}
+
+// An author with the works listed on /authors/[id]
+export type AuthorPage = {
+    author: AuthorDetails;
+    works: Book[];
+    // Works Open Library has for the author; more than works.length when the list was cut short
+    totalWorks: number;
+}
+
+// A subject with the works and statistics shown on /subjects/[slug]
+export type SubjectPage = {
+    slug: string;
+    name: string;
+    workCount: number;
+    works: Book[];
+    // value is the related subject's slug
+    relatedSubjects: FacetCount[];
+    // value is the Open Library author id, e.g. "OL26320A"
+    authors: FacetCount[];
+    // Editions published per decade, oldest first; value is the first year of the decade
+    publishingDecades: FacetCount[];
+}
+
+// A ready-made search listed on the /subjects landing page
+export type CuratedCollection = {
+    id: string;
+    title: string;
+    description: string;
+    query: string;
+    // Applied on top of the default filters
+    filters: Partial<AdvancedFilters>;
+}
+
+// A "more like this" suggestion and what it has in common with the book it was found for
+export type RelatedBook = {
+    book: Book;
+    score: number;
+    // As the suggested book spells them
+    sharedSubjects: string[];
+    sameAuthor: boolean;
+    // First published within a couple of decades of each other
+    sameEra: boolean;
+}
+
+// Response shape of /api/related
+export type RelatedBooksResponse = {
+    related: RelatedBook[];
+}
+
+// Full work record used by /books/[id]
+export type WorkDetails = {
+    id: string;
+    title: string;
+    description: string | null;
+    subjects: string[];
+    firstPublishDate: string | null;
+    coverId: number | null;
+    authors: AuthorDetails[];
+    // The first few editions; editionCount is how many the work has in all
+    editions: Edition[];
+    editionCount: number;
+}
+
+
+// Reading shelves a saved book can be on
+export type ShelfStatus = 'want-to-read' | 'reading' | 'finished';
+
+// A book saved to the user's reading lists
+export type ShelfEntry = {
+    book: Book;
+    status: ShelfStatus;
+    dateAdded: string;
+    // Percentage read, 0-100
+    progress: number;
+    // 1-5 stars, null until rated
+    rating: number | null;
+}
+
+// How readable an imported ISBN is, best first
+export type IsbnAvailability = 'fulltext' | 'readable' | 'preview' | 'unavailable' | 'not-found';
+
+// One row of a bulk ISBN lookup
+export type IsbnLookup = {
+    // As it appeared in the pasted or uploaded list
+    input: string;
+    // Normalized ISBN-13
+    isbn: string;
+    availability: IsbnAvailability;
+    book: Book | null;
+}
+
+// Message key for why a line is not a valid ISBN, translated where it is shown
+export type IsbnErrorKey = 'isbn.invalidCharacters' | 'isbn.wrongLength' | 'isbn.checkDigit';
+
+export type IsbnImportResponse = {
+    results: IsbnLookup[];
+    invalid: { input: string; error: IsbnErrorKey }[];
+    // ISBNs listed more than once, looked up only once
+    duplicates: number;
+}
+
+// Where the reader left off in an Internet Archive scan
+export type ReadingPosition = {
+    // 1-based page
+    page: number;
+    // Pages in the scan, null when archive.org did not say
+    pageCount: number | null;
+    updatedAt: string;
+}
+
+
+// A search as it appears in the URL of the search page
+export type SearchState = {
+    query: string;
+    filters: AdvancedFilters;
+    page: number;
+}
+
+// A search run from the search page, kept in the recent-searches history
+export type SearchHistoryEntry = {
+    // searchKey of the query and filters
+    key: string;
+    query: string;
+    filters: AdvancedFilters;
+    searchedAt: string;
+}
+
+// A search pinned by the user, with the result ids seen on the last visit
+export type SavedSearch = Omit<SearchHistoryEntry, 'searchedAt'> & {
+    savedAt: string;
+    lastVisitedAt: string;
+    seenIds: string[];
+}
+
+// Fields of the search page that offer type-ahead suggestions
+export type SuggestionType = 'title' | 'author' | 'subject';
+
+// One type-ahead suggestion; detail is shown beside it, e.g. an author's best-known work
+export type Suggestion = {
+    value: string;
+    detail: string | null;
+    // Subjects: how many works have it, shown in place of detail in the reader's locale
+    workCount?: number;
+}
+
+// Response shape of /api/suggest
+export type SuggestionsResponse = {
+    suggestions: Suggestion[];
+}
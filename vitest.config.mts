@@ -0,0 +1,19 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  // tsconfig leaves JSX to Next.js; tests compile it themselves
+  esbuild: {
+    jsx: "automatic",
+  },
+  test: {
+    // Component tests opt into jsdom with a `@vitest-environment jsdom` comment
+    environment: "node",
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
+});